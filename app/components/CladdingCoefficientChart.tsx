@@ -0,0 +1,95 @@
+import { CartesianGrid, Legend, Line, LineChart, ReferenceDot, ResponsiveContainer, XAxis, YAxis } from "recharts";
+import {
+    CLADDING_AREA_RANGE,
+    CLADDING_ZONE_NAMES,
+    getCladdingCoefficients,
+    type CladdingElement,
+    type CladdingRoofCategory,
+    type CladdingZone
+} from "~/utils/wind-loads";
+
+interface CladdingCoefficientChartProps {
+    roofCategory: CladdingRoofCategory;
+    elements: CladdingElement[];
+    height?: number;
+}
+
+const zoneColors: Record<CladdingZone, string> = {
+    w: "#60A5FA",
+    e: "#2563EB",
+    r: "#FBBF24",
+    s: "#F97316",
+    c: "#EF4444"
+};
+
+const SAMPLES = 41;
+
+// Cp·Cg sampled evenly on log(A) so the straight segments of the figures stay straight
+const getCurveData = (roofCategory: CladdingRoofCategory) => {
+    const logMin = Math.log10(CLADDING_AREA_RANGE.min);
+    const logMax = Math.log10(CLADDING_AREA_RANGE.max);
+
+    return Array.from({ length: SAMPLES }, (_, i) => {
+        const area = Math.pow(10, logMin + (i / (SAMPLES - 1)) * (logMax - logMin));
+        const point: Record<string, number> = { area };
+        (Object.keys(zoneColors) as CladdingZone[]).forEach(zone => {
+            point[zone] = getCladdingCoefficients(zone, area, roofCategory).negative;
+        });
+        point.wallPositive = getCladdingCoefficients("w", area, roofCategory).positive;
+        point.roofPositive = getCladdingCoefficients("r", area, roofCategory).positive;
+        return point;
+    });
+};
+
+export function CladdingCoefficientChart({ roofCategory, elements, height = 320 }: CladdingCoefficientChartProps) {
+    const data = getCurveData(roofCategory);
+    const clampArea = (area: number) => Math.min(Math.max(area, CLADDING_AREA_RANGE.min), CLADDING_AREA_RANGE.max);
+
+    return (
+        <ResponsiveContainer width="100%" height={height}>
+            <LineChart data={data} margin={{ top: 16, right: 24, bottom: 20, left: 8 }}>
+                <CartesianGrid stroke="#4B5563" strokeDasharray="3 3" />
+                <XAxis
+                    dataKey="area"
+                    type="number"
+                    scale="log"
+                    domain={[CLADDING_AREA_RANGE.min, CLADDING_AREA_RANGE.max]}
+                    ticks={[1, 2, 5, 10, 20, 50, 100]}
+                    stroke="#9CA3AF"
+                    label={{ value: "Tributary area (m²)", position: "insideBottom", offset: -12, fill: "#9CA3AF" }}
+                />
+                <YAxis
+                    type="number"
+                    tickFormatter={(value: number) => value.toFixed(1)}
+                    stroke="#9CA3AF"
+                    label={{ value: "Cp·Cg", angle: -90, position: "insideLeft", fill: "#9CA3AF" }}
+                />
+                <Legend verticalAlign="top" height={32} />
+                {(Object.keys(zoneColors) as CladdingZone[]).map(zone => (
+                    <Line
+                        key={zone}
+                        type="linear"
+                        dataKey={zone}
+                        name={`${zone} - ${CLADDING_ZONE_NAMES[zone]}`}
+                        stroke={zoneColors[zone]}
+                        dot={false}
+                        isAnimationActive={false}
+                    />
+                ))}
+                <Line type="linear" dataKey="wallPositive" name="Walls (inward)" stroke="#34D399" strokeDasharray="5 5" dot={false} isAnimationActive={false} />
+                <Line type="linear" dataKey="roofPositive" name="Roof (inward)" stroke="#A3E635" strokeDasharray="5 5" dot={false} isAnimationActive={false} />
+                {elements.map(element => (
+                    <ReferenceDot
+                        key={element.id}
+                        x={clampArea(element.tributaryArea)}
+                        y={getCladdingCoefficients(element.zone, element.tributaryArea, roofCategory).negative}
+                        r={5}
+                        fill={zoneColors[element.zone]}
+                        stroke="#FFFFFF"
+                        label={{ value: element.name, position: "bottom", fill: "#D1D5DB", fontSize: 12 }}
+                    />
+                ))}
+            </LineChart>
+        </ResponsiveContainer>
+    );
+}
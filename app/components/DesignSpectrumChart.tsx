@@ -0,0 +1,57 @@
+import { CartesianGrid, Legend, Line, LineChart, ReferenceDot, ReferenceLine, ResponsiveContainer, XAxis, YAxis } from "recharts";
+import type { SeismicHazardData } from "~/utils/seismic-api";
+import {
+    SPECTRUM_PERIOD_RANGE,
+    buildDesignSpectrum,
+    calculateDesignSpectralAcceleration,
+    getHazardSpectrum
+} from "~/utils/seismic-loads";
+
+interface DesignSpectrumChartProps {
+    data: SeismicHazardData;
+    period: number; // s, building period used for V
+    height?: number;
+}
+
+// Design spectrum on log(T) with the raw CanSHM6 values as points and the building period marked
+export function DesignSpectrumChart({ data, period, height = 320 }: DesignSpectrumChartProps) {
+    const spectrum = buildDesignSpectrum(data);
+    const hazard = getHazardSpectrum(data);
+    const T = Math.min(Math.max(period, SPECTRUM_PERIOD_RANGE.min), SPECTRUM_PERIOD_RANGE.max);
+    const S = calculateDesignSpectralAcceleration(data, T);
+
+    return (
+        <ResponsiveContainer width="100%" height={height}>
+            <LineChart margin={{ top: 16, right: 24, bottom: 20, left: 8 }}>
+                <CartesianGrid stroke="#4B5563" strokeDasharray="3 3" />
+                <XAxis
+                    dataKey="T"
+                    type="number"
+                    scale="log"
+                    domain={[SPECTRUM_PERIOD_RANGE.min, SPECTRUM_PERIOD_RANGE.max]}
+                    ticks={[0.05, 0.1, 0.2, 0.5, 1, 2, 5, 10]}
+                    stroke="#9CA3AF"
+                    label={{ value: "Period, T (s)", position: "insideBottom", offset: -12, fill: "#9CA3AF" }}
+                />
+                <YAxis
+                    type="number"
+                    tickFormatter={(value: number) => value.toFixed(2)}
+                    stroke="#9CA3AF"
+                    label={{ value: "S(T) (g)", angle: -90, position: "insideLeft", fill: "#9CA3AF" }}
+                />
+                <Legend verticalAlign="top" height={32} />
+                <Line data={spectrum} type="linear" dataKey="S" name="Design spectrum S(T)" stroke="#F97316" dot={false} isAnimationActive={false} />
+                <Line data={hazard} type="linear" dataKey="S" name="CanSHM6 Sa(T)" stroke="#60A5FA" strokeDasharray="5 5" dot={{ r: 3 }} isAnimationActive={false} />
+                <ReferenceLine x={T} stroke="#FBBF24" strokeDasharray="3 3" />
+                <ReferenceDot
+                    x={T}
+                    y={S}
+                    r={5}
+                    fill="#FBBF24"
+                    stroke="#FFFFFF"
+                    label={{ value: `T = ${period.toFixed(2)} s`, position: "right", fill: "#D1D5DB", fontSize: 12 }}
+                />
+            </LineChart>
+        </ResponsiveContainer>
+    );
+}
@@ -0,0 +1,34 @@
+import { Bar, BarChart, CartesianGrid, Legend, ResponsiveContainer, XAxis, YAxis } from "recharts";
+import type { StoreySeismicForce } from "~/utils/seismic-loads";
+
+interface SeismicStoreyForceChartProps {
+    forces: StoreySeismicForce[];
+    height?: number;
+}
+
+// Levels run up the vertical axis with the roof at the top, like an elevation of the building
+export function SeismicStoreyForceChart({ forces, height = 320 }: SeismicStoreyForceChartProps) {
+    const data = [...forces].reverse().map(storey => ({
+        level: storey.level,
+        Fx: Number(storey.Fx.toFixed(1)),
+        shear: Number(storey.shear.toFixed(1))
+    }));
+
+    return (
+        <ResponsiveContainer width="100%" height={height}>
+            <BarChart data={data} layout="vertical" margin={{ top: 16, right: 24, bottom: 20, left: 8 }}>
+                <CartesianGrid stroke="#4B5563" strokeDasharray="3 3" />
+                <XAxis
+                    type="number"
+                    tickFormatter={(value: number) => value.toFixed(0)}
+                    stroke="#9CA3AF"
+                    label={{ value: "Force (kN)", position: "insideBottom", offset: -12, fill: "#9CA3AF" }}
+                />
+                <YAxis dataKey="level" type="category" width={72} stroke="#9CA3AF" />
+                <Legend verticalAlign="top" height={32} />
+                <Bar dataKey="Fx" name="Storey force Fx" fill="#F97316" isAnimationActive={false} />
+                <Bar dataKey="shear" name="Storey shear Vx" fill="#60A5FA" isAnimationActive={false} />
+            </BarChart>
+        </ResponsiveContainer>
+    );
+}
@@ -0,0 +1,110 @@
+import { Area, AreaChart, CartesianGrid, ReferenceDot, ResponsiveContainer, XAxis, YAxis } from "recharts";
+import type { SnowLoadCase, SnowLoadProfilePoint } from "~/utils/snow-loads";
+
+interface SnowLoadProfileChartProps {
+    loadCase: SnowLoadCase;
+    extent: number; // Roof dimension the uniform cases are drawn across (m)
+    color: string;
+    height?: number;
+}
+
+// Cases without an explicit profile are uniform across the roof
+export const getLoadProfile = (loadCase: SnowLoadCase, extent: number): SnowLoadProfilePoint[] =>
+    loadCase.profile && loadCase.profile.length > 1
+        ? loadCase.profile
+        : [{ x: 0, load: loadCase.loadValue }, { x: extent, load: loadCase.loadValue }];
+
+const getPeakPoint = (profile: SnowLoadProfilePoint[]): SnowLoadProfilePoint =>
+    profile.reduce((max, point) => point.load > max.load ? point : max, profile[0]);
+
+// Top of the load axis, 20% above the peak rounded up to 0.1 kPa
+const getLoadAxisMax = (peak: number): number => Math.max(0.1, Math.ceil(peak * 1.2 * 10) / 10);
+
+export function SnowLoadProfileChart({ loadCase, extent, color, height = 200 }: SnowLoadProfileChartProps) {
+    const profile = getLoadProfile(loadCase, extent);
+    const peak = getPeakPoint(profile);
+    const length = Math.max(...profile.map(point => point.x));
+
+    return (
+        <div className="w-full">
+            <ResponsiveContainer width="100%" height={height}>
+                <AreaChart data={profile} margin={{ top: 24, right: 24, bottom: 20, left: 8 }}>
+                    <CartesianGrid stroke="#4B5563" strokeDasharray="3 3" />
+                    <XAxis
+                        dataKey="x"
+                        type="number"
+                        domain={[0, length]}
+                        tickFormatter={(value: number) => value.toFixed(1)}
+                        stroke="#9CA3AF"
+                        label={{ value: "Distance along roof (m)", position: "insideBottom", offset: -12, fill: "#9CA3AF" }}
+                    />
+                    <YAxis
+                        type="number"
+                        domain={[0, getLoadAxisMax(peak.load)]}
+                        tickFormatter={(value: number) => value.toFixed(1)}
+                        stroke="#9CA3AF"
+                        label={{ value: "Load (kPa)", angle: -90, position: "insideLeft", fill: "#9CA3AF" }}
+                    />
+                    <Area
+                        type="linear"
+                        dataKey="load"
+                        stroke={color}
+                        fill={color}
+                        fillOpacity={0.3}
+                        isAnimationActive={false}
+                    />
+                    <ReferenceDot
+                        x={peak.x}
+                        y={peak.load}
+                        r={4}
+                        fill={color}
+                        stroke="none"
+                        label={{ value: `${peak.load.toFixed(2)} kPa`, position: "top", fill: color }}
+                    />
+                </AreaChart>
+            </ResponsiveContainer>
+        </div>
+    );
+}
+
+// Static SVG of a load profile for the print window, drawn from the load case data with the
+// same axes as the on-screen chart so the report does not depend on what is rendered
+export const getSnowLoadProfileSvg = (loadCase: SnowLoadCase, extent: number, color: string): string => {
+    const width = 600;
+    const height = 200;
+    const margin = { top: 24, right: 24, bottom: 36, left: 48 };
+    const plotWidth = width - margin.left - margin.right;
+    const plotHeight = height - margin.top - margin.bottom;
+
+    const profile = getLoadProfile(loadCase, extent);
+    const peak = getPeakPoint(profile);
+    const length = Math.max(...profile.map(point => point.x)) || 1;
+    const loadMax = getLoadAxisMax(peak.load);
+    const toX = (x: number) => margin.left + (x / length) * plotWidth;
+    const toY = (load: number) => margin.top + plotHeight - (load / loadMax) * plotHeight;
+
+    const ticks = [0, 1, 2, 3, 4];
+    const gridLines = ticks.map(i => {
+        const x = toX((length * i) / 4);
+        const y = toY((loadMax * i) / 4);
+        return `<line x1="${x}" y1="${margin.top}" x2="${x}" y2="${margin.top + plotHeight}" stroke="#D1D5DB" stroke-dasharray="3 3" />`
+            + `<line x1="${margin.left}" y1="${y}" x2="${margin.left + plotWidth}" y2="${y}" stroke="#D1D5DB" stroke-dasharray="3 3" />`
+            + `<text x="${x}" y="${margin.top + plotHeight + 14}" text-anchor="middle">${((length * i) / 4).toFixed(1)}</text>`
+            + `<text x="${margin.left - 6}" y="${y + 4}" text-anchor="end">${((loadMax * i) / 4).toFixed(1)}</text>`;
+    }).join("");
+
+    const line = profile.map(point => `${toX(point.x)},${toY(point.load)}`).join(" ");
+    const area = `${toX(profile[0].x)},${toY(0)} ${line} ${toX(profile[profile.length - 1].x)},${toY(0)}`;
+
+    return `<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 ${width} ${height}" width="100%" font-size="11" fill="#374151">`
+        + gridLines
+        + `<polygon points="${area}" fill="${color}" fill-opacity="0.3" stroke="none" />`
+        + `<polyline points="${line}" fill="none" stroke="${color}" stroke-width="2" />`
+        + `<line x1="${margin.left}" y1="${margin.top + plotHeight}" x2="${margin.left + plotWidth}" y2="${margin.top + plotHeight}" stroke="#374151" />`
+        + `<line x1="${margin.left}" y1="${margin.top}" x2="${margin.left}" y2="${margin.top + plotHeight}" stroke="#374151" />`
+        + `<circle cx="${toX(peak.x)}" cy="${toY(peak.load)}" r="4" fill="${color}" />`
+        + `<text x="${toX(peak.x)}" y="${toY(peak.load) - 8}" text-anchor="middle" fill="${color}">${peak.load.toFixed(2)} kPa</text>`
+        + `<text x="${margin.left + plotWidth / 2}" y="${height - 4}" text-anchor="middle">Distance along roof (m)</text>`
+        + `<text x="12" y="${margin.top + plotHeight / 2}" text-anchor="middle" transform="rotate(-90 12 ${margin.top + plotHeight / 2})">Load (kPa)</text>`
+        + `</svg>`;
+};
@@ -0,0 +1,42 @@
+import { CartesianGrid, Legend, Line, LineChart, ResponsiveContainer, XAxis, YAxis } from "recharts";
+import { buildVelocityPressureProfile, type WindPressureParameters } from "~/utils/wind-loads";
+
+interface VelocityPressureProfileChartProps {
+    params: WindPressureParameters;
+    buildingHeight: number; // m
+    height?: number;
+}
+
+// Height runs up the vertical axis so the profile reads like an elevation of the building
+export function VelocityPressureProfileChart({ params, buildingHeight, height = 320 }: VelocityPressureProfileChartProps) {
+    const uls = buildVelocityPressureProfile(params, buildingHeight, "uls");
+    const sls = buildVelocityPressureProfile(params, buildingHeight, "sls");
+    const data = uls.map((point, i) => ({ z: point.z, uls: point.pressure, sls: sls[i].pressure }));
+    const peak = Math.max(...data.map(point => point.uls));
+
+    return (
+        <ResponsiveContainer width="100%" height={height}>
+            <LineChart data={data} layout="vertical" margin={{ top: 16, right: 24, bottom: 20, left: 8 }}>
+                <CartesianGrid stroke="#4B5563" strokeDasharray="3 3" />
+                <XAxis
+                    type="number"
+                    domain={[0, Math.ceil(peak * 1.2 * 10) / 10]}
+                    tickFormatter={(value: number) => value.toFixed(2)}
+                    stroke="#9CA3AF"
+                    label={{ value: "Iw·q·Ce·Ct (kPa)", position: "insideBottom", offset: -12, fill: "#9CA3AF" }}
+                />
+                <YAxis
+                    dataKey="z"
+                    type="number"
+                    domain={[0, buildingHeight]}
+                    tickFormatter={(value: number) => value.toFixed(0)}
+                    stroke="#9CA3AF"
+                    label={{ value: "Height (m)", angle: -90, position: "insideLeft", fill: "#9CA3AF" }}
+                />
+                <Legend verticalAlign="top" height={32} />
+                <Line type="linear" dataKey="uls" name="ULS" stroke="#F97316" dot={false} isAnimationActive={false} />
+                <Line type="linear" dataKey="sls" name="SLS" stroke="#60A5FA" dot={false} isAnimationActive={false} />
+            </LineChart>
+        </ResponsiveContainer>
+    );
+}
@@ -1,6 +1,14 @@
-import { useState } from "react";
+import { useState, useEffect } from "react";
 import type { MetaFunction } from "@remix-run/node";
 import deadLoadsData from "../data/dead_loads.json";
+import {
+    SAVED_ASSEMBLIES_KEY,
+    calculateLayerLoad,
+    parseSavedAssemblies,
+    requiresThickness,
+    type DeadLoadAssembly,
+    type DeadLoadMaterial
+} from "~/utils/dead-loads";
 
 export const meta: MetaFunction = () => {
     return [
@@ -9,13 +17,6 @@ export const meta: MetaFunction = () => {
     ];
 };
 
-interface DeadLoadMaterial {
-    material: string;
-    value: number;
-    units: string;
-    category: string;
-}
-
 interface AssemblyItem {
     id: string;
     material: DeadLoadMaterial;
@@ -35,6 +36,14 @@ export default function DeadLoadCalculator() {
     const [customUnits, setCustomUnits] = useState<string>("kPa");
     const [customThickness, setCustomThickness] = useState<string>("100");
 
+    // Assemblies saved for the seismic weight calculation
+    const [assemblyName, setAssemblyName] = useState<string>("");
+    const [savedAssemblies, setSavedAssemblies] = useState<DeadLoadAssembly[]>([]);
+
+    useEffect(() => {
+        setSavedAssemblies(parseSavedAssemblies(localStorage.getItem(SAVED_ASSEMBLIES_KEY)));
+    }, []);
+
     // Get unique categories from the JSON data
     const categories = [...new Set(deadLoadsData.map(item => item.category))].sort();
 
@@ -44,13 +53,13 @@ export default function DeadLoadCalculator() {
     );
 
     const addToAssembly = (material: DeadLoadMaterial) => {
-        if (material.units === "kN/m3") {
+        if (requiresThickness(material)) {
             // Show thickness input for kN/m3 materials
             setShowThicknessInput(material.material);
             setCurrentThickness("100");
         } else {
             // Direct add for kPa materials
-            const calculatedLoad = material.value;
+            const calculatedLoad = calculateLayerLoad(material);
             const newItem: AssemblyItem = {
                 id: Date.now().toString() + Math.random().toString(36).substr(2, 9),
                 material,
@@ -64,8 +73,7 @@ export default function DeadLoadCalculator() {
     const confirmAddWithThickness = (material: DeadLoadMaterial) => {
         const thicknessMm = parseFloat(currentThickness);
         const validThicknessMm = thicknessMm >= 1 ? thicknessMm : 1;
-        const thicknessM = validThicknessMm / 1000; // Convert mm to m
-        const calculatedLoad = material.value * thicknessM;
+        const calculatedLoad = calculateLayerLoad(material, validThicknessMm);
 
         const newItem: AssemblyItem = {
             id: Date.now().toString() + Math.random().toString(36).substr(2, 9),
@@ -104,20 +112,16 @@ export default function DeadLoadCalculator() {
         };
 
         let thickness: number | undefined;
-        let calculatedLoad: number;
 
-        if (customUnits === "kN/m3") {
+        if (requiresThickness(material)) {
             const thicknessMm = parseFloat(customThickness);
             if (isNaN(thicknessMm) || thicknessMm < 1) {
                 alert("Please enter a valid thickness of at least 1mm");
                 return;
             }
             thickness = thicknessMm; // Store thickness in mm for display
-            const thicknessM = thicknessMm / 1000; // Convert mm to m for calculation
-            calculatedLoad = value * thicknessM;
-        } else {
-            calculatedLoad = value;
         }
+        const calculatedLoad = calculateLayerLoad(material, thickness);
 
         const newItem: AssemblyItem = {
             id: Date.now().toString() + Math.random().toString(36).substr(2, 9),
@@ -141,6 +145,26 @@ export default function DeadLoadCalculator() {
 
     const totalDeadLoad = assembly.reduce((total, item) => total + item.calculatedLoad, 0);
 
+    const updateSavedAssemblies = (assemblies: DeadLoadAssembly[]) => {
+        setSavedAssemblies(assemblies);
+        localStorage.setItem(SAVED_ASSEMBLIES_KEY, JSON.stringify(assemblies));
+    };
+
+    const saveAssembly = () => {
+        if (!assemblyName.trim()) {
+            alert("Please enter a name for the assembly");
+            return;
+        }
+
+        updateSavedAssemblies([...savedAssemblies, {
+            id: Date.now().toString() + Math.random().toString(36).substr(2, 9),
+            name: assemblyName.trim(),
+            load: totalDeadLoad,
+            description: assembly.map(item => item.thickness ? `${item.material.material} (${item.thickness} mm)` : item.material.material).join(' + ')
+        }]);
+        setAssemblyName("");
+    };
+
     const handlePrint = () => {
         // Create a new window for printing
         const printWindow = window.open('', '_blank');
@@ -504,6 +528,52 @@ export default function DeadLoadCalculator() {
                             )}
                         </div>
 
+                        {/* Saved Assemblies */}
+                        <div className="p-4 engineering-card">
+                            <h2 className="text-xl font-semibold mb-2 text-white">Saved Assemblies</h2>
+                            <p className="text-sm text-gray-300 mb-4">
+                                Saved assemblies are offered for each floor in the seismic load calculator.
+                            </p>
+                            {assembly.length > 0 && (
+                                <div className="flex gap-2 mb-4">
+                                    <input
+                                        aria-label="Assembly name"
+                                        type="text"
+                                        value={assemblyName}
+                                        onChange={(e) => setAssemblyName(e.target.value)}
+                                        placeholder="e.g. Typical office floor"
+                                        className="flex-1 p-2 border border-orange-600 rounded bg-black text-white focus:ring-2 focus:ring-orange-500"
+                                    />
+                                    <button
+                                        onClick={saveAssembly}
+                                        className="bg-orange-600 text-white py-2 px-4 rounded hover:bg-orange-700 transition-colors"
+                                    >
+                                        Save
+                                    </button>
+                                </div>
+                            )}
+                            {savedAssemblies.length === 0 ? (
+                                <p className="text-gray-300">No saved assemblies yet.</p>
+                            ) : (
+                                <div className="space-y-2">
+                                    {savedAssemblies.map(saved => (
+                                        <div key={saved.id} className="p-3 bg-gray-900 border border-orange-600 rounded flex justify-between items-start">
+                                            <div className="text-white flex-1">
+                                                <div className="font-medium">{saved.name}</div>
+                                                <div className="text-sm font-medium text-orange-400">{saved.load.toFixed(2)} kPa</div>
+                                            </div>
+                                            <button
+                                                onClick={() => updateSavedAssemblies(savedAssemblies.filter(item => item.id !== saved.id))}
+                                                className="text-red-400 hover:text-red-300 text-sm font-medium ml-2"
+                                            >
+                                                Remove
+                                            </button>
+                                        </div>
+                                    ))}
+                                </div>
+                            )}
+                        </div>
+
                         {/* Clear Assembly */}
                         {assembly.length > 0 && (
                             <button
@@ -1,6 +1,6 @@
 import type { ActionFunctionArgs, LoaderFunctionArgs, MetaFunction } from "@remix-run/node";
 import { json } from "@remix-run/node";
-import { useLoaderData, Form, useSubmit, useActionData } from "@remix-run/react";
+import { useLoaderData, Form, Link, useSubmit, useActionData } from "@remix-run/react";
 import { useState, useEffect } from "react";
 import {
     MapPinIcon,
@@ -16,7 +16,35 @@ import {
     type LocationSearchResult,
     type CanSHM6SiteClass
 } from "~/utils/seismic-api";
+import {
+    calculateDesignSpectralAcceleration,
+    calculateSeismicBaseShear,
+    PARTITION_ALLOWANCE,
+    PERIOD_FORMULAS,
+    SEISMIC_SNOW_FRACTION,
+    assembleStoreyWeights,
+    buildEqualStoreys,
+    calculateSeismicRoofSnowLoad,
+    distributeSeismicForces,
+    formatDesignSpectralAcceleration,
+    getDesignPeriod,
+    getDesignSpectrumWarnings,
+    type PeriodFormula,
+    type SeismicForceDistribution,
+    type SeismicSystemType,
+    type StoreyWeightBreakdown,
+    type StoreyWeightInput
+} from "~/utils/seismic-loads";
+import {
+    SAVED_ASSEMBLIES_KEY,
+    STANDARD_ASSEMBLIES,
+    parseSavedAssemblies,
+    type DeadLoadAssembly
+} from "~/utils/dead-loads";
+import { DesignSpectrumChart } from "~/components/DesignSpectrumChart";
+import { SeismicStoreyForceChart } from "~/components/SeismicStoreyForceChart";
 import canadianCitiesGeoData from "~/data/canadian_cities_geo_data.json";
+import snowWindLoadsData from "~/data/snow_wind_loads.json";
 
 // Interfaces for Canadian geographical data
 interface CanadianCity {
@@ -72,6 +100,15 @@ const getProvinces = (): ProvinceOption[] => {
     return Array.from(provinceMap.values()).sort((a, b) => a.name.localeCompare(b.name));
 };
 
+// Climatic record for a named place, matched exactly or to its City Hall entry, ignoring accents
+const findSnowLocation = (name: string, province?: string) => {
+    const normalize = (value: string) => value.normalize("NFD").replace(/[\u0300-\u036f]/g, "").toLowerCase();
+    const target = normalize(name);
+    const candidates = snowWindLoadsData.filter(item => !province || item.province === province);
+    return candidates.find(item => normalize(item.location) === target)
+        ?? candidates.find(item => normalize(item.location) === `${target} (city hall)`);
+};
+
 // Get cities for a specific province
 const getCitiesForProvince = (provinceCode: string): CityOption[] => {
     return geoData.cities
@@ -166,7 +203,12 @@ interface BuildingParameters {
     importance: "Low" | "Normal" | "High" | "Post-disaster";
     height: number; // m
     floors: number;
-    weight: number; // kN
+    storeys: StoreyWeightInput[]; // floor plates lumped at each level above grade
+    floorArea: number; // m², typical floor plate for equal storeys
+    partitionLoad: number; // kPa
+    Ss: number | null; // kPa, ground snow load; null until set for the site
+    Sr: number | null; // kPa, associated rain load
+    modeledPeriod: number | null; // s, from a structural model; the code formula applies when empty
     structuralSystem: string;
     ductility: "Limited" | "Moderate" | "Ductile";
     irregularities: {
@@ -176,6 +218,14 @@ interface BuildingParameters {
     siteClass: "A" | "B" | "C" | "D" | "E";
 }
 
+// Snow importance factors (ULS) for the design snow load carried in W
+const SNOW_IMPORTANCE_FACTORS: Record<BuildingParameters["importance"], number> = {
+    "Low": 0.8,
+    "Normal": 1.0,
+    "High": 1.15,
+    "Post-disaster": 1.25
+};
+
 interface StructuralSystem {
     name: string;
     category: string;
@@ -184,6 +234,9 @@ interface StructuralSystem {
     description: string;
     heightLimit: number; // m
     ductility: "Limited" | "Moderate" | "Ductile";
+    type: SeismicSystemType;
+    periodFormula: PeriodFormula;
+    periodUpperLimit: number; // modeled period may not exceed this multiple of Ta
 }
 
 interface SeismicResult {
@@ -203,7 +256,10 @@ const structuralSystems: StructuralSystem[] = [
         Ro: 1.5,
         description: "Ductile moment-resisting frame",
         heightLimit: 60,
-        ductility: "Ductile"
+        ductility: "Ductile",
+        type: "moment-frame",
+        periodFormula: "moment-frame-steel",
+        periodUpperLimit: 1.5
     },
     {
         name: "Steel Moment Frame - Limited Ductility",
@@ -212,7 +268,10 @@ const structuralSystems: StructuralSystem[] = [
         Ro: 1.3,
         description: "Limited ductility moment frame",
         heightLimit: 40,
-        ductility: "Limited"
+        ductility: "Limited",
+        type: "moment-frame",
+        periodFormula: "moment-frame-steel",
+        periodUpperLimit: 1.5
     },
     {
         name: "Steel Braced Frame - Ductile",
@@ -221,7 +280,10 @@ const structuralSystems: StructuralSystem[] = [
         Ro: 1.5,
         description: "Ductile concentrically braced frame",
         heightLimit: 60,
-        ductility: "Ductile"
+        ductility: "Ductile",
+        type: "braced-frame",
+        periodFormula: "braced-frame",
+        periodUpperLimit: 2.0
     },
     {
         name: "Steel Braced Frame - Limited Ductility",
@@ -230,7 +292,10 @@ const structuralSystems: StructuralSystem[] = [
         Ro: 1.3,
         description: "Limited ductility braced frame",
         heightLimit: 40,
-        ductility: "Limited"
+        ductility: "Limited",
+        type: "braced-frame",
+        periodFormula: "braced-frame",
+        periodUpperLimit: 2.0
     },
 
     // Concrete systems
@@ -241,7 +306,10 @@ const structuralSystems: StructuralSystem[] = [
         Ro: 1.6,
         description: "Ductile reinforced concrete moment frame",
         heightLimit: 60,
-        ductility: "Ductile"
+        ductility: "Ductile",
+        type: "moment-frame",
+        periodFormula: "moment-frame-concrete",
+        periodUpperLimit: 1.5
     },
     {
         name: "RC Shear Wall - Ductile",
@@ -250,7 +318,10 @@ const structuralSystems: StructuralSystem[] = [
         Ro: 1.6,
         description: "Ductile reinforced concrete shear wall",
         heightLimit: 60,
-        ductility: "Ductile"
+        ductility: "Ductile",
+        type: "wall",
+        periodFormula: "shear-wall",
+        periodUpperLimit: 2.0
     },
     {
         name: "RC Shear Wall - Moderate Ductility",
@@ -259,7 +330,10 @@ const structuralSystems: StructuralSystem[] = [
         Ro: 1.4,
         description: "Moderate ductility shear wall",
         heightLimit: 40,
-        ductility: "Moderate"
+        ductility: "Moderate",
+        type: "wall",
+        periodFormula: "shear-wall",
+        periodUpperLimit: 2.0
     },
 
     // Wood systems
@@ -270,7 +344,10 @@ const structuralSystems: StructuralSystem[] = [
         Ro: 1.7,
         description: "Conventional wood frame construction",
         heightLimit: 15,
-        ductility: "Moderate"
+        ductility: "Moderate",
+        type: "wall",
+        periodFormula: "shear-wall",
+        periodUpperLimit: 2.0
     },
     {
         name: "Wood Shear Wall",
@@ -279,7 +356,22 @@ const structuralSystems: StructuralSystem[] = [
         Ro: 1.5,
         description: "Wood structural panel shear wall",
         heightLimit: 20,
-        ductility: "Limited"
+        ductility: "Limited",
+        type: "wall",
+        periodFormula: "shear-wall",
+        periodUpperLimit: 2.0
+    },
+    {
+        name: "Wood Moment Frame - Moderate Ductility",
+        category: "Wood",
+        Rd: 2.0,
+        Ro: 1.5,
+        description: "Moderately ductile timber moment-resisting frame",
+        heightLimit: 20,
+        ductility: "Moderate",
+        type: "moment-frame",
+        periodFormula: "moment-frame-other",
+        periodUpperLimit: 1.5
     },
 
     // Masonry systems
@@ -290,7 +382,10 @@ const structuralSystems: StructuralSystem[] = [
         Ro: 1.5,
         description: "Ductile reinforced masonry shear wall",
         heightLimit: 40,
-        ductility: "Ductile"
+        ductility: "Ductile",
+        type: "wall",
+        periodFormula: "shear-wall",
+        periodUpperLimit: 2.0
     },
     {
         name: "Unreinforced Masonry",
@@ -299,7 +394,10 @@ const structuralSystems: StructuralSystem[] = [
         Ro: 1.0,
         description: "Unreinforced masonry bearing wall",
         heightLimit: 15,
-        ductility: "Limited"
+        ductility: "Limited",
+        type: "wall",
+        periodFormula: "shear-wall",
+        periodUpperLimit: 2.0
     }
 ];
 
@@ -327,7 +425,12 @@ export default function SeismicLoadCalculator() {
         importance: "Normal",
         height: 20,
         floors: 5,
-        weight: 10000,
+        storeys: buildEqualStoreys(20, 5, 600, "concrete-slab", "steel-deck-roof"),
+        floorArea: 600,
+        partitionLoad: PARTITION_ALLOWANCE,
+        Ss: null,
+        Sr: null,
+        modeledPeriod: null,
         structuralSystem: "Steel Moment Frame - Ductile",
         ductility: "Ductile",
         irregularities: {
@@ -341,8 +444,31 @@ export default function SeismicLoadCalculator() {
     );
     const [step, setStep] = useState(1);
     const [seismicResults, setSeismicResults] = useState<SeismicResult[]>([]);
+    const [fundamentalPeriod, setFundamentalPeriod] = useState<number | null>(null);
+    const [forceDistribution, setForceDistribution] = useState<SeismicForceDistribution | null>(null);
+    const [savedAssemblies, setSavedAssemblies] = useState<DeadLoadAssembly[]>([]);
+    const [weightBreakdown, setWeightBreakdown] = useState<StoreyWeightBreakdown[]>([]);
+    const [snowLocation, setSnowLocation] = useState("");
     const [isLoading, setIsLoading] = useState(false);
 
+    // Snow for the seismic weight comes from the climatic record of the chosen city when one matches
+    useEffect(() => {
+        const place = selectedCity
+            ? { name: selectedCity.name, province: selectedCity.province_name }
+            : selectedMajorCity
+                ? { name: selectedMajorCity.name.split(",")[0], province: selectedMajorCity.province }
+                : null;
+        if (!place) return;
+        const match = findSnowLocation(place.name, place.province);
+        setBuildingParams(prev => ({ ...prev, Ss: match?.ss ?? null, Sr: match?.sr ?? null }));
+        setSnowLocation(match ? `${match.location}, ${match.province}` : "");
+    }, [selectedCity, selectedMajorCity]);
+
+    // Assemblies saved in the dead load calculator
+    useEffect(() => {
+        setSavedAssemblies(parseSavedAssemblies(localStorage.getItem(SAVED_ASSEMBLIES_KEY)));
+    }, []);
+
     // Update seismic data when loader data changes
     useEffect(() => {
         if (seismicData && seismicData.length > 0) {
@@ -519,7 +645,7 @@ export default function SeismicLoadCalculator() {
     };
 
     const calculateSeismicLoads = () => {
-        if (!currentSeismicData) return;
+        if (!currentSeismicData || !hasSnowLoads || levelsAboveGrade.length === 0) return;
 
         const results: SeismicResult[] = [];
 
@@ -527,63 +653,64 @@ export default function SeismicLoadCalculator() {
         const selectedSystem = structuralSystems.find(system => system.name === buildingParams.structuralSystem);
         if (!selectedSystem) return;
 
-        // Site coefficients (simplified - in real application, these would be calculated based on site class and spectral values)
-        const Fa = buildingParams.siteClass === 'A' ? 0.8 :
-            buildingParams.siteClass === 'B' ? 1.0 :
-                buildingParams.siteClass === 'C' ? 1.2 :
-                    buildingParams.siteClass === 'D' ? 1.6 :
-                        buildingParams.siteClass === 'E' ? 2.5 : 3.5;
-
-        const Fv = buildingParams.siteClass === 'A' ? 0.8 :
-            buildingParams.siteClass === 'B' ? 1.0 :
-                buildingParams.siteClass === 'C' ? 1.8 :
-                    buildingParams.siteClass === 'D' ? 2.4 :
-                        buildingParams.siteClass === 'E' ? 3.5 : 3.5;
-
-        // Design spectral accelerations
-        const SaDesign02 = (2 / 3) * Fa * currentSeismicData.sa0p2;
-        const SaDesign10 = (2 / 3) * Fv * currentSeismicData.sa1p0;
-
         // Importance factor (I_E)
         const Ie = buildingParams.importance === "Low" ? 0.8 :
             buildingParams.importance === "Normal" ? 1.0 :
                 buildingParams.importance === "High" ? 1.3 : 1.5;
 
-        // Natural period approximation (simplified)
-        const Ta = buildingParams.height < 12 ? 0.1 * Math.pow(buildingParams.height, 0.75) : 0.1 * Math.pow(buildingParams.height, 0.75);
-
-        // Base shear calculation
-        const V = (SaDesign02 * Ie * buildingParams.weight) / (selectedSystem.Rd * selectedSystem.Ro);
-
-        // Minimum base shear
-        const Vmin = Math.max(
-            0.005 * buildingParams.weight,
-            (SaDesign10 * Ie * buildingParams.weight) / (selectedSystem.Rd * selectedSystem.Ro)
+        // Code period for the system, or the modeled period capped at 1.5 or 2.0 times it, with
+        // hn and N from the same levels the forces are distributed over
+        const period = getDesignPeriod(
+            selectedSystem.periodFormula,
+            selectedSystem.periodUpperLimit,
+            Math.max(...levelsAboveGrade.map(storey => storey.elevation)),
+            levelsAboveGrade.length,
+            buildingParams.modeledPeriod
         );
 
-        const VDesign = Math.max(V, Vmin);
+        // Site designation values already carry the site class, so S(T) comes straight from the hazard
+        const baseShear = calculateSeismicBaseShear(currentSeismicData, {
+            T: period.T,
+            IE: Ie,
+            W: getSeismicWeight(),
+            Rd: selectedSystem.Rd,
+            Ro: selectedSystem.Ro,
+            systemType: selectedSystem.type
+        });
+        const distribution = distributeSeismicForces(getStoreyWeights(), baseShear.design, period.T, baseShear.J);
 
         results.push(
             {
-                parameter: "Site-Modified Spectral Acceleration (0.2s)",
-                value: SaDesign02,
+                parameter: "Design Spectral Acceleration (0.2s)",
+                value: calculateDesignSpectralAcceleration(currentSeismicData, 0.2),
                 unit: "g",
-                description: "Design spectral acceleration at 0.2s period",
-                calculation: `S(0.2) = (2/3) × ${Fa} × ${currentSeismicData.sa0p2.toFixed(3)} = ${SaDesign02.toFixed(3)}`
+                description: `Short-period plateau of the design spectrum, Site Class ${buildingParams.siteClass}`,
+                calculation: formatDesignSpectralAcceleration(currentSeismicData, 0.2)
+            },
+            {
+                parameter: "Fundamental Period",
+                value: period.T,
+                unit: "s",
+                description: period.modeled === null
+                    ? `${PERIOD_FORMULAS[selectedSystem.periodFormula].name} formula, NBC 4.1.8.11.(3)`
+                    : period.clamped
+                        ? `Modeled period of ${period.modeled} s exceeds ${selectedSystem.periodUpperLimit} × Ta and is limited to ${period.limit.toFixed(3)} s`
+                        : `Modeled period, within ${selectedSystem.periodUpperLimit} × Ta`,
+                calculation: period.calculation
             },
             {
-                parameter: "Site-Modified Spectral Acceleration (1.0s)",
-                value: SaDesign10,
+                parameter: "Design Spectral Acceleration S(T)",
+                value: baseShear.S,
                 unit: "g",
-                description: "Design spectral acceleration at 1.0s period",
-                calculation: `S(1.0) = (2/3) × ${Fv} × ${currentSeismicData.sa1p0.toFixed(3)} = ${SaDesign10.toFixed(3)}`
+                description: "Design spectrum at the fundamental period",
+                calculation: formatDesignSpectralAcceleration(currentSeismicData, period.T)
             },
             {
-                parameter: "Fundamental Period",
-                value: Ta,
-                unit: "s",
-                description: "Approximate fundamental period of the structure",
-                calculation: `Ta = 0.1 × ${buildingParams.height}^0.75 = ${Ta.toFixed(3)} s`
+                parameter: "Higher Mode Factor Mv",
+                value: baseShear.Mv,
+                unit: "",
+                description: "Amplifies base shear for higher mode response, NBC Table 4.1.8.11",
+                calculation: baseShear.higherModeCalculation
             },
             {
                 parameter: "Importance Factor",
@@ -594,17 +721,77 @@ export default function SeismicLoadCalculator() {
             },
             {
                 parameter: "Base Shear",
-                value: VDesign,
+                value: baseShear.design,
                 unit: "kN",
                 description: "Design base shear force",
-                calculation: `V = max(${V.toFixed(1)}, ${Vmin.toFixed(1)}) = ${VDesign.toFixed(1)} kN`
+                calculation: baseShear.calculation
+            },
+            {
+                parameter: "Overturning Reduction Factor J",
+                value: baseShear.J,
+                unit: "",
+                description: "Reduces the base overturning moment, NBC Table 4.1.8.11",
+                calculation: baseShear.higherModeCalculation
+            },
+            {
+                parameter: "Base Overturning Moment",
+                value: distribution.reducedBaseOverturning,
+                unit: "kN·m",
+                description: "J-reduced overturning at the base from the storey forces",
+                calculation: `M = ΣFx·hx = ${distribution.baseOverturning.toFixed(0)} kN·m; J·M = ${baseShear.J.toFixed(3)} × ${distribution.baseOverturning.toFixed(0)} = ${distribution.reducedBaseOverturning.toFixed(0)} kN·m`
             }
         );
 
+        setFundamentalPeriod(period.T);
+        setForceDistribution(distribution);
+        setWeightBreakdown(getStoreyWeights());
         setSeismicResults(results);
         setStep(4);
     };
 
+    const assemblies = [...savedAssemblies, ...STANDARD_ASSEMBLIES];
+    const hasSnowLoads = buildingParams.Ss !== null && buildingParams.Sr !== null;
+    const levelsAboveGrade = buildingParams.storeys.filter(storey => storey.elevation > 0);
+    const roofSnowLoad = calculateSeismicRoofSnowLoad(buildingParams.Ss ?? 0, buildingParams.Sr ?? 0, SNOW_IMPORTANCE_FACTORS[buildingParams.importance]);
+
+    // Wx from each floor plate: assembly dead load, partitions or roof snow, and any added weight
+    const getStoreyWeights = (): StoreyWeightBreakdown[] => {
+        return assembleStoreyWeights(buildingParams.storeys, assemblies, buildingParams.partitionLoad, roofSnowLoad);
+    };
+
+    const getSeismicWeight = (): number => {
+        return getStoreyWeights().reduce((sum, storey) => sum + storey.weight, 0);
+    };
+
+    const createStoreyId = (): string => Date.now().toString() + Math.random().toString(36).substr(2, 9);
+
+    const addStorey = () => {
+        const top = buildingParams.storeys.reduce((max, storey) => Math.max(max, storey.elevation), 0);
+        setBuildingParams({
+            ...buildingParams,
+            storeys: [...buildingParams.storeys, {
+                id: createStoreyId(),
+                level: `Level ${buildingParams.storeys.length + 2}`,
+                elevation: top + 4,
+                area: buildingParams.floorArea,
+                assemblyId: STANDARD_ASSEMBLIES[0].id,
+                additional: 0,
+                isRoof: false
+            }]
+        });
+    };
+
+    const updateStorey = (id: string, changes: Partial<StoreyWeightInput>) => {
+        setBuildingParams({
+            ...buildingParams,
+            storeys: buildingParams.storeys.map(storey => storey.id === id ? { ...storey, ...changes } : storey)
+        });
+    };
+
+    const removeStorey = (id: string) => {
+        setBuildingParams({ ...buildingParams, storeys: buildingParams.storeys.filter(storey => storey.id !== id) });
+    };
+
     const getSystemsByCategory = (category: string) => {
         return structuralSystems.filter(system => system.category === category);
     };
@@ -626,6 +813,9 @@ export default function SeismicLoadCalculator() {
         setShowSuggestions(false);
         setCurrentSeismicData(null);
         setSeismicResults([]);
+        setFundamentalPeriod(null);
+        setForceDistribution(null);
+        setWeightBreakdown([]);
         setIsLoading(false);
     };
 
@@ -1066,17 +1256,21 @@ export default function SeismicLoadCalculator() {
                                         onChange={(e) => setBuildingParams({ ...buildingParams, floors: parseInt(e.target.value) || 0 })}
                                         className="w-full px-3 py-2 bg-gray-800 border border-gray-700 rounded-md focus:outline-none focus:ring-2 focus:ring-orange-500"
                                     />
+                                    <p className="text-xs text-gray-400 mt-1">Height and floors lay out equal storeys; the period takes hn and N from the storey table.</p>
                                 </div>
 
                                 <div>
-                                    <label htmlFor="seismic-weight" className="block text-sm font-medium mb-2">Seismic Weight (kN)</label>
+                                    <label htmlFor="modeled-period" className="block text-sm font-medium mb-2">Modeled Period (s)</label>
                                     <input
-                                        id="seismic-weight"
+                                        id="modeled-period"
                                         type="number"
-                                        value={buildingParams.weight}
-                                        onChange={(e) => setBuildingParams({ ...buildingParams, weight: parseFloat(e.target.value) || 0 })}
+                                        step="0.01"
+                                        value={buildingParams.modeledPeriod ?? ""}
+                                        onChange={(e) => setBuildingParams({ ...buildingParams, modeledPeriod: e.target.value === "" ? null : parseFloat(e.target.value) || 0 })}
                                         className="w-full px-3 py-2 bg-gray-800 border border-gray-700 rounded-md focus:outline-none focus:ring-2 focus:ring-orange-500"
+                                        placeholder="Optional"
                                     />
+                                    <p className="text-xs text-gray-400 mt-1">Leave empty to use the code formula for the selected system.</p>
                                 </div>
 
 
@@ -1157,6 +1351,211 @@ export default function SeismicLoadCalculator() {
                             </div>
                         </div>
 
+                        {/* Seismic Weight */}
+                        <div className="mt-8 bg-gray-800 rounded-lg p-6">
+                            <h3 className="text-lg font-semibold mb-4">Seismic Weight</h3>
+                            <div className="grid md:grid-cols-4 gap-4">
+                                <div>
+                                    <label htmlFor="floor-area" className="block text-sm font-medium mb-2">Typical Floor Area (m²)</label>
+                                    <input
+                                        id="floor-area"
+                                        type="number"
+                                        step="10"
+                                        value={buildingParams.floorArea}
+                                        onChange={(e) => setBuildingParams({ ...buildingParams, floorArea: parseFloat(e.target.value) || 0 })}
+                                        className="w-full px-3 py-2 bg-gray-800 border border-gray-700 rounded-md focus:outline-none focus:ring-2 focus:ring-orange-500"
+                                    />
+                                </div>
+                                <div>
+                                    <label htmlFor="partition-load" className="block text-sm font-medium mb-2">Partition Allowance (kPa)</label>
+                                    <input
+                                        id="partition-load"
+                                        type="number"
+                                        step="0.1"
+                                        value={buildingParams.partitionLoad}
+                                        onChange={(e) => setBuildingParams({ ...buildingParams, partitionLoad: parseFloat(e.target.value) || 0 })}
+                                        className="w-full px-3 py-2 bg-gray-800 border border-gray-700 rounded-md focus:outline-none focus:ring-2 focus:ring-orange-500"
+                                    />
+                                </div>
+                                <div>
+                                    <label htmlFor="ground-snow" className="block text-sm font-medium mb-2">Ground Snow Load, Ss (kPa)</label>
+                                    <input
+                                        id="ground-snow"
+                                        type="number"
+                                        step="0.1"
+                                        value={buildingParams.Ss ?? ""}
+                                        onChange={(e) => {
+                                            setBuildingParams({ ...buildingParams, Ss: e.target.value === "" ? null : parseFloat(e.target.value) || 0 });
+                                            setSnowLocation("");
+                                        }}
+                                        className="w-full px-3 py-2 bg-gray-800 border border-gray-700 rounded-md focus:outline-none focus:ring-2 focus:ring-orange-500"
+                                    />
+                                </div>
+                                <div>
+                                    <label htmlFor="rain-load" className="block text-sm font-medium mb-2">Rain Load, Sr (kPa)</label>
+                                    <input
+                                        id="rain-load"
+                                        type="number"
+                                        step="0.1"
+                                        value={buildingParams.Sr ?? ""}
+                                        onChange={(e) => {
+                                            setBuildingParams({ ...buildingParams, Sr: e.target.value === "" ? null : parseFloat(e.target.value) || 0 });
+                                            setSnowLocation("");
+                                        }}
+                                        className="w-full px-3 py-2 bg-gray-800 border border-gray-700 rounded-md focus:outline-none focus:ring-2 focus:ring-orange-500"
+                                    />
+                                </div>
+                            </div>
+                            <div className="mt-4">
+                                <label htmlFor="snow-location" className="block text-sm font-medium mb-2">Snow Loads from Location</label>
+                                <select
+                                    id="snow-location"
+                                    value={snowLocation}
+                                    onChange={(e) => {
+                                        const location = snowWindLoadsData.find(item => `${item.location}, ${item.province}` === e.target.value);
+                                        if (location) setBuildingParams({ ...buildingParams, Ss: location.ss, Sr: location.sr });
+                                        setSnowLocation(e.target.value);
+                                    }}
+                                    className="w-full px-3 py-2 bg-gray-800 border border-gray-700 rounded-md focus:outline-none focus:ring-2 focus:ring-orange-500"
+                                >
+                                    <option value="">Select a location to fill Ss and Sr</option>
+                                    {snowWindLoadsData
+                                        .filter(item => !selectedProvince || item.province === selectedProvince.name)
+                                        .map(item => (
+                                            <option key={`${item.location}, ${item.province}`} value={`${item.location}, ${item.province}`}>
+                                                {item.location}, {item.province} (Ss = {item.ss}, Sr = {item.sr})
+                                            </option>
+                                        ))}
+                                </select>
+                                {hasSnowLoads ? (
+                                    <p className="text-xs text-gray-400 mt-1">
+                                        Design snow load S = Is × (Ss × Cb + Sr) = {SNOW_IMPORTANCE_FACTORS[buildingParams.importance]} × ({buildingParams.Ss} × 0.8 + {buildingParams.Sr}) = {roofSnowLoad.toFixed(2)} kPa, taking Cw = Cs = Ca = 1.0.
+                                    </p>
+                                ) : (
+                                    <p className="text-sm text-yellow-400 mt-1">
+                                        No climatic record matches the seismic location. Select a snow location or enter Ss and Sr before calculating.
+                                    </p>
+                                )}
+                            </div>
+
+                            <h4 className="font-semibold mt-6 mb-2">Dead Load Assemblies</h4>
+                            <p className="text-sm text-gray-400 mb-4">
+                                Assemblies saved in the <Link to="/dead-load-calculator" className="text-orange-500 hover:text-orange-400">dead load calculator</Link> are listed first, followed by typical floor and roof assemblies built from the same material table.
+                            </p>
+                            <div className="space-y-2">
+                                {savedAssemblies.length === 0 && (
+                                    <p className="text-sm text-gray-500">No saved assemblies yet.</p>
+                                )}
+                                {assemblies.map(assembly => (
+                                    <div key={assembly.id} className="text-sm text-gray-300">
+                                        <span className="text-white">{assembly.name}</span>: {assembly.load.toFixed(2)} kPa
+                                        <span className="text-gray-500"> — {assembly.description}</span>
+                                    </div>
+                                ))}
+                            </div>
+                        </div>
+
+                        {/* Storey Table */}
+                        <div className="mt-8 bg-gray-800 rounded-lg p-6">
+                            <div className="flex justify-between items-center mb-4">
+                                <h3 className="text-lg font-semibold">Storeys</h3>
+                                <div className="flex gap-2">
+                                    <button
+                                        onClick={() => setBuildingParams({
+                                            ...buildingParams,
+                                            storeys: buildEqualStoreys(buildingParams.height, buildingParams.floors, buildingParams.floorArea, "concrete-slab", "steel-deck-roof")
+                                        })}
+                                        className="px-4 py-2 bg-gray-600 text-white rounded-md hover:bg-gray-500 transition-colors text-sm"
+                                    >
+                                        Equal Storeys from Height and Floors
+                                    </button>
+                                    <button
+                                        onClick={addStorey}
+                                        className="px-4 py-2 bg-orange-500 text-white rounded-md hover:bg-orange-600 transition-colors text-sm"
+                                    >
+                                        Add Level
+                                    </button>
+                                </div>
+                            </div>
+                            <p className="text-sm text-gray-400 mb-4">
+                                Wx = area × assembly + {buildingParams.partitionLoad} kPa partitions on floors, or {SEISMIC_SNOW_FRACTION * 100}% of the {roofSnowLoad.toFixed(2)} kPa design snow load on levels marked as roofs, plus any added weight. W = ΣWx = {getSeismicWeight().toFixed(0)} kN.
+                            </p>
+                            <div className="space-y-2">
+                                <div className="grid grid-cols-7 gap-4 text-sm text-gray-400">
+                                    <span>Level</span>
+                                    <span>Elevation, hx (m)</span>
+                                    <span>Floor Area (m²)</span>
+                                    <span>Assembly</span>
+                                    <span>Added Weight (kN)</span>
+                                    <span>Roof</span>
+                                    <span></span>
+                                </div>
+                                {buildingParams.storeys.map(storey => (
+                                    <div key={storey.id} className="grid grid-cols-7 gap-4 items-center">
+                                        <input
+                                            aria-label={`${storey.level} name`}
+                                            type="text"
+                                            value={storey.level}
+                                            onChange={(e) => updateStorey(storey.id, { level: e.target.value })}
+                                            className="w-full px-3 py-2 bg-gray-800 border border-gray-700 rounded-md focus:outline-none focus:ring-2 focus:ring-orange-500"
+                                        />
+                                        <input
+                                            aria-label={`${storey.level} elevation`}
+                                            type="number"
+                                            step="0.1"
+                                            value={storey.elevation}
+                                            onChange={(e) => updateStorey(storey.id, { elevation: parseFloat(e.target.value) || 0 })}
+                                            className="w-full px-3 py-2 bg-gray-800 border border-gray-700 rounded-md focus:outline-none focus:ring-2 focus:ring-orange-500"
+                                        />
+                                        <input
+                                            aria-label={`${storey.level} floor area`}
+                                            type="number"
+                                            step="10"
+                                            value={storey.area}
+                                            onChange={(e) => updateStorey(storey.id, { area: parseFloat(e.target.value) || 0 })}
+                                            className="w-full px-3 py-2 bg-gray-800 border border-gray-700 rounded-md focus:outline-none focus:ring-2 focus:ring-orange-500"
+                                        />
+                                        <select
+                                            aria-label={`${storey.level} assembly`}
+                                            value={storey.assemblyId}
+                                            onChange={(e) => updateStorey(storey.id, { assemblyId: e.target.value })}
+                                            className="w-full px-3 py-2 bg-gray-800 border border-gray-700 rounded-md focus:outline-none focus:ring-2 focus:ring-orange-500"
+                                        >
+                                            {assemblies.map(assembly => (
+                                                <option key={assembly.id} value={assembly.id}>{assembly.name} ({assembly.load.toFixed(2)} kPa)</option>
+                                            ))}
+                                        </select>
+                                        <input
+                                            aria-label={`${storey.level} added weight`}
+                                            type="number"
+                                            step="10"
+                                            value={storey.additional}
+                                            onChange={(e) => updateStorey(storey.id, { additional: parseFloat(e.target.value) || 0 })}
+                                            className="w-full px-3 py-2 bg-gray-800 border border-gray-700 rounded-md focus:outline-none focus:ring-2 focus:ring-orange-500"
+                                        />
+                                        <input
+                                            aria-label={`${storey.level} is a roof`}
+                                            type="checkbox"
+                                            checked={storey.isRoof}
+                                            onChange={(e) => updateStorey(storey.id, { isRoof: e.target.checked })}
+                                            className="h-4 w-4 text-orange-500 focus:ring-orange-500 border-gray-300 rounded"
+                                        />
+                                        <button
+                                            onClick={() => removeStorey(storey.id)}
+                                            className="px-4 py-2 bg-gray-600 text-white rounded-md hover:bg-gray-500 transition-colors"
+                                        >
+                                            Remove
+                                        </button>
+                                    </div>
+                                ))}
+                            </div>
+                            {buildingParams.storeys.some(storey => storey.elevation <= 0) && (
+                                <p className="text-sm text-yellow-400 mt-4">
+                                    Levels at or below grade are left out of W and the force distribution.
+                                </p>
+                            )}
+                        </div>
+
                         {/* Selected System Details */}
                         {(() => {
                             const selectedSystem = structuralSystems.find(s => s.name === buildingParams.structuralSystem);
@@ -1173,6 +1572,7 @@ export default function SeismicLoadCalculator() {
                                             <p><strong>Rd:</strong> {selectedSystem.Rd}</p>
                                             <p><strong>Ro:</strong> {selectedSystem.Ro}</p>
                                             <p><strong>Height Limit:</strong> {selectedSystem.heightLimit} m</p>
+                                            <p><strong>Period:</strong> {PERIOD_FORMULAS[selectedSystem.periodFormula].name}, modeled T ≤ {selectedSystem.periodUpperLimit} × Ta</p>
                                         </div>
                                     </div>
                                     <p className="text-sm text-gray-400 mt-4">{selectedSystem.description}</p>
@@ -1189,7 +1589,8 @@ export default function SeismicLoadCalculator() {
                             </button>
                             <button
                                 onClick={calculateSeismicLoads}
-                                className="px-6 py-2 bg-orange-500 text-white rounded-md hover:bg-orange-600 transition-colors"
+                                disabled={!hasSnowLoads || levelsAboveGrade.length === 0}
+                                className="px-6 py-2 bg-orange-500 text-white rounded-md hover:bg-orange-600 disabled:bg-gray-600 disabled:cursor-not-allowed transition-colors"
                             >
                                 Calculate Seismic Loads
                             </button>
@@ -1210,6 +1611,113 @@ export default function SeismicLoadCalculator() {
                             </button>
                         </div>
 
+                        {/* Design Spectrum */}
+                        {currentSeismicData && fundamentalPeriod !== null && (
+                            <div className="bg-gray-800 rounded-lg p-6 mb-6">
+                                <h3 className="text-lg font-semibold text-white mb-2">Design Spectrum (NBC 4.1.8.4)</h3>
+                                <p className="text-gray-400 text-sm mb-4">
+                                    S(T) from the Site Class {currentSeismicData.siteClass} designation values, {currentSeismicData.returnPeriod}-year return period. Flat at max(Sa(0.2), Sa(0.5)) below 0.2 s and linear between the published periods.
+                                </p>
+                                <DesignSpectrumChart data={currentSeismicData} period={fundamentalPeriod} />
+                                {getDesignSpectrumWarnings(currentSeismicData).length > 0 && (
+                                    <div className="mt-4 text-yellow-400 text-sm">
+                                        <p className="font-semibold">The long-period spectrum is estimated; confirm these values against CanSHM6 before relying on long-period results:</p>
+                                        <ul className="list-disc list-inside">
+                                            {getDesignSpectrumWarnings(currentSeismicData).map(warning => <li key={warning}>{warning}</li>)}
+                                        </ul>
+                                    </div>
+                                )}
+                            </div>
+                        )}
+
+                        {/* Seismic Weight Breakdown */}
+                        {weightBreakdown.length > 0 && (
+                            <div className="bg-gray-800 rounded-lg p-6 mb-6 overflow-x-auto">
+                                <h3 className="text-lg font-semibold text-white mb-2">Seismic Weight Breakdown</h3>
+                                <p className="text-gray-400 text-sm mb-4">
+                                    Partitions at {buildingParams.partitionLoad} kPa on floors; {SEISMIC_SNOW_FRACTION * 100}% of S = {roofSnowLoad.toFixed(2)} kPa on the roof.
+                                </p>
+                                <table className="w-full text-sm text-left">
+                                    <thead className="text-gray-400 border-b border-gray-700">
+                                        <tr>
+                                            <th className="py-2 pr-4">Level</th>
+                                            <th className="py-2 pr-4">Area (m²)</th>
+                                            <th className="py-2 pr-4">Assembly</th>
+                                            <th className="py-2 pr-4">Dead (kN)</th>
+                                            <th className="py-2 pr-4">Partitions (kN)</th>
+                                            <th className="py-2 pr-4">Snow (kN)</th>
+                                            <th className="py-2 pr-4">Added (kN)</th>
+                                            <th className="py-2">Wx (kN)</th>
+                                        </tr>
+                                    </thead>
+                                    <tbody>
+                                        {[...weightBreakdown].sort((a, b) => b.elevation - a.elevation).map(storey => (
+                                            <tr key={storey.id} className="border-b border-gray-700 text-gray-300">
+                                                <td className="py-2 pr-4 text-white">{storey.level}{storey.isRoof ? " (roof)" : ""}</td>
+                                                <td className="py-2 pr-4">{storey.area.toFixed(0)}</td>
+                                                <td className="py-2 pr-4">{storey.assembly} ({storey.deadLoad.toFixed(2)} kPa)</td>
+                                                <td className="py-2 pr-4">{storey.dead.toFixed(0)}</td>
+                                                <td className="py-2 pr-4">{storey.partitions.toFixed(0)}</td>
+                                                <td className="py-2 pr-4">{storey.snow.toFixed(0)}</td>
+                                                <td className="py-2 pr-4">{storey.additional.toFixed(0)}</td>
+                                                <td className="py-2">{storey.weight.toFixed(0)}</td>
+                                            </tr>
+                                        ))}
+                                        <tr className="font-semibold text-orange-500">
+                                            <td className="py-2 pr-4">Total, W</td>
+                                            <td className="py-2 pr-4">{weightBreakdown.reduce((sum, storey) => sum + storey.area, 0).toFixed(0)}</td>
+                                            <td className="py-2 pr-4"></td>
+                                            <td className="py-2 pr-4">{weightBreakdown.reduce((sum, storey) => sum + storey.dead, 0).toFixed(0)}</td>
+                                            <td className="py-2 pr-4">{weightBreakdown.reduce((sum, storey) => sum + storey.partitions, 0).toFixed(0)}</td>
+                                            <td className="py-2 pr-4">{weightBreakdown.reduce((sum, storey) => sum + storey.snow, 0).toFixed(0)}</td>
+                                            <td className="py-2 pr-4">{weightBreakdown.reduce((sum, storey) => sum + storey.additional, 0).toFixed(0)}</td>
+                                            <td className="py-2">{weightBreakdown.reduce((sum, storey) => sum + storey.weight, 0).toFixed(0)}</td>
+                                        </tr>
+                                    </tbody>
+                                </table>
+                            </div>
+                        )}
+
+                        {/* Storey Forces */}
+                        {forceDistribution && forceDistribution.forces.length > 0 && (
+                            <div className="bg-gray-800 rounded-lg p-6 mb-6 overflow-x-auto">
+                                <h3 className="text-lg font-semibold text-white mb-2">Vertical Distribution of Seismic Forces</h3>
+                                <p className="text-gray-500 text-sm font-mono bg-gray-900 p-2 rounded mb-4">{forceDistribution.calculation}</p>
+                                <SeismicStoreyForceChart forces={forceDistribution.forces} />
+                                <table className="w-full text-sm text-left mt-4">
+                                    <thead className="text-gray-400 border-b border-gray-700">
+                                        <tr>
+                                            <th className="py-2 pr-4">Level</th>
+                                            <th className="py-2 pr-4">hx (m)</th>
+                                            <th className="py-2 pr-4">Wx (kN)</th>
+                                            <th className="py-2 pr-4">Fx (kN)</th>
+                                            <th className="py-2 pr-4">Vx (kN)</th>
+                                            <th className="py-2 pr-4">Mx (kN·m)</th>
+                                            <th className="py-2 pr-4">Jx</th>
+                                            <th className="py-2">Jx·Mx (kN·m)</th>
+                                        </tr>
+                                    </thead>
+                                    <tbody>
+                                        {[...forceDistribution.forces].reverse().map(storey => (
+                                            <tr key={storey.id} className="border-b border-gray-700 text-gray-300">
+                                                <td className="py-2 pr-4 text-white">{storey.level}</td>
+                                                <td className="py-2 pr-4">{storey.elevation.toFixed(2)}</td>
+                                                <td className="py-2 pr-4">{storey.weight.toFixed(0)}</td>
+                                                <td className="py-2 pr-4">{storey.Fx.toFixed(1)}</td>
+                                                <td className="py-2 pr-4">{storey.shear.toFixed(1)}</td>
+                                                <td className="py-2 pr-4">{storey.overturning.toFixed(0)}</td>
+                                                <td className="py-2 pr-4">{storey.Jx.toFixed(3)}</td>
+                                                <td className="py-2">{storey.reducedOverturning.toFixed(0)}</td>
+                                            </tr>
+                                        ))}
+                                    </tbody>
+                                </table>
+                                <p className="text-gray-400 text-sm mt-4">
+                                    Vx and Mx act at the base of the storey below each level. Ft = {forceDistribution.Ft.toFixed(1)} kN is included in the top level force.
+                                </p>
+                            </div>
+                        )}
+
                         {/* Results Display */}
                         <div className="space-y-6">
                             {seismicResults.map((result, index) => (
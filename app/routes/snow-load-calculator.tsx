@@ -4,6 +4,42 @@ import {
     MapPinIcon
 } from "@heroicons/react/24/outline";
 import snowWindLoadsData from "~/data/snow_wind_loads.json";
+import { SnowLoadProfileChart, getSnowLoadProfileSvg } from "~/components/SnowLoadProfileChart";
+import {
+    PONDING_STABILITY_LIMIT,
+    calculateRainPonding,
+    type RainPondingParameters,
+    type RainPondingResult,
+    type RoofDrain
+} from "~/utils/rain-loads";
+import {
+    MAX_DRIFT_GAP,
+    SLIDING_SNOW_WIDTH,
+    buildAdjacencyCases,
+    buildArchRoofCases,
+    buildAttachmentCases,
+    buildLowerRoofDriftCases,
+    buildUnbalancedRoofCases,
+    buildValleyCases,
+    calculateCharacteristicLength as calculateRoofCharacteristicLength,
+    calculateSlopeFactor as calculateRoofSlopeFactor,
+    calculateValleyAccumulations,
+    canSnowSlide,
+    type ArchRoofParameters,
+    type LowerRoofDriftParameters,
+    type MultiSpanForm,
+    type MultiSpanRoofParameters,
+    type RoofAdjacencies,
+    type RoofAttachments,
+    type RoofCanopy,
+    type RoofProjection,
+    type RoofType,
+    type SlidingRoofSource,
+    type SnowLoadBasis,
+    type SnowLoadCase,
+    type SolarArray,
+    type ValleyAccumulation
+} from "~/utils/snow-loads";
 
 // Extend Window interface to include MathJax
 declare global {
@@ -51,6 +87,9 @@ interface RoofParameters {
     length: number; // m (larger plan dimension)
     width: number; // m (smaller plan dimension)
     slope: number; // degrees
+    roofType: RoofType;
+    arch: ArchRoofParameters; // used when roofType is "arch"
+    multiSpan: MultiSpanRoofParameters; // used when roofType is "multispan"
     height: number; // m above ground
     isSlippery: boolean; // for Cs calculation
     terrainType: "open" | "rural" | "exposed_north"; // for Cw calculation
@@ -70,17 +109,23 @@ interface CalculationFactors {
     gamma: number; // Specific weight of snow (kN/m³)
     lc: number; // Characteristic length (m)
     roofShapeFactor: number; // Roof type shape factor
+    valleys: ValleyAccumulation[]; // Valley accumulation factors for multi-span roofs
 }
 
-interface SnowLoadCase {
-    id: string;
-    name: string;
-    description: string;
-    loadValue: number; // kN/m²
-    designCase: "uls" | "sls";
-    distribution: "uniform" | "triangular" | "trapezoidal";
-    driftLoad?: number;
-}
+const defaultLowerRoofDrift: LowerRoofDriftParameters = {
+    enabled: false,
+    upperLength: 20,
+    upperWidth: 10,
+    heightDifference: 3,
+    gap: 0
+};
+
+const defaultRainPonding: RainPondingParameters = {
+    enabled: false,
+    drains: [],
+    slopeToDrains: 2,
+    deflectionStiffness: 0.05
+};
 
 
 
@@ -94,13 +139,17 @@ export default function SnowLoadCalculator() {
     const [customLocation, setCustomLocation] = useState({
         name: "",
         groundSnowLoad: "",
-        rainLoad: ""
+        rainLoad: "",
+        oneDayRain: ""
     });
 
     const [roofParams, setRoofParams] = useState<RoofParameters>({
         length: 20,
         width: 15,
         slope: 0,
+        roofType: "monoslope",
+        arch: { span: 15, rise: 3, hasEndWalls: false },
+        multiSpan: { form: "gable", spans: [{ width: 10, ridgeHeight: 1.5 }, { width: 10, ridgeHeight: 1.5 }] },
         height: 6,
         isSlippery: false,
         terrainType: "open"
@@ -110,6 +159,15 @@ export default function SnowLoadCalculator() {
         category: "normal"
     });
 
+    const [lowerRoofDrift, setLowerRoofDrift] = useState<LowerRoofDriftParameters>(defaultLowerRoofDrift);
+
+    const [adjacencies, setAdjacencies] = useState<RoofAdjacencies>({ projections: [], slidingRoofs: [] });
+
+    const [attachments, setAttachments] = useState<RoofAttachments>({ solarArrays: [], canopies: [] });
+
+    const [rainPonding, setRainPonding] = useState<RainPondingParameters>(defaultRainPonding);
+    const [rainPondingResult, setRainPondingResult] = useState<RainPondingResult | null>(null);
+
     const [calculationFactors, setCalculationFactors] = useState<CalculationFactors | null>(null);
 
     const [snowLoadCases, setSnowLoadCases] = useState<SnowLoadCase[]>([]);
@@ -240,9 +298,7 @@ export default function SnowLoadCalculator() {
 
     const calculateCharacteristicLength = (): number => {
         // lc = 2w - w²/l where w = smaller dimension, l = larger dimension
-        const w = Math.min(roofParams.width, roofParams.length);
-        const l = Math.max(roofParams.width, roofParams.length);
-        return 2 * w - (w * w) / l;
+        return calculateRoofCharacteristicLength(roofParams.length, roofParams.width);
     };
 
     const calculateBasicRoofSnowLoadFactor = (Ss: number, lc: number, Cw: number): number => {
@@ -280,19 +336,7 @@ export default function SnowLoadCalculator() {
     };
 
     const calculateSlopeFactor = (): number => {
-        const alpha = roofParams.slope;
-
-        if (roofParams.isSlippery) {
-            // Slippery roof provisions (Sentence 6)
-            if (alpha <= 15) return 1.0;
-            if (alpha <= 60) return (60 - alpha) / 45;
-            return 0;
-        } else {
-            // Regular roof provisions (Sentence 5)
-            if (alpha <= 30) return 1.0;
-            if (alpha <= 70) return (70 - alpha) / 40;
-            return 0;
-        }
+        return calculateRoofSlopeFactor(roofParams.slope, roofParams.isSlippery);
     };
 
     const calculateAccumulationFactor = (): number => {
@@ -316,8 +360,11 @@ export default function SnowLoadCalculator() {
         const Ca = calculateAccumulationFactor();
         const gamma = calculateSpecificWeightOfSnow(Ss);
 
+        const basis: SnowLoadBasis = { Ss, Sr, Is_uls, Is_sls, Cb, Cw, Cs, gamma };
+        const valleys = roofParams.roofType === "multispan" ? calculateValleyAccumulations(basis, roofParams.multiSpan) : [];
+
         // Store calculation factors for display
-        const factors: CalculationFactors = { Is_uls, Is_sls, Cb, Cw, Cs, Ca, gamma, lc, roofShapeFactor: Ca };
+        const factors: CalculationFactors = { Is_uls, Is_sls, Cb, Cw, Cs, Ca, gamma, lc, roofShapeFactor: Ca, valleys };
         setCalculationFactors(factors);
 
 
@@ -325,7 +372,8 @@ export default function SnowLoadCalculator() {
         const snowLoad_uls = Is_uls * (Ss * (Cb * Cw * Cs * Ca) + Sr);
         const snowLoad_sls = Is_sls * (Ss * (Cb * Cw * Cs * Ca) + Sr);
 
-        const cases: SnowLoadCase[] = [{
+        // Curved roofs take their balanced load from the arch profile, with Cs following the surface slope
+        const cases: SnowLoadCase[] = roofParams.roofType === "arch" ? [] : [{
             id: "nbc-balanced-uls",
             name: "NBC 2020 Snow Load - (ULS)",
             description: `S = I_s \\times [S_s \\times (C_b \\times C_w \\times C_s \\times C_a) + S_r] = ${Is_uls.toFixed(2)} \\times [${Ss} \\times (${Cb.toFixed(3)} \\times ${Cw} \\times ${Cs.toFixed(2)} \\times ${Ca}) + ${Sr}]`,
@@ -343,8 +391,42 @@ export default function SnowLoadCalculator() {
             distribution: "uniform"
         }];
 
+        // Multi-level roof drifts, measured across the lower roof width from the step
+        cases.push(...buildLowerRoofDriftCases(basis, lowerRoofDrift, lc, roofParams.width));
+
+        // Unbalanced gable/hip cases, measured across the width with the ridge at mid-width
+        cases.push(...buildUnbalancedRoofCases(basis, roofParams.roofType, roofParams.slope, roofParams.width));
+
+        // Curved roof profiles, measured across the span from the windward springing line
+        if (roofParams.roofType === "arch") {
+            cases.push(...buildArchRoofCases(basis, roofParams.arch, roofParams.isSlippery));
+        }
+
+        // Valley accumulations, measured across the spans from the first eave
+        if (roofParams.roofType === "multispan") {
+            cases.push(...buildValleyCases(basis, roofParams.multiSpan));
+        }
+
+        // Projection drifts and sliding snow surcharges from the obstructions step
+        cases.push(...buildAdjacencyCases(basis, adjacencies, lc, roofParams.width));
+
+        // Solar arrays and canopies, each measured from its own low edge or wall
+        cases.push(...buildAttachmentCases(basis, attachments, lc));
 
         setSnowLoadCases(cases);
+
+        // Rain and ponding are checked separately; NBC 4.1.6.4 does not combine them with snow
+        setRainPondingResult(rainPonding.enabled
+            ? calculateRainPonding(
+                {
+                    oneDayRain: selectedLocation ? selectedLocation.one_day_rain : parseFloat(customLocation.oneDayRain || "0"),
+                    Sr
+                },
+                rainPonding,
+                roofParams.length,
+                roofParams.width
+            )
+            : null);
         setShowResults(true);
     };
 
@@ -352,6 +434,157 @@ export default function SnowLoadCalculator() {
 
 
 
+    const setSpanCount = (count: number) => {
+        const spanCount = Math.min(12, Math.max(2, count));
+        const spans = roofParams.multiSpan.spans.slice(0, spanCount);
+        while (spans.length < spanCount) {
+            spans.push({ ...spans[spans.length - 1] });
+        }
+        setRoofParams({ ...roofParams, multiSpan: { ...roofParams.multiSpan, spans } });
+    };
+
+    const updateSpan = (index: number, changes: Partial<MultiSpanRoofParameters["spans"][number]>) => {
+        setRoofParams({
+            ...roofParams,
+            multiSpan: {
+                ...roofParams.multiSpan,
+                spans: roofParams.multiSpan.spans.map((span, i) => i === index ? { ...span, ...changes } : span)
+            }
+        });
+    };
+
+    // The arch spans across the roof width, so it cannot be wider than the roof it sits on
+    const isArchSpanValid = roofParams.roofType !== "arch" || (roofParams.arch.span > 0 && roofParams.arch.span <= roofParams.width);
+
+    const createAdjacencyId = (): string => Date.now().toString() + Math.random().toString(36).substr(2, 9);
+
+    const addProjection = () => {
+        setAdjacencies(prev => ({
+            ...prev,
+            projections: [...prev.projections, {
+                id: createAdjacencyId(),
+                name: `Projection ${prev.projections.length + 1}`,
+                height: 1.5,
+                length: 3,
+                width: 2
+            }]
+        }));
+    };
+
+    const updateProjection = (id: string, changes: Partial<RoofProjection>) => {
+        setAdjacencies(prev => ({
+            ...prev,
+            projections: prev.projections.map(projection => projection.id === id ? { ...projection, ...changes } : projection)
+        }));
+    };
+
+    const removeProjection = (id: string) => {
+        setAdjacencies(prev => ({ ...prev, projections: prev.projections.filter(projection => projection.id !== id) }));
+    };
+
+    const addSlidingRoof = () => {
+        setAdjacencies(prev => ({
+            ...prev,
+            slidingRoofs: [...prev.slidingRoofs, {
+                id: createAdjacencyId(),
+                name: `Upper Roof ${prev.slidingRoofs.length + 1}`,
+                slope: 25,
+                run: 6,
+                eaveHeight: 3,
+                isSlippery: false
+            }]
+        }));
+    };
+
+    const updateSlidingRoof = (id: string, changes: Partial<SlidingRoofSource>) => {
+        setAdjacencies(prev => ({
+            ...prev,
+            slidingRoofs: prev.slidingRoofs.map(source => source.id === id ? { ...source, ...changes } : source)
+        }));
+    };
+
+    const removeSlidingRoof = (id: string) => {
+        setAdjacencies(prev => ({ ...prev, slidingRoofs: prev.slidingRoofs.filter(source => source.id !== id) }));
+    };
+
+    const addSolarArray = () => {
+        setAttachments(prev => ({
+            ...prev,
+            solarArrays: [...prev.solarArrays, {
+                id: createAdjacencyId(),
+                name: `Array ${prev.solarArrays.length + 1}`,
+                tilt: 30,
+                panelLength: 2,
+                rowSpacing: 2.5,
+                clearance: 0.6
+            }]
+        }));
+    };
+
+    const updateSolarArray = (id: string, changes: Partial<SolarArray>) => {
+        setAttachments(prev => ({
+            ...prev,
+            solarArrays: prev.solarArrays.map(array => array.id === id ? { ...array, ...changes } : array)
+        }));
+    };
+
+    const removeSolarArray = (id: string) => {
+        setAttachments(prev => ({ ...prev, solarArrays: prev.solarArrays.filter(array => array.id !== id) }));
+    };
+
+    const addCanopy = () => {
+        setAttachments(prev => ({
+            ...prev,
+            canopies: [...prev.canopies, {
+                id: createAdjacencyId(),
+                name: `Canopy ${prev.canopies.length + 1}`,
+                projection: 3,
+                slope: 0,
+                isSlippery: false,
+                wallHeight: 4,
+                upperRoofLength: roofParams.length,
+                upperRoofWidth: roofParams.width,
+                upperRoofSlope: roofParams.slope,
+                upperRoofRun: roofParams.width / 2,
+                upperRoofIsSlippery: roofParams.isSlippery
+            }]
+        }));
+    };
+
+    const updateCanopy = (id: string, changes: Partial<RoofCanopy>) => {
+        setAttachments(prev => ({
+            ...prev,
+            canopies: prev.canopies.map(canopy => canopy.id === id ? { ...canopy, ...changes } : canopy)
+        }));
+    };
+
+    const removeCanopy = (id: string) => {
+        setAttachments(prev => ({ ...prev, canopies: prev.canopies.filter(canopy => canopy.id !== id) }));
+    };
+
+    const addDrain = () => {
+        setRainPonding(prev => ({
+            ...prev,
+            drains: [...prev.drains, {
+                id: createAdjacencyId(),
+                name: `Drain ${prev.drains.length + 1}`,
+                x: roofParams.length / 2,
+                y: roofParams.width / 2
+            }]
+        }));
+    };
+
+    const updateDrain = (id: string, changes: Partial<RoofDrain>) => {
+        setRainPonding(prev => ({
+            ...prev,
+            drains: prev.drains.map(drain => drain.id === id ? { ...drain, ...changes } : drain)
+        }));
+    };
+
+    const removeDrain = (id: string) => {
+        setRainPonding(prev => ({ ...prev, drains: prev.drains.filter(drain => drain.id !== id) }));
+    };
+
     const getMaxSnowLoad = (): number => {
         return Math.max(...snowLoadCases.map(sc => sc.loadValue));
     };
@@ -368,11 +601,14 @@ export default function SnowLoadCalculator() {
         setStep(1);
         setSelectedProvince("");
         setSelectedLocation(null);
-        setCustomLocation({ name: "", groundSnowLoad: "", rainLoad: "" });
+        setCustomLocation({ name: "", groundSnowLoad: "", rainLoad: "", oneDayRain: "" });
         setRoofParams({
             length: 20,
             width: 15,
             slope: 0,
+            roofType: "monoslope",
+            arch: { span: 15, rise: 3, hasEndWalls: false },
+            multiSpan: { form: "gable", spans: [{ width: 10, ridgeHeight: 1.5 }, { width: 10, ridgeHeight: 1.5 }] },
             height: 6,
             isSlippery: false,
             terrainType: "open"
@@ -380,6 +616,11 @@ export default function SnowLoadCalculator() {
         setImportanceFactors({
             category: "normal"
         });
+        setLowerRoofDrift(defaultLowerRoofDrift);
+        setAdjacencies({ projections: [], slidingRoofs: [] });
+        setAttachments({ solarArrays: [], canopies: [] });
+        setRainPonding(defaultRainPonding);
+        setRainPondingResult(null);
         setCalculationFactors(null);
         setSnowLoadCases([]);
         setShowResults(false);
@@ -513,6 +754,10 @@ export default function SnowLoadCalculator() {
                         border-top: 1px solid #ddd;
                         padding-top: 20px;
                     }
+                    .profile-figure {
+                        margin-bottom: 20px;
+                        page-break-inside: avoid;
+                    }
                     .page-break { 
                         page-break-before: always; 
                     }
@@ -551,10 +796,22 @@ export default function SnowLoadCalculator() {
                     <table>
                         <tr><td><strong>Dimensions</strong></td><td class="value">${roofParams.length} × ${roofParams.width} m</td></tr>
                         <tr><td><strong>Roof Area</strong></td><td class="value">${(roofParams.length * roofParams.width).toFixed(1)} m²</td></tr>
+                        <tr><td><strong>Roof Type</strong></td><td class="value">${roofParams.roofType.charAt(0).toUpperCase() + roofParams.roofType.slice(1)}</td></tr>
                         <tr><td><strong>Slope</strong></td><td class="value">${roofParams.slope}°</td></tr>
+                        ${roofParams.roofType === 'multispan' ? `<tr><td><strong>Spans (width / ridge height)</strong></td><td class="value">${roofParams.multiSpan.form === 'sawtooth' ? 'Sawtooth' : 'Gable'}: ${roofParams.multiSpan.spans.map(span => `${span.width} m / ${span.ridgeHeight} m`).join(', ')}</td></tr>` : ''}
+                        ${roofParams.roofType === 'arch' ? `<tr><td><strong>Arch Span × Rise</strong></td><td class="value">${roofParams.arch.span} × ${roofParams.arch.rise} m (h/b = ${(roofParams.arch.rise / roofParams.arch.span).toFixed(3)}, ${roofParams.arch.hasEndWalls ? 'with' : 'without'} end walls)</td></tr>` : ''}
                         <tr><td><strong>Height above Ground</strong></td><td class="value">${roofParams.height} m</td></tr>
                         <tr><td><strong>Surface Type</strong></td><td class="value">${roofParams.isSlippery ? 'Slippery' : 'Regular'}</td></tr>
                         <tr><td><strong>Terrain Type</strong></td><td class="value">${roofParams.terrainType.charAt(0).toUpperCase() + roofParams.terrainType.slice(1).replace('_', ' ')}</td></tr>
+                        ${adjacencies.projections.map(projection => `<tr><td><strong>Projection: ${projection.name}</strong></td><td class="value">h = ${projection.height} m, ${projection.length} × ${projection.width} m</td></tr>`).join('')}
+                        ${attachments.solarArrays.map(array => `<tr><td><strong>Solar Array: ${array.name}</strong></td><td class="value">${array.tilt}° tilt, ${array.panelLength} m panels, ${array.rowSpacing} m row spacing, ${array.clearance} m clearance</td></tr>`).join('')}
+                        ${attachments.canopies.map(canopy => `<tr><td><strong>Canopy: ${canopy.name}</strong></td><td class="value">${canopy.projection} m projection at ${canopy.slope}°${canopy.isSlippery ? ' (slippery)' : ''}, wall ${canopy.wallHeight} m, upper roof ${canopy.upperRoofLength} × ${canopy.upperRoofWidth} m, ${canopy.upperRoofSlope}° over ${canopy.upperRoofRun} m${canopy.upperRoofIsSlippery ? ' (slippery)' : ''}</td></tr>`).join('')}
+                        ${adjacencies.slidingRoofs.map(source => `<tr><td><strong>Upper Roof: ${source.name}</strong></td><td class="value">${source.slope}°, ${source.run} m ridge to eave, eave ${source.eaveHeight} m above${source.isSlippery ? ', slippery' : ''}</td></tr>`).join('')}
+                        ${lowerRoofDrift.enabled ? `
+                            <tr><td><strong>Upper Roof Dimensions</strong></td><td class="value">${lowerRoofDrift.upperLength} × ${lowerRoofDrift.upperWidth} m</td></tr>
+                            <tr><td><strong>Height Difference (h)</strong></td><td class="value">${lowerRoofDrift.heightDifference} m</td></tr>
+                            <tr><td><strong>Gap Distance (a)</strong></td><td class="value">${lowerRoofDrift.gap} m</td></tr>
+                        ` : ''}
                     </table>
                 </div>
 
@@ -670,6 +927,12 @@ export default function SnowLoadCalculator() {
                         <p><strong>For basic snow load calculator:</strong> The accumulation factor is set to 1.0</p>
                         <p><strong>This represents the basic roof accumulation factor per NBC 2020:</strong></p>
                         $$C_a = ${calculationFactors.Ca.toFixed(2)}$$
+                        ${calculationFactors.valleys.length > 0 ? `
+                            <p><strong>Valley accumulation (${roofParams.multiSpan.form === 'sawtooth' ? 'sawtooth' : 'multi-span gable'} roof):</strong> Ca = 0.5 at the ridges, rising to the valley value below</p>
+                            ${calculationFactors.valleys.map((valley, index) => `
+                                $$C_{a,${index + 1}} = \\min\\left(2.0, \\frac{\\gamma h}{C_b S_s}\\right) = \\min\\left(2.0, \\frac{${calculationFactors.gamma.toFixed(2)} \\times ${valley.depth}}{${calculationFactors.Cb.toFixed(3)} \\times ${ss}}\\right) = ${valley.Ca.toFixed(2)} \\text{ at } x = ${valley.x.toFixed(1)} \\text{ m}$$
+                            `).join('')}
+                        ` : ''}
                     </div>
 
                     <div class="calc-step">
@@ -715,18 +978,52 @@ export default function SnowLoadCalculator() {
                 <div class="section">
                     <h3>4. Load Cases Summary</h3>
                     <table>
-                        <tr><th>Load Case</th><th>Description</th><th>Load Value (kPa)</th><th>Distribution</th></tr>
+                        <tr><th>Load Case</th><th>Description</th><th>Load Value (kPa)</th><th>Distribution</th><th>Surcharge (kPa)</th></tr>
                         ${snowLoadCases.map(sc => `
                             <tr>
                                 <td><strong>${sc.name}</strong></td>
                                 <td>${sc.description}</td>
                                 <td class="value">${sc.loadValue.toFixed(2)}</td>
                                 <td>${sc.distribution.charAt(0).toUpperCase() + sc.distribution.slice(1)}</td>
+                                <td>${sc.driftLoad ? sc.driftLoad.toFixed(2) : '-'}</td>
                             </tr>
                         `).join('')}
                     </table>
                 </div>
+
+                <div class="section">
+                    <h4>Load Profiles</h4>
+                    ${snowLoadCases.map(sc => `
+                        <div class="profile-figure">
+                            <p><strong>${sc.name}</strong> - peak ${sc.loadValue.toFixed(2)} kPa</p>
+                            ${getSnowLoadProfileSvg(sc, roofParams.width, sc.designCase === "uls" ? "#b4641e" : "#4a90e2")}
+                        </div>
+                    `).join('')}
+                </div>
                 
+                ${rainPondingResult ? `
+                <div class="section">
+                    <h4>Rain and Ponding (NBC 4.1.6.4)</h4>
+                    <table>
+                        <tr><td><strong>1-in-50 One-day Rain</strong></td><td class="value">${rainPondingResult.oneDayRain.rainDepth.toFixed(1)} mm</td></tr>
+                        <tr><td><strong>Drains (x, y)</strong></td><td class="value">${rainPonding.drains.length > 0 ? rainPonding.drains.map(drain => `${drain.name} (${drain.x} m, ${drain.y} m)`).join(', ') : 'None'}</td></tr>
+                        <tr><td><strong>Slope to Drains</strong></td><td class="value">${rainPonding.slopeToDrains}%</td></tr>
+                        <tr><td><strong>Drainage Path (L)</strong></td><td class="value">${rainPondingResult.drainagePath.toFixed(1)} m</td></tr>
+                        <tr><td><strong>Rise Above Drain (sL)</strong></td><td class="value">${rainPondingResult.roofRise.toFixed(0)} mm</td></tr>
+                        <tr><td><strong>Deflection Stiffness (k)</strong></td><td class="value">${rainPonding.deflectionStiffness} kPa/mm</td></tr>
+                        <tr><td><strong>Ponding Ratio (C)</strong></td><td class="value">${rainPondingResult.stabilityRatio.toFixed(3)} - ${!rainPondingResult.isStable ? 'Unstable' : rainPondingResult.isSensitive ? 'Sensitive' : 'Stable'}</td></tr>
+                    </table>
+                    <div class="formula-box">
+                        $$C = \\frac{\\gamma_w}{k} = \\frac{0.00981}{${rainPonding.deflectionStiffness}} = ${rainPondingResult.stabilityRatio.toFixed(3)}$$
+                        ${[rainPondingResult.oneDayRain, rainPondingResult.rainOnSnow].map(accumulation => `
+                            <p><strong>${accumulation.name}:</strong> d = ${accumulation.rainDepth.toFixed(1)} mm</p>
+                            $$${accumulation.description}$$
+                        `).join('')}
+                    </div>
+                    <p><strong>Governing rain load:</strong> ${rainPondingResult.isStable ? `${rainPondingResult.governing.load.toFixed(2)} kPa (${rainPondingResult.governing.name})` : 'Ponding instability'}</p>
+                </div>
+                ` : ''}
+
                 <div class="section">
                     <h3>5. Design Summary</h3>
                     <table>
@@ -748,6 +1045,7 @@ export default function SnowLoadCalculator() {
                         <tr><td><strong>Accumulation Factor (Ca)</strong></td><td class="value">${calculationFactors.Ca.toFixed(2)}</td></tr>
                         <tr><td><strong>Specific Weight of Snow (γ)</strong></td><td class="value">${calculationFactors.gamma.toFixed(2)} kN/m³</td></tr>
                         <tr><td><strong>Characteristic Length (lc)</strong></td><td class="value">${calculationFactors.lc.toFixed(2)} m</td></tr>
+                        ${calculationFactors.valleys.map((valley, index) => `<tr><td><strong>Valley ${index + 1} Accumulation Factor (Ca)</strong></td><td class="value">${valley.Ca.toFixed(2)} (x = ${valley.x.toFixed(1)} m, h = ${valley.depth} m)</td></tr>`).join('')}
                     </table>
                 </div>
                 
@@ -799,8 +1097,8 @@ export default function SnowLoadCalculator() {
                 {/* Progress Steps */}
                 <div className="mb-8">
                     <div className="flex justify-center space-x-4">
-                        {[1, 2, 3].map((stepNum) => (
-                            <div key={stepNum} className={`flex items-center ${stepNum < 3 ? 'mr-4' : ''}`}>
+                        {[1, 2, 3, 4].map((stepNum) => (
+                            <div key={stepNum} className={`flex items-center ${stepNum < 4 ? 'mr-4' : ''}`}>
                                 <div className={`w-8 h-8 rounded-full flex items-center justify-center font-semibold ${step >= stepNum ? 'bg-orange-500 text-white' : 'bg-gray-700 text-gray-400'
                                     }`}>
                                     {stepNum}
@@ -808,9 +1106,10 @@ export default function SnowLoadCalculator() {
                                 <span className={`ml-2 ${step >= stepNum ? 'text-orange-500' : 'text-gray-400'}`}>
                                     {stepNum === 1 && "Location"}
                                     {stepNum === 2 && "Parameters"}
-                                    {stepNum === 3 && "Results"}
+                                    {stepNum === 3 && "Obstructions"}
+                                    {stepNum === 4 && "Results"}
                                 </span>
-                                {stepNum < 3 && <div className="w-8 h-px bg-gray-700 ml-4"></div>}
+                                {stepNum < 4 && <div className="w-8 h-px bg-gray-700 ml-4"></div>}
                             </div>
                         ))}
                     </div>
@@ -956,6 +1255,19 @@ export default function SnowLoadCalculator() {
                                                 placeholder="0.0"
                                             />
                                         </div>
+                                        <div>
+                                            <label htmlFor="custom-one-day-rain" className="block text-sm font-medium text-gray-300 mb-2">
+                                                1-in-50 One-day Rain - mm
+                                            </label>
+                                            <input
+                                                id="custom-one-day-rain"
+                                                type="number"
+                                                value={customLocation.oneDayRain}
+                                                onChange={(e) => setCustomLocation({ ...customLocation, oneDayRain: e.target.value })}
+                                                className="w-full px-3 py-2 bg-gray-800 border border-gray-700 rounded-md text-white focus:outline-none focus:ring-2 focus:ring-orange-500"
+                                                placeholder="0"
+                                            />
+                                        </div>
                                     </div>
                                 </div>
 
@@ -1006,6 +1318,141 @@ export default function SnowLoadCalculator() {
                                             />
                                         </div>
 
+                                        <div>
+                                            <label htmlFor="roof-type" className="block text-sm font-medium text-gray-300 mb-2">
+                                                Roof Type
+                                            </label>
+                                            <select
+                                                id="roof-type"
+                                                value={roofParams.roofType}
+                                                onChange={(e) => setRoofParams({ ...roofParams, roofType: e.target.value as RoofType })}
+                                                className="w-full px-3 py-2 bg-gray-800 border border-gray-700 rounded-md text-white focus:outline-none focus:ring-2 focus:ring-orange-500"
+                                            >
+                                                <option value="monoslope">Flat / Single Slope</option>
+                                                <option value="gable">Gable</option>
+                                                <option value="hip">Hip</option>
+                                                <option value="arch">Curved / Arch</option>
+                                                <option value="multispan">Multi-span / Sawtooth</option>
+                                            </select>
+                                            {(roofParams.roofType === "gable" || roofParams.roofType === "hip") && (
+                                                <p className="text-sm text-gray-400 mt-1">
+                                                    Unbalanced load cases are generated for slopes over 15°.
+                                                </p>
+                                            )}
+                                        </div>
+
+                                        {roofParams.roofType === "arch" && (
+                                            <div className="grid grid-cols-2 gap-4">
+                                                <div>
+                                                    <label htmlFor="arch-span" className="block text-sm font-medium text-gray-300 mb-2">
+                                                        Arch Span b (m)
+                                                    </label>
+                                                    <input
+                                                        id="arch-span"
+                                                        type="number"
+                                                        value={roofParams.arch.span}
+                                                        onChange={(e) => setRoofParams({ ...roofParams, arch: { ...roofParams.arch, span: parseFloat(e.target.value) || 0 } })}
+                                                        className="w-full px-3 py-2 bg-gray-800 border border-gray-700 rounded-md text-white focus:outline-none focus:ring-2 focus:ring-orange-500"
+                                                    />
+                                                </div>
+                                                <div>
+                                                    <label htmlFor="arch-rise" className="block text-sm font-medium text-gray-300 mb-2">
+                                                        Arch Rise h (m)
+                                                    </label>
+                                                    <input
+                                                        id="arch-rise"
+                                                        type="number"
+                                                        step="0.1"
+                                                        value={roofParams.arch.rise}
+                                                        onChange={(e) => setRoofParams({ ...roofParams, arch: { ...roofParams.arch, rise: parseFloat(e.target.value) || 0 } })}
+                                                        className="w-full px-3 py-2 bg-gray-800 border border-gray-700 rounded-md text-white focus:outline-none focus:ring-2 focus:ring-orange-500"
+                                                    />
+                                                </div>
+                                                <div className="col-span-2 flex items-center">
+                                                    <input
+                                                        type="checkbox"
+                                                        id="arch-end-walls"
+                                                        checked={roofParams.arch.hasEndWalls}
+                                                        onChange={(e) => setRoofParams({ ...roofParams, arch: { ...roofParams.arch, hasEndWalls: e.target.checked } })}
+                                                        className="h-4 w-4 text-orange-500 focus:ring-orange-500 border-gray-300 rounded"
+                                                    />
+                                                    <label htmlFor="arch-end-walls" className="ml-2 text-sm text-gray-300">
+                                                        Arch ends against walls that retain snow at the eaves
+                                                    </label>
+                                                </div>
+                                                {!isArchSpanValid && (
+                                                    <p className="col-span-2 text-sm text-yellow-400">
+                                                        The arch span must be greater than 0 and no more than the roof width ({roofParams.width} m).
+                                                    </p>
+                                                )}
+                                            </div>
+                                        )}
+
+                                        {roofParams.roofType === "multispan" && (
+                                            <div className="space-y-4">
+                                                <div className="grid grid-cols-2 gap-4">
+                                                    <div>
+                                                        <label htmlFor="multispan-form" className="block text-sm font-medium text-gray-300 mb-2">
+                                                            Span Form
+                                                        </label>
+                                                        <select
+                                                            id="multispan-form"
+                                                            value={roofParams.multiSpan.form}
+                                                            onChange={(e) => setRoofParams({ ...roofParams, multiSpan: { ...roofParams.multiSpan, form: e.target.value as MultiSpanForm } })}
+                                                            className="w-full px-3 py-2 bg-gray-800 border border-gray-700 rounded-md text-white focus:outline-none focus:ring-2 focus:ring-orange-500"
+                                                        >
+                                                            <option value="gable">Multi-span Gable</option>
+                                                            <option value="sawtooth">Sawtooth</option>
+                                                        </select>
+                                                    </div>
+                                                    <div>
+                                                        <label htmlFor="multispan-count" className="block text-sm font-medium text-gray-300 mb-2">
+                                                            Number of Spans
+                                                        </label>
+                                                        <input
+                                                            id="multispan-count"
+                                                            type="number"
+                                                            min="2"
+                                                            max="12"
+                                                            value={roofParams.multiSpan.spans.length}
+                                                            onChange={(e) => setSpanCount(parseInt(e.target.value) || 2)}
+                                                            className="w-full px-3 py-2 bg-gray-800 border border-gray-700 rounded-md text-white focus:outline-none focus:ring-2 focus:ring-orange-500"
+                                                        />
+                                                    </div>
+                                                </div>
+                                                {roofParams.multiSpan.spans.map((span, index) => (
+                                                    <div key={index} className="grid grid-cols-2 gap-4">
+                                                        <div>
+                                                            <label htmlFor={`span-width-${index}`} className="block text-sm font-medium text-gray-300 mb-2">
+                                                                Span {index + 1} Width (m)
+                                                            </label>
+                                                            <input
+                                                                id={`span-width-${index}`}
+                                                                type="number"
+                                                                value={span.width}
+                                                                onChange={(e) => updateSpan(index, { width: parseFloat(e.target.value) || 0 })}
+                                                                className="w-full px-3 py-2 bg-gray-800 border border-gray-700 rounded-md text-white focus:outline-none focus:ring-2 focus:ring-orange-500"
+                                                            />
+                                                        </div>
+                                                        <div>
+                                                            <label htmlFor={`span-ridge-${index}`} className="block text-sm font-medium text-gray-300 mb-2">
+                                                                Span {index + 1} Ridge Height (m)
+                                                            </label>
+                                                            <input
+                                                                id={`span-ridge-${index}`}
+                                                                type="number"
+                                                                step="0.1"
+                                                                value={span.ridgeHeight}
+                                                                onChange={(e) => updateSpan(index, { ridgeHeight: parseFloat(e.target.value) || 0 })}
+                                                                className="w-full px-3 py-2 bg-gray-800 border border-gray-700 rounded-md text-white focus:outline-none focus:ring-2 focus:ring-orange-500"
+                                                            />
+                                                        </div>
+                                                    </div>
+                                                ))}
+                                                <p className="text-sm text-gray-400">Ridge heights are measured above the valley line.</p>
+                                            </div>
+                                        )}
+
                                         <div>
                                             <label htmlFor="roof-slope" className="block text-sm font-medium text-gray-300 mb-2">
                                                 Slope (degrees)
@@ -1087,6 +1534,85 @@ export default function SnowLoadCalculator() {
                                     </div>
                                 </div>
 
+                                {/* Multi-level Roof Drift */}
+                                <div className="mt-8 border-t border-gray-700 pt-8">
+                                    <div className="flex items-center mb-4">
+                                        <input
+                                            type="checkbox"
+                                            id="lower-roof-drift"
+                                            checked={lowerRoofDrift.enabled}
+                                            onChange={(e) => setLowerRoofDrift({ ...lowerRoofDrift, enabled: e.target.checked })}
+                                            className="h-4 w-4 text-orange-500 focus:ring-orange-500 border-gray-300 rounded"
+                                        />
+                                        <label htmlFor="lower-roof-drift" className="ml-2 text-lg font-semibold text-white">
+                                            Lower roof of a multi-level roof (NBC 4.1.6.5)
+                                        </label>
+                                    </div>
+                                    <p className="text-sm text-gray-400 mb-4">
+                                        The roof above is the lower roof. Drifts are measured across its width from the step or adjacent higher building.
+                                    </p>
+
+                                    {lowerRoofDrift.enabled && (
+                                        <div className="grid md:grid-cols-4 gap-4">
+                                            <div>
+                                                <label htmlFor="upper-roof-length" className="block text-sm font-medium text-gray-300 mb-2">
+                                                    Upper Roof Length (m)
+                                                </label>
+                                                <input
+                                                    id="upper-roof-length"
+                                                    type="number"
+                                                    value={lowerRoofDrift.upperLength}
+                                                    onChange={(e) => setLowerRoofDrift({ ...lowerRoofDrift, upperLength: parseFloat(e.target.value) || 0 })}
+                                                    className="w-full px-3 py-2 bg-gray-800 border border-gray-700 rounded-md text-white focus:outline-none focus:ring-2 focus:ring-orange-500"
+                                                />
+                                            </div>
+                                            <div>
+                                                <label htmlFor="upper-roof-width" className="block text-sm font-medium text-gray-300 mb-2">
+                                                    Upper Roof Width (m)
+                                                </label>
+                                                <input
+                                                    id="upper-roof-width"
+                                                    type="number"
+                                                    value={lowerRoofDrift.upperWidth}
+                                                    onChange={(e) => setLowerRoofDrift({ ...lowerRoofDrift, upperWidth: parseFloat(e.target.value) || 0 })}
+                                                    className="w-full px-3 py-2 bg-gray-800 border border-gray-700 rounded-md text-white focus:outline-none focus:ring-2 focus:ring-orange-500"
+                                                />
+                                            </div>
+                                            <div>
+                                                <label htmlFor="height-difference" className="block text-sm font-medium text-gray-300 mb-2">
+                                                    Height Difference h (m)
+                                                </label>
+                                                <input
+                                                    id="height-difference"
+                                                    type="number"
+                                                    step="0.1"
+                                                    value={lowerRoofDrift.heightDifference}
+                                                    onChange={(e) => setLowerRoofDrift({ ...lowerRoofDrift, heightDifference: parseFloat(e.target.value) || 0 })}
+                                                    className="w-full px-3 py-2 bg-gray-800 border border-gray-700 rounded-md text-white focus:outline-none focus:ring-2 focus:ring-orange-500"
+                                                />
+                                            </div>
+                                            <div>
+                                                <label htmlFor="roof-gap" className="block text-sm font-medium text-gray-300 mb-2">
+                                                    Gap Distance a (m)
+                                                </label>
+                                                <input
+                                                    id="roof-gap"
+                                                    type="number"
+                                                    step="0.1"
+                                                    value={lowerRoofDrift.gap}
+                                                    onChange={(e) => setLowerRoofDrift({ ...lowerRoofDrift, gap: parseFloat(e.target.value) || 0 })}
+                                                    className="w-full px-3 py-2 bg-gray-800 border border-gray-700 rounded-md text-white focus:outline-none focus:ring-2 focus:ring-orange-500"
+                                                />
+                                            </div>
+                                        </div>
+                                    )}
+                                    {lowerRoofDrift.enabled && lowerRoofDrift.gap > MAX_DRIFT_GAP && (
+                                        <p className="text-sm text-yellow-400 mt-3">
+                                            Roofs more than {MAX_DRIFT_GAP} m apart do not need to be designed for drift from the higher roof.
+                                        </p>
+                                    )}
+                                </div>
+
                                 <div className="flex justify-between mt-8">
                                     <button
                                         onClick={() => setStep(1)}
@@ -1094,10 +1620,545 @@ export default function SnowLoadCalculator() {
                                     >
                                         Back
                                     </button>
+                                    <button
+                                        onClick={() => setStep(3)}
+                                        disabled={!isArchSpanValid}
+                                        className="px-6 py-2 bg-orange-500 text-white rounded-md hover:bg-orange-600 disabled:bg-gray-600 disabled:cursor-not-allowed transition-colors"
+                                    >
+                                        Next: Obstructions
+                                    </button>
+                                </div>
+                            </div>
+                        )}
+
+                        {/* Step 3: Obstructions and Adjacencies */}
+                        {step === 3 && (
+                            <div className="engineering-card">
+                                <h2 className="text-2xl font-bold text-white dark:text-white light:text-gray-900 mb-2">Obstructions and Adjacencies</h2>
+                                <p className="text-gray-400 mb-6">
+                                    Place rooftop projections, upper sloped roofs draining onto this roof, solar arrays and canopies. Each one adds a surcharge load case on top of the balanced snow load.
+                                </p>
+
+                                {/* Roof Projections */}
+                                <div className="bg-gray-800 rounded-lg p-6 mb-6">
+                                    <div className="flex justify-between items-center mb-4">
+                                        <h3 className="text-lg font-semibold text-white">Roof Projections</h3>
+                                        <button
+                                            onClick={addProjection}
+                                            className="px-4 py-2 bg-orange-500 text-white rounded-md hover:bg-orange-600 transition-colors text-sm"
+                                        >
+                                            Add Projection
+                                        </button>
+                                    </div>
+                                    <p className="text-sm text-gray-400 mb-4">Rooftop units, penthouses and parapets (NBC 4.1.6.5, β = 0.67)</p>
+
+                                    {adjacencies.projections.length === 0 ? (
+                                        <p className="text-gray-500 text-sm">No projections added.</p>
+                                    ) : (
+                                        <div className="space-y-4">
+                                            {adjacencies.projections.map((projection) => (
+                                                <div key={projection.id} className="grid md:grid-cols-5 gap-4 items-end bg-gray-700 rounded-lg p-4">
+                                                    <div>
+                                                        <label htmlFor={`projection-name-${projection.id}`} className="block text-sm font-medium text-gray-300 mb-2">Name</label>
+                                                        <input
+                                                            id={`projection-name-${projection.id}`}
+                                                            type="text"
+                                                            value={projection.name}
+                                                            onChange={(e) => updateProjection(projection.id, { name: e.target.value })}
+                                                            className="w-full px-3 py-2 bg-gray-800 border border-gray-700 rounded-md text-white focus:outline-none focus:ring-2 focus:ring-orange-500"
+                                                        />
+                                                    </div>
+                                                    <div>
+                                                        <label htmlFor={`projection-height-${projection.id}`} className="block text-sm font-medium text-gray-300 mb-2">Height (m)</label>
+                                                        <input
+                                                            id={`projection-height-${projection.id}`}
+                                                            type="number"
+                                                            step="0.1"
+                                                            value={projection.height}
+                                                            onChange={(e) => updateProjection(projection.id, { height: parseFloat(e.target.value) || 0 })}
+                                                            className="w-full px-3 py-2 bg-gray-800 border border-gray-700 rounded-md text-white focus:outline-none focus:ring-2 focus:ring-orange-500"
+                                                        />
+                                                    </div>
+                                                    <div>
+                                                        <label htmlFor={`projection-length-${projection.id}`} className="block text-sm font-medium text-gray-300 mb-2">Length (m)</label>
+                                                        <input
+                                                            id={`projection-length-${projection.id}`}
+                                                            type="number"
+                                                            step="0.1"
+                                                            value={projection.length}
+                                                            onChange={(e) => updateProjection(projection.id, { length: parseFloat(e.target.value) || 0 })}
+                                                            className="w-full px-3 py-2 bg-gray-800 border border-gray-700 rounded-md text-white focus:outline-none focus:ring-2 focus:ring-orange-500"
+                                                        />
+                                                    </div>
+                                                    <div>
+                                                        <label htmlFor={`projection-width-${projection.id}`} className="block text-sm font-medium text-gray-300 mb-2">Width (m)</label>
+                                                        <input
+                                                            id={`projection-width-${projection.id}`}
+                                                            type="number"
+                                                            step="0.1"
+                                                            value={projection.width}
+                                                            onChange={(e) => updateProjection(projection.id, { width: parseFloat(e.target.value) || 0 })}
+                                                            className="w-full px-3 py-2 bg-gray-800 border border-gray-700 rounded-md text-white focus:outline-none focus:ring-2 focus:ring-orange-500"
+                                                        />
+                                                    </div>
+                                                    <button
+                                                        onClick={() => removeProjection(projection.id)}
+                                                        className="px-4 py-2 bg-gray-600 text-white rounded-md hover:bg-gray-500 transition-colors"
+                                                    >
+                                                        Remove
+                                                    </button>
+                                                </div>
+                                            ))}
+                                        </div>
+                                    )}
+                                </div>
+
+                                {/* Upper Sloped Roofs */}
+                                <div className="bg-gray-800 rounded-lg p-6 mb-6">
+                                    <div className="flex justify-between items-center mb-4">
+                                        <h3 className="text-lg font-semibold text-white">Upper Sloped Roofs (Sliding Snow)</h3>
+                                        <button
+                                            onClick={addSlidingRoof}
+                                            className="px-4 py-2 bg-orange-500 text-white rounded-md hover:bg-orange-600 transition-colors text-sm"
+                                        >
+                                            Add Upper Roof
+                                        </button>
+                                    </div>
+                                    <p className="text-sm text-gray-400 mb-4">
+                                        Sloped roofs whose eaves drain onto this roof. Sliding snow is spread over a {SLIDING_SNOW_WIDTH} m strip below the eave.
+                                    </p>
+
+                                    {adjacencies.slidingRoofs.length === 0 ? (
+                                        <p className="text-gray-500 text-sm">No upper roofs added.</p>
+                                    ) : (
+                                        <div className="space-y-4">
+                                            {adjacencies.slidingRoofs.map((source) => (
+                                                <div key={source.id} className="bg-gray-700 rounded-lg p-4">
+                                                    <div className="grid md:grid-cols-5 gap-4 items-end">
+                                                        <div>
+                                                            <label htmlFor={`sliding-name-${source.id}`} className="block text-sm font-medium text-gray-300 mb-2">Name</label>
+                                                            <input
+                                                                id={`sliding-name-${source.id}`}
+                                                                type="text"
+                                                                value={source.name}
+                                                                onChange={(e) => updateSlidingRoof(source.id, { name: e.target.value })}
+                                                                className="w-full px-3 py-2 bg-gray-800 border border-gray-700 rounded-md text-white focus:outline-none focus:ring-2 focus:ring-orange-500"
+                                                            />
+                                                        </div>
+                                                        <div>
+                                                            <label htmlFor={`sliding-slope-${source.id}`} className="block text-sm font-medium text-gray-300 mb-2">Slope (degrees)</label>
+                                                            <input
+                                                                id={`sliding-slope-${source.id}`}
+                                                                type="number"
+                                                                value={source.slope}
+                                                                onChange={(e) => updateSlidingRoof(source.id, { slope: parseFloat(e.target.value) || 0 })}
+                                                                className="w-full px-3 py-2 bg-gray-800 border border-gray-700 rounded-md text-white focus:outline-none focus:ring-2 focus:ring-orange-500"
+                                                            />
+                                                        </div>
+                                                        <div>
+                                                            <label htmlFor={`sliding-run-${source.id}`} className="block text-sm font-medium text-gray-300 mb-2">Ridge to Eave (m)</label>
+                                                            <input
+                                                                id={`sliding-run-${source.id}`}
+                                                                type="number"
+                                                                step="0.1"
+                                                                value={source.run}
+                                                                onChange={(e) => updateSlidingRoof(source.id, { run: parseFloat(e.target.value) || 0 })}
+                                                                className="w-full px-3 py-2 bg-gray-800 border border-gray-700 rounded-md text-white focus:outline-none focus:ring-2 focus:ring-orange-500"
+                                                            />
+                                                        </div>
+                                                        <div>
+                                                            <label htmlFor={`sliding-eave-${source.id}`} className="block text-sm font-medium text-gray-300 mb-2">Eave Height Above Roof (m)</label>
+                                                            <input
+                                                                id={`sliding-eave-${source.id}`}
+                                                                type="number"
+                                                                step="0.1"
+                                                                value={source.eaveHeight}
+                                                                onChange={(e) => updateSlidingRoof(source.id, { eaveHeight: parseFloat(e.target.value) || 0 })}
+                                                                className="w-full px-3 py-2 bg-gray-800 border border-gray-700 rounded-md text-white focus:outline-none focus:ring-2 focus:ring-orange-500"
+                                                            />
+                                                        </div>
+                                                        <button
+                                                            onClick={() => removeSlidingRoof(source.id)}
+                                                            className="px-4 py-2 bg-gray-600 text-white rounded-md hover:bg-gray-500 transition-colors"
+                                                        >
+                                                            Remove
+                                                        </button>
+                                                    </div>
+                                                    <div className="flex items-center mt-3">
+                                                        <input
+                                                            type="checkbox"
+                                                            id={`sliding-slippery-${source.id}`}
+                                                            checked={source.isSlippery}
+                                                            onChange={(e) => updateSlidingRoof(source.id, { isSlippery: e.target.checked })}
+                                                            className="h-4 w-4 text-orange-500 focus:ring-orange-500 border-gray-300 rounded"
+                                                        />
+                                                        <label htmlFor={`sliding-slippery-${source.id}`} className="ml-2 text-sm text-gray-300">
+                                                            Slippery upper roof surface
+                                                        </label>
+                                                    </div>
+                                                    {!canSnowSlide(source.slope, source.isSlippery) && (
+                                                        <p className="text-sm text-yellow-400 mt-2">
+                                                            This roof is too flat for snow to slide; no sliding load case will be generated.
+                                                        </p>
+                                                    )}
+                                                </div>
+                                            ))}
+                                        </div>
+                                    )}
+                                </div>
+
+                                {/* Attachments */}
+                                <div className="bg-gray-800 rounded-lg p-6 mb-6">
+                                    <div className="flex justify-between items-center mb-4">
+                                        <h3 className="text-lg font-semibold text-white">Solar Arrays</h3>
+                                        <button
+                                            onClick={addSolarArray}
+                                            className="px-4 py-2 bg-orange-500 text-white rounded-md hover:bg-orange-600 transition-colors text-sm"
+                                        >
+                                            Add Solar Array
+                                        </button>
+                                    </div>
+                                    <p className="text-sm text-gray-400 mb-4">
+                                        Panel rows on racking. Panels clear of the roof snow shed onto the gap between rows; lower rows act as projections.
+                                    </p>
+
+                                    {attachments.solarArrays.length === 0 ? (
+                                        <p className="text-gray-500 text-sm">No solar arrays added.</p>
+                                    ) : (
+                                        <div className="space-y-4">
+                                            {attachments.solarArrays.map((array) => (
+                                                <div key={array.id} className="bg-gray-700 rounded-lg p-4">
+                                                    <div className="grid md:grid-cols-6 gap-4 items-end">
+                                                        <div>
+                                                            <label htmlFor={`solar-name-${array.id}`} className="block text-sm font-medium text-gray-300 mb-2">Name</label>
+                                                            <input
+                                                                id={`solar-name-${array.id}`}
+                                                                type="text"
+                                                                value={array.name}
+                                                                onChange={(e) => updateSolarArray(array.id, { name: e.target.value })}
+                                                                className="w-full px-3 py-2 bg-gray-800 border border-gray-700 rounded-md text-white focus:outline-none focus:ring-2 focus:ring-orange-500"
+                                                            />
+                                                        </div>
+                                                        <div>
+                                                            <label htmlFor={`solar-tilt-${array.id}`} className="block text-sm font-medium text-gray-300 mb-2">Tilt (°)</label>
+                                                            <input
+                                                                id={`solar-tilt-${array.id}`}
+                                                                type="number"
+                                                                step="1"
+                                                                value={array.tilt}
+                                                                onChange={(e) => updateSolarArray(array.id, { tilt: parseFloat(e.target.value) || 0 })}
+                                                                className="w-full px-3 py-2 bg-gray-800 border border-gray-700 rounded-md text-white focus:outline-none focus:ring-2 focus:ring-orange-500"
+                                                            />
+                                                        </div>
+                                                        <div>
+                                                            <label htmlFor={`solar-panelLength-${array.id}`} className="block text-sm font-medium text-gray-300 mb-2">Panel Length (m)</label>
+                                                            <input
+                                                                id={`solar-panelLength-${array.id}`}
+                                                                type="number"
+                                                                step="0.1"
+                                                                value={array.panelLength}
+                                                                onChange={(e) => updateSolarArray(array.id, { panelLength: parseFloat(e.target.value) || 0 })}
+                                                                className="w-full px-3 py-2 bg-gray-800 border border-gray-700 rounded-md text-white focus:outline-none focus:ring-2 focus:ring-orange-500"
+                                                            />
+                                                        </div>
+                                                        <div>
+                                                            <label htmlFor={`solar-rowSpacing-${array.id}`} className="block text-sm font-medium text-gray-300 mb-2">Row Spacing (m)</label>
+                                                            <input
+                                                                id={`solar-rowSpacing-${array.id}`}
+                                                                type="number"
+                                                                step="0.1"
+                                                                value={array.rowSpacing}
+                                                                onChange={(e) => updateSolarArray(array.id, { rowSpacing: parseFloat(e.target.value) || 0 })}
+                                                                className="w-full px-3 py-2 bg-gray-800 border border-gray-700 rounded-md text-white focus:outline-none focus:ring-2 focus:ring-orange-500"
+                                                            />
+                                                        </div>
+                                                        <div>
+                                                            <label htmlFor={`solar-clearance-${array.id}`} className="block text-sm font-medium text-gray-300 mb-2">Clearance (m)</label>
+                                                            <input
+                                                                id={`solar-clearance-${array.id}`}
+                                                                type="number"
+                                                                step="0.1"
+                                                                value={array.clearance}
+                                                                onChange={(e) => updateSolarArray(array.id, { clearance: parseFloat(e.target.value) || 0 })}
+                                                                className="w-full px-3 py-2 bg-gray-800 border border-gray-700 rounded-md text-white focus:outline-none focus:ring-2 focus:ring-orange-500"
+                                                            />
+                                                        </div>
+                                                        <button
+                                                            onClick={() => removeSolarArray(array.id)}
+                                                            className="px-4 py-2 bg-gray-600 text-white rounded-md hover:bg-gray-500 transition-colors"
+                                                        >
+                                                            Remove
+                                                        </button>
+                                                    </div>
+                                                </div>
+                                            ))}
+                                        </div>
+                                    )}
+                                </div>
+
+                                <div className="bg-gray-800 rounded-lg p-6 mb-6">
+                                    <div className="flex justify-between items-center mb-4">
+                                        <h3 className="text-lg font-semibold text-white">Canopies</h3>
+                                        <button
+                                            onClick={addCanopy}
+                                            className="px-4 py-2 bg-orange-500 text-white rounded-md hover:bg-orange-600 transition-colors text-sm"
+                                        >
+                                            Add Canopy
+                                        </button>
+                                    </div>
+                                    <p className="text-sm text-gray-400 mb-4">
+                                        Cantilevered canopies below a taller wall, loaded by drifting off the upper roof and snow sliding from it.
+                                    </p>
+
+                                    {attachments.canopies.length === 0 ? (
+                                        <p className="text-gray-500 text-sm">No canopies added.</p>
+                                    ) : (
+                                        <div className="space-y-4">
+                                            {attachments.canopies.map((canopy) => (
+                                                <div key={canopy.id} className="bg-gray-700 rounded-lg p-4">
+                                                    <div className="grid md:grid-cols-5 gap-4 items-end">
+                                                        <div>
+                                                            <label htmlFor={`canopy-name-${canopy.id}`} className="block text-sm font-medium text-gray-300 mb-2">Name</label>
+                                                            <input
+                                                                id={`canopy-name-${canopy.id}`}
+                                                                type="text"
+                                                                value={canopy.name}
+                                                                onChange={(e) => updateCanopy(canopy.id, { name: e.target.value })}
+                                                                className="w-full px-3 py-2 bg-gray-800 border border-gray-700 rounded-md text-white focus:outline-none focus:ring-2 focus:ring-orange-500"
+                                                            />
+                                                        </div>
+                                                        <div>
+                                                            <label htmlFor={`canopy-projection-${canopy.id}`} className="block text-sm font-medium text-gray-300 mb-2">Projection (m)</label>
+                                                            <input
+                                                                id={`canopy-projection-${canopy.id}`}
+                                                                type="number"
+                                                                step="0.1"
+                                                                value={canopy.projection}
+                                                                onChange={(e) => updateCanopy(canopy.id, { projection: parseFloat(e.target.value) || 0 })}
+                                                                className="w-full px-3 py-2 bg-gray-800 border border-gray-700 rounded-md text-white focus:outline-none focus:ring-2 focus:ring-orange-500"
+                                                            />
+                                                        </div>
+                                                        <div>
+                                                            <label htmlFor={`canopy-slope-${canopy.id}`} className="block text-sm font-medium text-gray-300 mb-2">Canopy Slope (°)</label>
+                                                            <input
+                                                                id={`canopy-slope-${canopy.id}`}
+                                                                type="number"
+                                                                step="1"
+                                                                value={canopy.slope}
+                                                                onChange={(e) => updateCanopy(canopy.id, { slope: parseFloat(e.target.value) || 0 })}
+                                                                className="w-full px-3 py-2 bg-gray-800 border border-gray-700 rounded-md text-white focus:outline-none focus:ring-2 focus:ring-orange-500"
+                                                            />
+                                                        </div>
+                                                        <div>
+                                                            <label htmlFor={`canopy-wallHeight-${canopy.id}`} className="block text-sm font-medium text-gray-300 mb-2">Wall Height Above (m)</label>
+                                                            <input
+                                                                id={`canopy-wallHeight-${canopy.id}`}
+                                                                type="number"
+                                                                step="0.1"
+                                                                value={canopy.wallHeight}
+                                                                onChange={(e) => updateCanopy(canopy.id, { wallHeight: parseFloat(e.target.value) || 0 })}
+                                                                className="w-full px-3 py-2 bg-gray-800 border border-gray-700 rounded-md text-white focus:outline-none focus:ring-2 focus:ring-orange-500"
+                                                            />
+                                                        </div>
+                                                        <button
+                                                            onClick={() => removeCanopy(canopy.id)}
+                                                            className="px-4 py-2 bg-gray-600 text-white rounded-md hover:bg-gray-500 transition-colors"
+                                                        >
+                                                            Remove
+                                                        </button>
+                                                    </div>
+                                                    <div className="grid md:grid-cols-4 gap-4 items-end mt-4">
+                                                        <div>
+                                                            <label htmlFor={`canopy-upperRoofLength-${canopy.id}`} className="block text-sm font-medium text-gray-300 mb-2">Upper Roof Length (m)</label>
+                                                            <input
+                                                                id={`canopy-upperRoofLength-${canopy.id}`}
+                                                                type="number"
+                                                                step="0.1"
+                                                                value={canopy.upperRoofLength}
+                                                                onChange={(e) => updateCanopy(canopy.id, { upperRoofLength: parseFloat(e.target.value) || 0 })}
+                                                                className="w-full px-3 py-2 bg-gray-800 border border-gray-700 rounded-md text-white focus:outline-none focus:ring-2 focus:ring-orange-500"
+                                                            />
+                                                        </div>
+                                                        <div>
+                                                            <label htmlFor={`canopy-upperRoofWidth-${canopy.id}`} className="block text-sm font-medium text-gray-300 mb-2">Upper Roof Width (m)</label>
+                                                            <input
+                                                                id={`canopy-upperRoofWidth-${canopy.id}`}
+                                                                type="number"
+                                                                step="0.1"
+                                                                value={canopy.upperRoofWidth}
+                                                                onChange={(e) => updateCanopy(canopy.id, { upperRoofWidth: parseFloat(e.target.value) || 0 })}
+                                                                className="w-full px-3 py-2 bg-gray-800 border border-gray-700 rounded-md text-white focus:outline-none focus:ring-2 focus:ring-orange-500"
+                                                            />
+                                                        </div>
+                                                        <div>
+                                                            <label htmlFor={`canopy-upperRoofSlope-${canopy.id}`} className="block text-sm font-medium text-gray-300 mb-2">Upper Roof Slope (°)</label>
+                                                            <input
+                                                                id={`canopy-upperRoofSlope-${canopy.id}`}
+                                                                type="number"
+                                                                step="1"
+                                                                value={canopy.upperRoofSlope}
+                                                                onChange={(e) => updateCanopy(canopy.id, { upperRoofSlope: parseFloat(e.target.value) || 0 })}
+                                                                className="w-full px-3 py-2 bg-gray-800 border border-gray-700 rounded-md text-white focus:outline-none focus:ring-2 focus:ring-orange-500"
+                                                            />
+                                                        </div>
+                                                        <div>
+                                                            <label htmlFor={`canopy-upperRoofRun-${canopy.id}`} className="block text-sm font-medium text-gray-300 mb-2">Upper Roof Ridge to Eave (m)</label>
+                                                            <input
+                                                                id={`canopy-upperRoofRun-${canopy.id}`}
+                                                                type="number"
+                                                                step="0.1"
+                                                                value={canopy.upperRoofRun}
+                                                                onChange={(e) => updateCanopy(canopy.id, { upperRoofRun: parseFloat(e.target.value) || 0 })}
+                                                                className="w-full px-3 py-2 bg-gray-800 border border-gray-700 rounded-md text-white focus:outline-none focus:ring-2 focus:ring-orange-500"
+                                                            />
+                                                        </div>
+                                                    </div>
+                                                    <div className="flex items-center mt-3">
+                                                        <input
+                                                            type="checkbox"
+                                                            id={`canopy-isSlippery-${canopy.id}`}
+                                                            checked={canopy.isSlippery}
+                                                            onChange={(e) => updateCanopy(canopy.id, { isSlippery: e.target.checked })}
+                                                            className="h-4 w-4 text-orange-500 focus:ring-orange-500 border-gray-300 rounded"
+                                                        />
+                                                        <label htmlFor={`canopy-isSlippery-${canopy.id}`} className="ml-2 text-sm text-gray-300">
+                                                            Slippery canopy surface
+                                                        </label>
+                                                    </div>
+                                                    <div className="flex items-center mt-3">
+                                                        <input
+                                                            type="checkbox"
+                                                            id={`canopy-upperRoofIsSlippery-${canopy.id}`}
+                                                            checked={canopy.upperRoofIsSlippery}
+                                                            onChange={(e) => updateCanopy(canopy.id, { upperRoofIsSlippery: e.target.checked })}
+                                                            className="h-4 w-4 text-orange-500 focus:ring-orange-500 border-gray-300 rounded"
+                                                        />
+                                                        <label htmlFor={`canopy-upperRoofIsSlippery-${canopy.id}`} className="ml-2 text-sm text-gray-300">
+                                                            Slippery upper roof surface
+                                                        </label>
+                                                    </div>
+                                                </div>
+                                            ))}
+                                        </div>
+                                    )}
+                                </div>
+
+                                {/* Rain and Ponding */}
+                                <div className="bg-gray-800 rounded-lg p-6 mb-6">
+                                    <div className="flex items-center mb-4">
+                                        <input
+                                            type="checkbox"
+                                            id="rain-ponding-enabled"
+                                            checked={rainPonding.enabled}
+                                            onChange={(e) => setRainPonding({ ...rainPonding, enabled: e.target.checked })}
+                                            className="h-4 w-4 text-orange-500 focus:ring-orange-500 border-gray-300 rounded"
+                                        />
+                                        <label htmlFor="rain-ponding-enabled" className="ml-2 text-lg font-semibold text-white">
+                                            Rain and Ponding Check
+                                        </label>
+                                    </div>
+                                    <p className="text-sm text-gray-400 mb-4">
+                                        Flat and near-flat roofs where rain can collect (NBC 4.1.6.4). Drains are assumed blocked; positions are measured on plan from the same roof corner.
+                                    </p>
+
+                                    {rainPonding.enabled && (
+                                        <div className="space-y-4">
+                                            <div className="grid md:grid-cols-2 gap-4">
+                                                <div>
+                                                    <label htmlFor="slope-to-drains" className="block text-sm font-medium text-gray-300 mb-2">Slope to Drains (%)</label>
+                                                    <input
+                                                        id="slope-to-drains"
+                                                        type="number"
+                                                        step="0.1"
+                                                        value={rainPonding.slopeToDrains}
+                                                        onChange={(e) => setRainPonding({ ...rainPonding, slopeToDrains: parseFloat(e.target.value) || 0 })}
+                                                        className="w-full px-3 py-2 bg-gray-800 border border-gray-700 rounded-md text-white focus:outline-none focus:ring-2 focus:ring-orange-500"
+                                                    />
+                                                </div>
+                                                <div>
+                                                    <label htmlFor="deflection-stiffness" className="block text-sm font-medium text-gray-300 mb-2">Roof Deflection Stiffness (kPa/mm)</label>
+                                                    <input
+                                                        id="deflection-stiffness"
+                                                        type="number"
+                                                        step="0.01"
+                                                        value={rainPonding.deflectionStiffness}
+                                                        onChange={(e) => setRainPonding({ ...rainPonding, deflectionStiffness: parseFloat(e.target.value) || 0 })}
+                                                        className="w-full px-3 py-2 bg-gray-800 border border-gray-700 rounded-md text-white focus:outline-none focus:ring-2 focus:ring-orange-500"
+                                                    />
+                                                </div>
+                                            </div>
+
+                                            <div className="flex justify-between items-center">
+                                                <h4 className="font-medium text-white">Roof Drains</h4>
+                                                <button
+                                                    onClick={addDrain}
+                                                    className="px-4 py-2 bg-orange-500 text-white rounded-md hover:bg-orange-600 transition-colors text-sm"
+                                                >
+                                                    Add Drain
+                                                </button>
+                                            </div>
+
+                                            {rainPonding.drains.length === 0 ? (
+                                                <p className="text-gray-500 text-sm">No drains added; water is assumed to flow across the full roof diagonal.</p>
+                                            ) : (
+                                                rainPonding.drains.map((drain) => (
+                                                    <div key={drain.id} className="grid md:grid-cols-4 gap-4 items-end bg-gray-700 rounded-lg p-4">
+                                                        <div>
+                                                            <label htmlFor={`drain-name-${drain.id}`} className="block text-sm font-medium text-gray-300 mb-2">Name</label>
+                                                            <input
+                                                                id={`drain-name-${drain.id}`}
+                                                                type="text"
+                                                                value={drain.name}
+                                                                onChange={(e) => updateDrain(drain.id, { name: e.target.value })}
+                                                                className="w-full px-3 py-2 bg-gray-800 border border-gray-700 rounded-md text-white focus:outline-none focus:ring-2 focus:ring-orange-500"
+                                                            />
+                                                        </div>
+                                                        <div>
+                                                            <label htmlFor={`drain-x-${drain.id}`} className="block text-sm font-medium text-gray-300 mb-2">Along Length, x (m)</label>
+                                                            <input
+                                                                id={`drain-x-${drain.id}`}
+                                                                type="number"
+                                                                step="0.1"
+                                                                value={drain.x}
+                                                                onChange={(e) => updateDrain(drain.id, { x: parseFloat(e.target.value) || 0 })}
+                                                                className="w-full px-3 py-2 bg-gray-800 border border-gray-700 rounded-md text-white focus:outline-none focus:ring-2 focus:ring-orange-500"
+                                                            />
+                                                        </div>
+                                                        <div>
+                                                            <label htmlFor={`drain-y-${drain.id}`} className="block text-sm font-medium text-gray-300 mb-2">Along Width, y (m)</label>
+                                                            <input
+                                                                id={`drain-y-${drain.id}`}
+                                                                type="number"
+                                                                step="0.1"
+                                                                value={drain.y}
+                                                                onChange={(e) => updateDrain(drain.id, { y: parseFloat(e.target.value) || 0 })}
+                                                                className="w-full px-3 py-2 bg-gray-800 border border-gray-700 rounded-md text-white focus:outline-none focus:ring-2 focus:ring-orange-500"
+                                                            />
+                                                        </div>
+                                                        <button
+                                                            onClick={() => removeDrain(drain.id)}
+                                                            className="px-4 py-2 bg-gray-600 text-white rounded-md hover:bg-gray-500 transition-colors"
+                                                        >
+                                                            Remove
+                                                        </button>
+                                                    </div>
+                                                ))
+                                            )}
+                                        </div>
+                                    )}
+                                </div>
+
+                                <div className="flex justify-between mt-8">
+                                    <button
+                                        onClick={() => setStep(2)}
+                                        className="px-6 py-2 bg-gray-700 text-white rounded-md hover:bg-gray-600 transition-colors"
+                                    >
+                                        Back
+                                    </button>
                                     <button
                                         onClick={() => {
                                             calculateSnowLoads();
-                                            setStep(3);
+                                            setStep(4);
                                         }}
                                         className="px-6 py-2 bg-orange-500 text-white rounded-md hover:bg-orange-600 transition-colors"
                                     >
@@ -1107,8 +2168,8 @@ export default function SnowLoadCalculator() {
                             </div>
                         )}
 
-                        {/* Step 3: Results */}
-                        {step === 3 && showResults && (
+                        {/* Step 4: Results */}
+                        {step === 4 && showResults && (
                             <div className="engineering-card">
                                 <div className="flex justify-between items-center mb-6">
                                     <h2 className="text-2xl font-bold text-white dark:text-white light:text-gray-900">Calculation Results</h2>
@@ -1387,6 +2448,22 @@ export default function SnowLoadCalculator() {
                                                             __html: `$$C_a = ${calculationFactors.Ca.toFixed(2)}$$`
                                                         }}
                                                     />
+                                                    {calculationFactors.valleys.length > 0 && (
+                                                        <div className="space-y-2 border-t border-gray-700 pt-3">
+                                                            <div className="text-gray-300">
+                                                                Valley accumulation: Ca = 0.5 at the ridges, rising to the valley value limited by the ridge height
+                                                            </div>
+                                                            {calculationFactors.valleys.map((valley, index) => (
+                                                                <div
+                                                                    key={index}
+                                                                    className="text-gray-300"
+                                                                    dangerouslySetInnerHTML={{
+                                                                        __html: `$$C_{a,${index + 1}} = \\min\\left(2.0, \\frac{${calculationFactors.gamma.toFixed(2)} \\times ${valley.depth}}{${calculationFactors.Cb.toFixed(3)} \\times ${selectedLocation?.ss || parseFloat(customLocation.groundSnowLoad)}}\\right) = ${valley.Ca.toFixed(2)} \\text{ at } x = ${valley.x.toFixed(1)} \\text{ m}$$`
+                                                                    }}
+                                                                />
+                                                            ))}
+                                                        </div>
+                                                    )}
                                                 </div>
                                             </div>
 
@@ -1461,8 +2538,16 @@ export default function SnowLoadCalculator() {
                                                             <div className="text-sm text-gray-400 capitalize">
                                                                 {loadCase.distribution} distribution
                                                             </div>
+                                                            {loadCase.driftLoad !== undefined && loadCase.driftLoad > 0 && (
+                                                                <div className="text-sm text-gray-400">
+                                                                    Peak surcharge {loadCase.driftLoad.toFixed(2)} kPa
+                                                                </div>
+                                                            )}
                                                         </div>
                                                     </div>
+                                                    <div className="mt-4">
+                                                        <SnowLoadProfileChart loadCase={loadCase} extent={roofParams.width} color="#F97316" />
+                                                    </div>
                                                 </div>
                                             ))}
                                         </div>
@@ -1491,20 +2576,99 @@ export default function SnowLoadCalculator() {
                                                             <div className="text-sm text-gray-400 capitalize">
                                                                 {loadCase.distribution} distribution
                                                             </div>
+                                                            {loadCase.driftLoad !== undefined && loadCase.driftLoad > 0 && (
+                                                                <div className="text-sm text-gray-400">
+                                                                    Peak surcharge {loadCase.driftLoad.toFixed(2)} kPa
+                                                                </div>
+                                                            )}
                                                         </div>
                                                     </div>
+                                                    <div className="mt-4">
+                                                        <SnowLoadProfileChart loadCase={loadCase} extent={roofParams.width} color="#60A5FA" />
+                                                    </div>
                                                 </div>
                                             ))}
                                         </div>
                                     </div>
                                 </div>
 
+                                {/* Rain and Ponding */}
+                                {rainPondingResult && (
+                                    <div className="bg-gray-800 rounded-lg p-6 mt-6">
+                                        <h3 className="text-lg font-semibold text-white mb-4">Rain and Ponding (NBC 4.1.6.4)</h3>
+                                        <div className="grid md:grid-cols-4 gap-4 mb-4">
+                                            <div className="bg-gray-700 rounded-lg p-4">
+                                                <div className="text-sm text-gray-400">Drainage Path, L</div>
+                                                <div className="text-lg font-semibold text-white">{rainPondingResult.drainagePath.toFixed(1)} m</div>
+                                            </div>
+                                            <div className="bg-gray-700 rounded-lg p-4">
+                                                <div className="text-sm text-gray-400">Rise Above Drain, sL</div>
+                                                <div className="text-lg font-semibold text-white">{rainPondingResult.roofRise.toFixed(0)} mm</div>
+                                            </div>
+                                            <div className="bg-gray-700 rounded-lg p-4">
+                                                <div className="text-sm text-gray-400">Ponding Ratio, C</div>
+                                                <div className="text-lg font-semibold text-white">{rainPondingResult.stabilityRatio.toFixed(3)}</div>
+                                            </div>
+                                            <div className="bg-gray-700 rounded-lg p-4">
+                                                <div className="text-sm text-gray-400">Amplification, 1/(1 - C)</div>
+                                                <div className="text-lg font-semibold text-white">{rainPondingResult.isStable ? rainPondingResult.amplification.toFixed(3) : "Unstable"}</div>
+                                            </div>
+                                        </div>
+                                        <div
+                                            className="text-gray-300 mb-4"
+                                            dangerouslySetInnerHTML={{
+                                                __html: `$$C = \\frac{\\gamma_w}{k} = \\frac{0.00981}{${rainPonding.deflectionStiffness}} = ${rainPondingResult.stabilityRatio.toFixed(3)}$$`
+                                            }}
+                                        />
+                                        {!rainPondingResult.isStable ? (
+                                            <p className="text-red-400 mb-4">Ponding instability: each millimetre of deflection attracts more water than the roof can resist. Stiffen the roof or increase the slope to drains.</p>
+                                        ) : rainPondingResult.isSensitive ? (
+                                            <p className="text-yellow-400 mb-4">C exceeds {PONDING_STABILITY_LIMIT}; the roof is sensitive to ponding and the rain load is amplified by {rainPondingResult.amplification.toFixed(2)}.</p>
+                                        ) : (
+                                            <p className="text-green-400 mb-4">Ponding stable: C ≤ {PONDING_STABILITY_LIMIT}, amplification {rainPondingResult.amplification.toFixed(2)}.</p>
+                                        )}
+                                        <div className="space-y-4">
+                                            {[rainPondingResult.oneDayRain, rainPondingResult.rainOnSnow].map((accumulation) => (
+                                                <div key={accumulation.name} className="bg-gray-700 rounded-lg p-4">
+                                                    <div className="flex justify-between items-start">
+                                                        <div>
+                                                            <h5 className="font-medium text-white">{accumulation.name}</h5>
+                                                            <div className="text-sm text-gray-400">
+                                                                Rain depth {accumulation.rainDepth.toFixed(1)} mm, depth at drain {accumulation.accumulationDepth.toFixed(1)} mm
+                                                            </div>
+                                                            <div
+                                                                className="text-gray-400 text-sm"
+                                                                dangerouslySetInnerHTML={{
+                                                                    __html: `$$${accumulation.description}$$`
+                                                                }}
+                                                            />
+                                                        </div>
+                                                        <div className="text-right">
+                                                            <div className="text-xl font-bold text-cyan-400">
+                                                                {rainPondingResult.isStable ? `${accumulation.load.toFixed(2)} kPa` : "Unstable"}
+                                                            </div>
+                                                            {accumulation === rainPondingResult.governing && (
+                                                                <div className="text-sm text-gray-400">Governs</div>
+                                                            )}
+                                                        </div>
+                                                    </div>
+                                                </div>
+                                            ))}
+                                        </div>
+                                        {rainPondingResult.isStable && rainPondingResult.governing.load > getMaxSnowLoad() && (
+                                            <p className="text-yellow-400 mt-4">
+                                                The rain load exceeds the maximum snow load of {getMaxSnowLoad().toFixed(2)} kPa and governs the roof design load S.
+                                            </p>
+                                        )}
+                                    </div>
+                                )}
+
                                 <div className="flex justify-between mt-8">
                                     <button
-                                        onClick={() => setStep(2)}
+                                        onClick={() => setStep(3)}
                                         className="px-6 py-2 bg-gray-700 text-white rounded-md hover:bg-gray-600 transition-colors"
                                     >
-                                        Back to Parameters
+                                        Back to Obstructions
                                     </button>
                                 </div>
                             </div>
@@ -5,7 +5,77 @@ import {
     MapPinIcon
 } from "@heroicons/react/24/outline";
 
+import { CladdingCoefficientChart } from "~/components/CladdingCoefficientChart";
+import { VelocityPressureProfileChart } from "~/components/VelocityPressureProfileChart";
+import canadianCitiesGeoData from "~/data/canadian_cities_geo_data.json";
 import snowWindLoadsData from "~/data/snow_wind_loads.json";
+import {
+    ACCELERATION_LIMITS,
+    APPURTENANCE_COEFFICIENTS,
+    ASCE_GUST_PRESSURE_RATIO,
+    CLADDING_ELEMENT_TYPES,
+    CLADDING_ZONE_NAMES,
+    GRAVITY,
+    GUST_FACTOR_INTERNAL,
+    GUST_FACTOR_STRUCTURE,
+    HILL_SHAPE_PARAMETERS,
+    WIND_DRIFT_LIMIT,
+    INTERNAL_PRESSURE_COEFFICIENTS,
+    applyInternalPressures,
+    buildAppurtenanceSurfaces,
+    buildCladdingSurfaces,
+    buildFloorLevels,
+    buildFloorLevelsFromElevations,
+    buildLowRiseSurfaces,
+    buildMwfrsLoadCases,
+    buildTornadoLoadResults,
+    buildWindLoadResults,
+    calculateAlongWindForce,
+    calculateBaseOverturning,
+    calculateDynamicGustFactor,
+    calculateEndZoneWidth,
+    calculateInternalPressures,
+    calculateStoreyDrifts,
+    calculateStoreyShears,
+    calculateStoreyWindForces,
+    calculatePeakAcceleration,
+    calculateTopographicFactor,
+    calculateTransitionExposureFactor,
+    compareTornadoToWind,
+    determineInternalPressureCategory,
+    getCladdingRoofCategory,
+    getDynamicProcedureWarnings,
+    getPressureBasis,
+    getRoughFetchRequired,
+    getStaticProcedureWarnings,
+    getTornadoDesign,
+    getWindImportanceFactor,
+    isLowRiseBuilding,
+    isTornadoProneLocation,
+    type Appurtenance,
+    type AppurtenanceType,
+    type CladdingElement,
+    type CladdingElementType,
+    type CladdingZone,
+    type DynamicGustFactor,
+    type DynamicParameters,
+    type HillShape,
+    type InternalPressure,
+    type LowRiseLoadCase,
+    type MwfrsLoadCase,
+    type OpeningDistribution,
+    type PeakAcceleration,
+    type StoreyDrift,
+    type StoreyWindForce,
+    type TopographyParameters,
+    type TornadoComparison,
+    type UpwindSector,
+    type WindLoadResult,
+    type WindPressureParameters,
+    type WindProcedure,
+    type WindSurface,
+    type WindTerrain
+} from "~/utils/wind-loads";
 
 export const meta: MetaFunction = () => {
     return [
@@ -17,14 +87,54 @@ export const meta: MetaFunction = () => {
 interface WindLoadData {
     province: string;
     location: string;
+    elevation: number;
     pw_10: number;
     pw_50: number;
 }
 
+// Coordinates of a climatic data location, matched to the geographic data by name. Names
+// differ in accents, punctuation, "Saint"/"St" and qualifiers such as "(City Hall)".
+const findLocationCoordinates = (location: WindLoadData): { latitude: number; longitude: number } | undefined => {
+    const normalize = (value: string) => value
+        .replace(/\bSainte-/g, "Ste-")
+        .replace(/\bSaint-/g, "St-")
+        .normalize("NFD")
+        .replace(/[\u0300-\u036f]/g, "")
+        .toLowerCase()
+        .replace(/[^a-z0-9]/g, "");
+    const cities = canadianCitiesGeoData.cities.filter(city => city.province_name === location.province);
+    const name = normalize(location.location);
+    const baseName = normalize(location.location.split(/ \(| \//)[0]);
+    return cities.find(city => normalize(city.city_name) === name)
+        ?? cities.find(city => normalize(city.city_name) === baseName)
+        ?? cities.find(city => normalize(city.city_name).startsWith(baseName));
+};
+
+const getTornadoLocation = (location: WindLoadData) => ({ province: location.province, ...findLocationCoordinates(location) });
+
 interface ImportanceFactors {
     category: "low" | "normal" | "high" | "post-disaster";
 }
 
+interface BuildingGeometry {
+    length: number; // m
+    width: number;  // m
+    height: number; // m, mean roof height
+    roofType: "flat" | "gable" | "monoslope";
+    roofSlope: number; // degrees
+    floorSchedule: "equal" | "elevations";
+    storeyHeight: number; // m, typical floor-to-floor height
+    floorElevations: number[]; // m above grade, suspended floors below the roof
+    openingRatio: number; // % of wall area
+    openingDistribution: OpeningDistribution;
+    hasDominantOpening: boolean; // e.g. a loading or hangar door that may be open in a storm
+}
+
+interface SiteParameters {
+    upwind: UpwindSector[]; // from the building outward
+    topography: TopographyParameters;
+}
+
 interface PressureCoefficient {
     surface: string;
     Cp: number;
@@ -32,41 +142,32 @@ interface PressureCoefficient {
     zones: string[];
 }
 
-interface WindLoadResult {
-    id: string;
-    surface: string;
-    pressure: number; // kN/m²
-    force: number; // kN
-    description: string;
-    coefficient: number;
-    area: number;
-}
+const defaultTopography: TopographyParameters = {
+    shape: "flat",
+    H: 30,
+    Lh: 100,
+    x: 0,
+    z: 10
+};
 
+const defaultUpwind: UpwindSector[] = [
+    { id: "site", roughness: "open", distance: 1000 }
+];
 
-const exposureCategories = {
-    A: {
-        name: "Urban/Forest",
-        description: "Dense urban areas, forest",
-        alpha: 0.15,
-        zg: 460
-    },
-    B: {
-        name: "Suburban",
-        description: "Suburban areas, wooded terrain",
-        alpha: 0.20,
-        zg: 370
-    },
-    C: {
+const defaultDynamicParams: DynamicParameters = {
+    naturalFrequency: 1.5,
+    dampingRatio: 0.015,
+    buildingDensity: 180
+};
+
+const terrainTypes: Record<WindTerrain, { name: string; description: string }> = {
+    open: {
         name: "Open",
-        description: "Open terrain with scattered obstructions",
-        alpha: 0.28,
-        zg: 270
+        description: "Level terrain with only scattered buildings, trees or other obstructions, open water or shorelines"
     },
-    D: {
-        name: "Flat Open",
-        description: "Flat, unobstructed areas",
-        alpha: 0.40,
-        zg: 210
+    rough: {
+        name: "Rough",
+        description: "Suburban, urban or wooded terrain extending upwind from the building uninterrupted for at least 1 km or 20 times the building height"
     }
 };
 
@@ -77,23 +178,28 @@ const pressureCoefficients: PressureCoefficient[] = [
     { surface: "Side Wall", Cp: -0.7, description: "Walls parallel to wind", zones: ["4", "5"] },
     { surface: "Flat Roof", Cp: -0.7, description: "Flat or low-slope roof", zones: ["1", "2", "3"] },
     { surface: "Windward Roof", Cp: -0.9, description: "Windward slope of pitched roof", zones: ["1"] },
-    { surface: "Leeward Roof", Cp: -0.5, description: "Leeward slope of pitched roof", zones: ["2"] },
-
-    // Components and Cladding (C&C)
-    { surface: "Wall Corner", Cp: -1.0, description: "Corner regions of walls", zones: ["4", "5"] },
-    { surface: "Wall Interior", Cp: -0.6, description: "Interior regions of walls", zones: ["4", "5"] },
-    { surface: "Roof Corner", Cp: -2.0, description: "Roof corner regions", zones: ["1"] },
-    { surface: "Roof Edge", Cp: -1.2, description: "Roof edge regions", zones: ["2"] },
-    { surface: "Roof Interior", Cp: -0.9, description: "Interior roof regions", zones: ["3"] }
+    { surface: "Leeward Roof", Cp: -0.5, description: "Leeward slope of pitched roof", zones: ["2"] }
+];
+
+// Typical secondary members; tributary area is span × spacing, or the panel area for glazing
+const defaultCladdingElements: CladdingElement[] = [
+    { id: "girt", name: "Girt", type: "girt", zone: "w", tributaryArea: 9 },
+    { id: "purlin", name: "Purlin", type: "purlin", zone: "s", tributaryArea: 11.25 },
+    { id: "deck-fastener", name: "Deck Fastener", type: "fastener", zone: "c", tributaryArea: 0.45 },
+    { id: "glazing", name: "Glazing Panel", type: "glazing", zone: "e", tributaryArea: 3.6 }
 ];
 
+// Lateral stiffness assumed for a storey until the user enters one, kN/mm
+const DEFAULT_STOREY_STIFFNESS = 50;
+
 export default function WindLoadCalculator() {
     const [step, setStep] = useState(1);
     const [selectedProvince, setSelectedProvince] = useState<string>("");
     const [selectedLocation, setSelectedLocation] = useState<WindLoadData | null>(null);
     const [customWind, setCustomWind] = useState({
         location: "",
-        windSpeed: ""
+        q: "",
+        q10: ""
     });
 
     const [buildingGeom, setBuildingGeom] = useState<BuildingGeometry>({
@@ -102,148 +208,409 @@ export default function WindLoadCalculator() {
         height: 12,
         roofType: "flat",
         roofSlope: 0,
-        openingRatio: 15
+        floorSchedule: "equal",
+        storeyHeight: 4,
+        floorElevations: [4, 8],
+        openingRatio: 15,
+        openingDistribution: "uniform",
+        hasDominantOpening: false
     });
 
     const [siteParams, setSiteParams] = useState<SiteParameters>({
-        exposure: "B",
-        topography: "normal",
-        terrainCategory: 2
+        upwind: defaultUpwind,
+        topography: defaultTopography
+    });
+
+    const [importanceFactors, setImportanceFactors] = useState<ImportanceFactors>({
+        category: "normal"
     });
 
     const [analysisType, setAnalysisType] = useState<"mwfrs" | "cc">("mwfrs");
+    const [procedure, setProcedure] = useState<WindProcedure>("static");
+    const [dynamicParams, setDynamicParams] = useState<DynamicParameters>(defaultDynamicParams);
+    const [dynamicResponse, setDynamicResponse] = useState<{ gust: DynamicGustFactor; acceleration: PeakAcceleration } | null>(null);
+    const [appurtenances, setAppurtenances] = useState<Appurtenance[]>([]);
+    const [claddingElements, setCladdingElements] = useState<CladdingElement[]>(defaultCladdingElements);
     const [windResults, setWindResults] = useState<WindLoadResult[]>([]);
+    const [calculatedCladding, setCalculatedCladding] = useState<CladdingElement[]>([]);
+    const [internalPressures, setInternalPressures] = useState<InternalPressure[]>([]);
+    const [storeyForces, setStoreyForces] = useState<StoreyWindForce[]>([]);
+    const [mwfrsLoadCases, setMwfrsLoadCases] = useState<MwfrsLoadCase[]>([]);
+    const [selectedLoadCaseId, setSelectedLoadCaseId] = useState("A-x");
+    const [slsBasis, setSlsBasis] = useState<"importance" | "pw10">("importance");
+    const [storeyStiffness, setStoreyStiffness] = useState<Record<string, number>>({});
+    const [storeyDrifts, setStoreyDrifts] = useState<StoreyDrift[]>([]);
+    const [tornadoRegion, setTornadoRegion] = useState(false);
+    const [tornadoResults, setTornadoResults] = useState<WindLoadResult[]>([]);
+    const [tornadoComparison, setTornadoComparison] = useState<TornadoComparison[]>([]);
     const [showResults, setShowResults] = useState(false);
 
-    const calculateWindPressure = (height: number, windSpeed: number, exposure: keyof typeof exposureCategories): number => {
-        // Simplified wind pressure calculation: q = 0.613 * Kz * Kzt * Kd * V²
-        const exposureData = exposureCategories[exposure];
-
-        // Velocity pressure exposure coefficient (Kz)
-        const Kz = Math.pow(height / 10, 2 * exposureData.alpha);
-
-        // Topographic factor (Kzt) - simplified
-        const Kzt = siteParams.topography === "normal" ? 1.0 : 1.15;
-
-        // Wind directionality factor (Kd)
-        const Kd = 0.85;
-
-        // Velocity pressure in Pa, convert to kN/m²
-        const q = 0.613 * Kz * Kzt * Kd * Math.pow(windSpeed, 2) / 1000;
-
-        return q;
+    // Reference velocity pressure q (1-in-50), kPa
+    const getReferencePressure = (): number => {
+        return selectedLocation ? selectedLocation.pw_50 : parseFloat(customWind.q);
     };
 
-    const calculateWindLoads = () => {
-        if (!selectedLocation && !customWind.windSpeed) return;
-
-        const windSpeed = selectedLocation ? selectedLocation.windSpeed : parseFloat(customWind.windSpeed);
-        const qz = calculateWindPressure(buildingGeom.height, windSpeed, siteParams.exposure);
+    // Reference velocity pressure q (1-in-10), kPa; NaN when a custom site leaves it blank
+    const getServiceabilityPressure = (): number => {
+        return selectedLocation ? selectedLocation.pw_10 : parseFloat(customWind.q10);
+    };
 
-        const results: WindLoadResult[] = [];
+    const getMwfrsSurfaces = (): WindSurface[] => {
+        const { length, width, height } = buildingGeom;
+        const wallArea = width * height;
+        const endWallArea = length * height;
+        const roofArea = length * width;
+        const coefficient = (surface: string) => pressureCoefficients.find(c => c.surface === surface)!;
 
-        if (analysisType === "mwfrs") {
-            // Main Wind Force Resisting System
-            const wallArea = buildingGeom.width * buildingGeom.height;
-            const endWallArea = buildingGeom.length * buildingGeom.height;
-            const roofArea = buildingGeom.length * buildingGeom.width;
-
-            // Windward wall
-            const windwardPressure = qz * 0.8;
-            results.push({
+        // Leeward and side walls take Ce at half the building height
+        const surfaces: WindSurface[] = [
+            {
                 id: "windward",
                 surface: "Windward Wall",
-                pressure: windwardPressure,
-                force: windwardPressure * wallArea,
-                description: `Wind pressure on ${buildingGeom.width}m × ${buildingGeom.height}m wall`,
-                coefficient: 0.8,
-                area: wallArea
-            });
-
-            // Leeward wall
-            const leewardPressure = qz * (-0.5);
-            results.push({
+                description: `Wind pressure on ${width}m × ${height}m wall`,
+                Cp: coefficient("Windward Wall").Cp,
+                Cg: GUST_FACTOR_STRUCTURE,
+                area: wallArea,
+                referenceHeight: height,
+                face: "windward"
+            },
+            {
                 id: "leeward",
                 surface: "Leeward Wall",
-                pressure: leewardPressure,
-                force: leewardPressure * wallArea,
-                description: `Suction on opposite ${buildingGeom.width}m × ${buildingGeom.height}m wall`,
-                coefficient: -0.5,
-                area: wallArea
-            });
-
-            // Side walls
-            const sidePressure = qz * (-0.7);
-            results.push({
+                description: `Suction on opposite ${width}m × ${height}m wall`,
+                Cp: coefficient("Leeward Wall").Cp,
+                Cg: GUST_FACTOR_STRUCTURE,
+                area: wallArea,
+                referenceHeight: height / 2,
+                face: "leeward"
+            },
+            {
                 id: "sidewall1",
                 surface: "Side Wall 1",
-                pressure: sidePressure,
-                force: sidePressure * endWallArea,
-                description: `Suction on ${buildingGeom.length}m × ${buildingGeom.height}m side wall`,
-                coefficient: -0.7,
-                area: endWallArea
-            });
-
-            results.push({
+                description: `Suction on ${length}m × ${height}m side wall`,
+                Cp: coefficient("Side Wall").Cp,
+                Cg: GUST_FACTOR_STRUCTURE,
+                area: endWallArea,
+                referenceHeight: height / 2,
+                face: "side"
+            },
+            {
                 id: "sidewall2",
                 surface: "Side Wall 2",
-                pressure: sidePressure,
-                force: sidePressure * endWallArea,
-                description: `Suction on ${buildingGeom.length}m × ${buildingGeom.height}m side wall`,
-                coefficient: -0.7,
-                area: endWallArea
-            });
+                description: `Suction on ${length}m × ${height}m side wall`,
+                Cp: coefficient("Side Wall").Cp,
+                Cg: GUST_FACTOR_STRUCTURE,
+                area: endWallArea,
+                referenceHeight: height / 2,
+                face: "side"
+            }
+        ];
 
-            // Roof
-            const roofCp = buildingGeom.roofType === "flat" ? -0.7 : -0.9;
-            const roofPressure = qz * roofCp;
-            results.push({
+        if (buildingGeom.roofType === "flat") {
+            surfaces.push({
                 id: "roof",
-                surface: buildingGeom.roofType === "flat" ? "Flat Roof" : "Roof",
-                pressure: roofPressure,
-                force: roofPressure * roofArea,
-                description: `${buildingGeom.roofType} roof pressure on ${buildingGeom.length}m × ${buildingGeom.width}m area`,
-                coefficient: roofCp,
-                area: roofArea
+                surface: "Flat Roof",
+                description: `Flat roof suction on ${length}m × ${width}m area`,
+                Cp: coefficient("Flat Roof").Cp,
+                Cg: GUST_FACTOR_STRUCTURE,
+                area: roofArea,
+                referenceHeight: height,
+                face: "roof"
             });
+        } else {
+            surfaces.push(
+                {
+                    id: "roof-windward",
+                    surface: "Windward Roof",
+                    description: `${buildingGeom.roofSlope}° ${buildingGeom.roofType} roof, windward half of ${length}m × ${width}m`,
+                    Cp: coefficient("Windward Roof").Cp,
+                    Cg: GUST_FACTOR_STRUCTURE,
+                    area: roofArea / 2,
+                    referenceHeight: height,
+                    face: "roof"
+                },
+                {
+                    id: "roof-leeward",
+                    surface: "Leeward Roof",
+                    description: `${buildingGeom.roofSlope}° ${buildingGeom.roofType} roof, leeward half of ${length}m × ${width}m`,
+                    Cp: coefficient("Leeward Roof").Cp,
+                    Cg: GUST_FACTOR_STRUCTURE,
+                    area: roofArea / 2,
+                    referenceHeight: height,
+                    face: "roof"
+                }
+            );
+        }
+
+        return surfaces;
+    };
+
+    const createElementId = (): string => Date.now().toString() + Math.random().toString(36).substr(2, 9);
+
+    const addCladdingElement = () => {
+        setCladdingElements(prev => [...prev, {
+            id: createElementId(),
+            name: `Element ${prev.length + 1}`,
+            type: "fastener",
+            zone: "r",
+            tributaryArea: 1
+        }]);
+    };
+
+    const updateCladdingElement = (id: string, changes: Partial<CladdingElement>) => {
+        setCladdingElements(prev => prev.map(element => element.id === id ? { ...element, ...changes } : element));
+    };
 
+    const removeCladdingElement = (id: string) => {
+        setCladdingElements(prev => prev.filter(element => element.id !== id));
+    };
+
+    const addAppurtenance = () => {
+        setAppurtenances(prev => [...prev, {
+            id: createElementId(),
+            name: `Parapet ${prev.length + 1}`,
+            type: "parapet",
+            length: buildingGeom.length,
+            height: 1.0,
+            depth: 2.0,
+            elevation: buildingGeom.height
+        }]);
+    };
+
+    const updateAppurtenance = (id: string, changes: Partial<Appurtenance>) => {
+        setAppurtenances(prev => prev.map(item => item.id === id ? { ...item, ...changes } : item));
+    };
+
+    const removeAppurtenance = (id: string) => {
+        setAppurtenances(prev => prev.filter(item => item.id !== id));
+    };
+
+    const addUpwindSector = () => {
+        setSiteParams(prev => ({
+            ...prev,
+            upwind: [...prev.upwind, {
+                id: createElementId(),
+                roughness: prev.upwind[prev.upwind.length - 1]?.roughness === "open" ? "rough" : "open",
+                distance: 1000
+            }]
+        }));
+    };
+
+    const updateUpwindSector = (id: string, changes: Partial<UpwindSector>) => {
+        setSiteParams(prev => ({
+            ...prev,
+            upwind: prev.upwind.map(sector => sector.id === id ? { ...sector, ...changes } : sector)
+        }));
+    };
+
+    const removeUpwindSector = (id: string) => {
+        setSiteParams(prev => ({ ...prev, upwind: prev.upwind.filter(sector => sector.id !== id) }));
+    };
+
+    const getPressureParameters = (): WindPressureParameters => ({
+        q: getReferencePressure(),
+        importance: importanceFactors.category,
+        terrain: siteTerrain,
+        Ct: topographicFactor.Ct,
+        procedure: isDynamic ? "dynamic" : "static",
+        fetch: siteParams.upwind,
+        q10: usesServiceabilityPressure ? getServiceabilityPressure() : undefined
+    });
+
+    const calculateWindLoads = () => {
+        if (!selectedLocation && !customWind.q) return;
+
+        const pressureParams = getPressureParameters();
+
+        // The dynamic gust factor replaces Cg = 2.0 on every MWFRS surface
+        let response: { gust: DynamicGustFactor; acceleration: PeakAcceleration } | null = null;
+        if (isDynamic) {
+            const gust = calculateDynamicGustFactor(pressureParams, buildingGeom, dynamicParams);
+            response = {
+                gust,
+                acceleration: calculatePeakAcceleration(pressureParams, { ...buildingGeom, depth: buildingGeom.length }, dynamicParams, gust)
+            };
+        }
+
+        const mwfrsSurfaces = response
+            ? getMwfrsSurfaces().map(surface => ({ ...surface, Cg: response.gust.Cg }))
+            : getMwfrsSurfaces();
+        const surfaces = analysisType === "cc"
+            ? buildCladdingSurfaces(claddingElements, claddingCategory, buildingGeom.height)
+            : !response && isLowRise
+                ? [...buildLowRiseSurfaces(buildingGeom, "A"), ...buildLowRiseSurfaces(buildingGeom, "B")]
+                : mwfrsSurfaces;
+
+        const internal = calculateInternalPressures(pressureParams, internalCategory.category, buildingGeom.height);
+
+        setInternalPressures(internal);
+        setDynamicResponse(response);
+        // Floor-by-floor resultants for the lateral model, from the same wall surfaces as the
+        // pressures: low-rise Case B runs along the ridge (x) and Case A across it (y)
+        if (analysisType === "mwfrs") {
+            const storeySurfaces = !response && isLowRise
+                ? { x: buildLowRiseSurfaces(buildingGeom, "B"), y: buildLowRiseSurfaces(buildingGeom, "A") }
+                : { x: mwfrsSurfaces, y: mwfrsSurfaces };
+            const storeys = calculateStoreyWindForces(pressureParams, buildingGeom, floorLevels, storeySurfaces);
+            setStoreyForces(storeys);
+            setMwfrsLoadCases(buildMwfrsLoadCases(storeys, buildingGeom));
+
+            // Drift is a serviceability check, so the shears come from SLS floor forces
+            const slsStoreys = calculateStoreyWindForces(pressureParams, buildingGeom, floorLevels, storeySurfaces, "sls");
+            setStoreyDrifts(calculateStoreyDrifts(
+                calculateStoreyShears(slsStoreys),
+                floorLevels.map(floor => storeyStiffness[floor.level] ?? DEFAULT_STOREY_STIFFNESS)
+            ));
         } else {
-            // Components and Cladding
-            const effectiveArea = 10; // m² - typical window/panel size
-
-            pressureCoefficients.slice(6).forEach((coeff, index) => {
-                const pressure = qz * coeff.Cp;
-                results.push({
-                    id: `cc_${index}`,
-                    surface: coeff.surface,
-                    pressure,
-                    force: pressure * effectiveArea,
-                    description: `${coeff.description} (${effectiveArea}m² effective area)`,
-                    coefficient: coeff.Cp,
-                    area: effectiveArea
-                });
-            });
+            setStoreyForces([]);
+            setMwfrsLoadCases([]);
+            setStoreyDrifts([]);
         }
 
-        setWindResults(results);
+        // Tornado loads act on the main structure, surface by surface with Cp, and are weighed
+        // against wind on the same surfaces even when the low-rise zones are reported
+        const tornado = tornadoDesign && analysisType === "mwfrs"
+            ? buildTornadoLoadResults(getMwfrsSurfaces(), tornadoDesign, internalCategory.category)
+            : [];
+        setTornadoResults(tornado);
+        setTornadoComparison(compareTornadoToWind(buildWindLoadResults(mwfrsSurfaces, pressureParams), tornado));
+        // Appurtenance coefficients already act across both faces, so no internal pressure applies
+        setCalculatedCladding(analysisType === "cc" ? claddingElements : []);
+        setWindResults([
+            ...applyInternalPressures(buildWindLoadResults(surfaces, pressureParams), internal),
+            ...(appurtenances.length > 0 ? buildWindLoadResults(buildAppurtenanceSurfaces(appurtenances, claddingCategory), pressureParams) : [])
+        ]);
         setShowResults(true);
     };
 
+    // Parapets, canopies and rooftop units are reported on their own
+    const buildingResults = windResults.filter(r => !r.appurtenanceId);
+    const appurtenanceResults = windResults.filter(r => r.appurtenanceId);
+
     const getMaxPressure = (): number => {
-        return Math.max(...windResults.map(r => Math.abs(r.pressure)));
+        return Math.max(...buildingResults.filter(r => r.designCase === "uls").map(r => Math.abs(r.pressure)));
     };
 
     const getTotalWindForce = (): number => {
-        // For MWFRS, sum windward and leeward (both act in same direction)
+        // For MWFRS, sum windward and leeward (both act in same direction), taking the governing load case
         if (analysisType === "mwfrs") {
-            const windward = windResults.find(r => r.id === "windward");
-            const leeward = windResults.find(r => r.id === "leeward");
-            return (windward?.force || 0) + Math.abs(leeward?.force || 0);
+            const ulsResults = buildingResults.filter(r => r.designCase === "uls");
+            return Math.max(...getLoadCases().map(loadCase => calculateAlongWindForce(ulsResults.filter(r => r.loadCase === loadCase))));
         } else {
-            return Math.max(...windResults.map(r => Math.abs(r.force)));
+            return Math.max(...buildingResults.filter(r => r.designCase === "uls").map(r => Math.abs(r.force)));
         }
     };
 
+    const isDynamic = analysisType === "mwfrs" && procedure === "dynamic";
+    const usesServiceabilityPressure = slsBasis === "pw10" && Number.isFinite(getServiceabilityPressure());
+    const floorLevels = buildingGeom.floorSchedule === "equal"
+        ? buildFloorLevels(buildingGeom.height, buildingGeom.storeyHeight)
+        : buildFloorLevelsFromElevations(buildingGeom.floorElevations, buildingGeom.height);
+    const isLowRise = !isDynamic && isLowRiseBuilding(buildingGeom.height, buildingGeom.length, buildingGeom.width);
+    const staticWarnings = getStaticProcedureWarnings(
+        buildingGeom.height,
+        Math.min(buildingGeom.length, buildingGeom.width),
+        dynamicParams.naturalFrequency
+    );
+    const dynamicWarnings = getDynamicProcedureWarnings(buildingGeom.height, dynamicParams.naturalFrequency);
+    const endZone = calculateEndZoneWidth(buildingGeom.height, buildingGeom.length, buildingGeom.width);
+    const topographicFactor = calculateTopographicFactor(siteParams.topography);
+    const tornadoDesign = getTornadoDesign(importanceFactors.category, tornadoRegion);
+    const siteTerrain: WindTerrain = siteParams.upwind[0]?.roughness ?? "open";
+    const roofExposure = calculateTransitionExposureFactor(buildingGeom.height, siteParams.upwind, buildingGeom.height);
+    const claddingCategory = getCladdingRoofCategory(buildingGeom.roofType, buildingGeom.roofSlope);
+    const internalCategory = determineInternalPressureCategory({
+        openingRatio: buildingGeom.openingRatio,
+        distribution: buildingGeom.openingDistribution,
+        hasDominantOpening: buildingGeom.hasDominantOpening
+    });
+
+    // Low-rise zone results come in two load cases; everything else is a single set
+    const getLoadCases = (): (LowRiseLoadCase | undefined)[] => {
+        return analysisType === "mwfrs" && isLowRise ? ["A", "B"] : [undefined];
+    };
+
+    const resetCalculator = () => {
+        setStep(1);
+        setSelectedProvince("");
+        setSelectedLocation(null);
+        setCustomWind({ location: "", q: "", q10: "" });
+        setBuildingGeom({
+            length: 30,
+            width: 20,
+            height: 12,
+            roofType: "flat",
+            roofSlope: 0,
+            floorSchedule: "equal",
+            storeyHeight: 4,
+            floorElevations: [4, 8],
+            openingRatio: 15,
+            openingDistribution: "uniform",
+            hasDominantOpening: false
+        });
+        setSiteParams({
+            upwind: defaultUpwind,
+            topography: defaultTopography
+        });
+        setImportanceFactors({
+            category: "normal"
+        });
+        setAnalysisType("mwfrs");
+        setProcedure("static");
+        setDynamicParams(defaultDynamicParams);
+        setDynamicResponse(null);
+        setCladdingElements(defaultCladdingElements);
+        setAppurtenances([]);
+        setWindResults([]);
+        setCalculatedCladding([]);
+        setTornadoRegion(false);
+        setStoreyForces([]);
+        setMwfrsLoadCases([]);
+        setSelectedLoadCaseId("A-x");
+        setSlsBasis("importance");
+        setStoreyStiffness({});
+        setStoreyDrifts([]);
+        setTornadoResults([]);
+        setTornadoComparison([]);
+        setInternalPressures([]);
+        setShowResults(false);
+    };
+
+    const renderResultCard = (result: WindLoadResult) => (
+        <div key={result.id} className="bg-gray-800 rounded-lg p-6">
+            <div className="flex justify-between items-start mb-2">
+                <div>
+                    <h4 className="text-lg font-semibold text-white">{result.surface}</h4>
+                    {result.nonNbc && (
+                        <p className="text-yellow-400 text-sm">Non-NBC: ASCE 7-16 coefficients, Cg = {ASCE_GUST_PRESSURE_RATIO} for the gust to hourly-mean pressure ratio</p>
+                    )}
+                    <p className="text-gray-400 text-sm">{result.description}</p>
+                </div>
+                <div className="text-right">
+                    <div className={`text-2xl font-bold ${result.designCase === "uls" ? "text-orange-500" : "text-blue-400"}`}>
+                        {result.pressure.toFixed(3)} kPa
+                    </div>
+                    <div className="text-sm text-gray-400">
+                        {result.force.toFixed(1)} kN over {result.area.toFixed(1)} m²
+                    </div>
+                    {result.overturning !== undefined && (
+                        <div className="text-sm text-gray-300">
+                            M = {result.overturning.toFixed(1)} kN·m
+                        </div>
+                    )}
+                    {result.netPositive !== undefined && result.netNegative !== undefined && (
+                        <div className="text-sm text-gray-300">
+                            Net +{result.netPositive.toFixed(3)} / {result.netNegative.toFixed(3)} kPa
+                        </div>
+                    )}
+                </div>
+            </div>
+            <p className="text-gray-500 text-sm font-mono bg-gray-900 p-2 rounded">
+                {result.calculation}
+            </p>
+        </div>
+    );
+
     // Get unique provinces from the data
     const provinces = Array.from(new Set(snowWindLoadsData.map(item => item.province))).sort();
 
@@ -326,6 +693,8 @@ export default function WindLoadCalculator() {
                                                 onChange={(e) => {
                                                     const location = locationsForProvince.find(loc => loc.location === e.target.value);
                                                     setSelectedLocation(location || null);
+                                                    // Applies until confirmed otherwise when the location cannot be placed on the map
+                                                    setTornadoRegion(location ? isTornadoProneLocation(getTornadoLocation(location)) ?? true : false);
                                                 }}
                                                 className="w-full px-3 py-2 bg-gray-800 border border-gray-700 rounded-md text-white focus:outline-none focus:ring-2 focus:ring-orange-500"
                                             >
@@ -373,26 +742,1168 @@ export default function WindLoadCalculator() {
                                 )}
                             </div>
 
+                            {/* Custom Location Option */}
+                            <div className="mt-8 border-t border-gray-700 pt-8">
+                                <h3 className="text-lg font-semibold text-white mb-4">Or Enter Custom Values</h3>
+                                <div className="grid md:grid-cols-2 gap-4">
+                                    <div>
+                                        <label htmlFor="custom-location-name" className="block text-sm font-medium text-gray-300 mb-2">
+                                            Location Name
+                                        </label>
+                                        <input
+                                            id="custom-location-name"
+                                            type="text"
+                                            value={customWind.location}
+                                            onChange={(e) => setCustomWind({ ...customWind, location: e.target.value })}
+                                            className="w-full px-3 py-2 bg-gray-800 border border-gray-700 rounded-md text-white focus:outline-none focus:ring-2 focus:ring-orange-500"
+                                            placeholder="Enter location name"
+                                        />
+                                    </div>
+                                    <div>
+                                        <label htmlFor="custom-q" className="block text-sm font-medium text-gray-300 mb-2">
+                                            Reference Velocity Pressure (q: 1/50) - kPa
+                                        </label>
+                                        <input
+                                            id="custom-q"
+                                            type="number"
+                                            step="0.01"
+                                            value={customWind.q}
+                                            onChange={(e) => setCustomWind({ ...customWind, q: e.target.value })}
+                                            className="w-full px-3 py-2 bg-gray-800 border border-gray-700 rounded-md text-white focus:outline-none focus:ring-2 focus:ring-orange-500"
+                                            placeholder="0.00"
+                                        />
+                                    </div>
+                                    <div>
+                                        <label htmlFor="custom-q10" className="block text-sm font-medium text-gray-300 mb-2">
+                                            Reference Velocity Pressure (q: 1/10) - kPa
+                                        </label>
+                                        <input
+                                            id="custom-q10"
+                                            type="number"
+                                            step="0.01"
+                                            value={customWind.q10}
+                                            onChange={(e) => setCustomWind({ ...customWind, q10: e.target.value })}
+                                            className="w-full px-3 py-2 bg-gray-800 border border-gray-700 rounded-md text-white focus:outline-none focus:ring-2 focus:ring-orange-500"
+                                            placeholder="Optional, for SLS"
+                                        />
+                                    </div>
+                                </div>
+                            </div>
 
+                            <div className="flex justify-end mt-8">
+                                <button
+                                    onClick={() => setStep(2)}
+                                    disabled={!selectedLocation && !customWind.q}
+                                    className="px-6 py-2 bg-orange-500 text-white rounded-md hover:bg-orange-600 disabled:bg-gray-600 disabled:cursor-not-allowed transition-colors"
+                                >
+                                    Next: Building Parameters
+                                </button>
+                            </div>
                         </div>
                     )}
-                </>)}
 
+                    {/* Step 2: Building and Site Parameters */}
+                    {step === 2 && (
+                        <div className="engineering-card">
+                            <h2 className="text-2xl font-bold text-white dark:text-white light:text-gray-900 mb-6">Building and Site Parameters</h2>
 
+                            <div className="grid md:grid-cols-2 gap-8">
+                                {/* Building Geometry */}
+                                <div className="space-y-4">
+                                    <h3 className="text-lg font-semibold text-white">Building Geometry</h3>
+                                    <div className="grid grid-cols-3 gap-4">
+                                        <div>
+                                            <label htmlFor="building-length" className="block text-sm font-medium text-gray-300 mb-2">
+                                                Length (m)
+                                            </label>
+                                            <input
+                                                id="building-length"
+                                                type="number"
+                                                value={buildingGeom.length}
+                                                onChange={(e) => setBuildingGeom({ ...buildingGeom, length: parseFloat(e.target.value) || 0 })}
+                                                className="w-full px-3 py-2 bg-gray-800 border border-gray-700 rounded-md text-white focus:outline-none focus:ring-2 focus:ring-orange-500"
+                                            />
+                                        </div>
+                                        <div>
+                                            <label htmlFor="building-width" className="block text-sm font-medium text-gray-300 mb-2">
+                                                Width (m)
+                                            </label>
+                                            <input
+                                                id="building-width"
+                                                type="number"
+                                                value={buildingGeom.width}
+                                                onChange={(e) => setBuildingGeom({ ...buildingGeom, width: parseFloat(e.target.value) || 0 })}
+                                                className="w-full px-3 py-2 bg-gray-800 border border-gray-700 rounded-md text-white focus:outline-none focus:ring-2 focus:ring-orange-500"
+                                            />
+                                        </div>
+                                        <div>
+                                            <label htmlFor="building-height" className="block text-sm font-medium text-gray-300 mb-2">
+                                                Height (m)
+                                            </label>
+                                            <input
+                                                id="building-height"
+                                                type="number"
+                                                value={buildingGeom.height}
+                                                onChange={(e) => setBuildingGeom({ ...buildingGeom, height: parseFloat(e.target.value) || 0 })}
+                                                className="w-full px-3 py-2 bg-gray-800 border border-gray-700 rounded-md text-white focus:outline-none focus:ring-2 focus:ring-orange-500"
+                                            />
+                                        </div>
+                                    </div>
+                                    <div className="grid grid-cols-2 gap-4">
+                                        <div>
+                                            <label htmlFor="roof-type" className="block text-sm font-medium text-gray-300 mb-2">
+                                                Roof Type
+                                            </label>
+                                            <select
+                                                id="roof-type"
+                                                value={buildingGeom.roofType}
+                                                onChange={(e) => setBuildingGeom({ ...buildingGeom, roofType: e.target.value as BuildingGeometry["roofType"] })}
+                                                className="w-full px-3 py-2 bg-gray-800 border border-gray-700 rounded-md text-white focus:outline-none focus:ring-2 focus:ring-orange-500"
+                                            >
+                                                <option value="flat">Flat</option>
+                                                <option value="gable">Gable</option>
+                                                <option value="monoslope">Monoslope</option>
+                                            </select>
+                                        </div>
+                                        <div>
+                                            <label htmlFor="roof-slope" className="block text-sm font-medium text-gray-300 mb-2">
+                                                Roof Slope (degrees)
+                                            </label>
+                                            <input
+                                                id="roof-slope"
+                                                type="number"
+                                                value={buildingGeom.roofSlope}
+                                                disabled={buildingGeom.roofType === "flat"}
+                                                onChange={(e) => setBuildingGeom({ ...buildingGeom, roofSlope: parseFloat(e.target.value) || 0 })}
+                                                className="w-full px-3 py-2 bg-gray-800 border border-gray-700 rounded-md text-white focus:outline-none focus:ring-2 focus:ring-orange-500 disabled:opacity-50"
+                                            />
+                                        </div>
+                                    </div>
+                                    <h3 className="text-lg font-semibold text-white pt-2">Floor Schedule</h3>
+                                    <div className="grid grid-cols-2 gap-4">
+                                        <div>
+                                            <label htmlFor="floor-schedule" className="block text-sm font-medium text-gray-300 mb-2">
+                                                Floors
+                                            </label>
+                                            <select
+                                                id="floor-schedule"
+                                                value={buildingGeom.floorSchedule}
+                                                onChange={(e) => setBuildingGeom({ ...buildingGeom, floorSchedule: e.target.value as BuildingGeometry["floorSchedule"] })}
+                                                className="w-full px-3 py-2 bg-gray-800 border border-gray-700 rounded-md text-white focus:outline-none focus:ring-2 focus:ring-orange-500"
+                                            >
+                                                <option value="equal">Equal storey heights</option>
+                                                <option value="elevations">Floor elevations</option>
+                                            </select>
+                                        </div>
+                                        {buildingGeom.floorSchedule === "equal" ? (
+                                            <div>
+                                                <label htmlFor="storey-height" className="block text-sm font-medium text-gray-300 mb-2">
+                                                    Storey Height (m)
+                                                </label>
+                                                <input
+                                                    id="storey-height"
+                                                    type="number"
+                                                    step="0.1"
+                                                    value={buildingGeom.storeyHeight}
+                                                    onChange={(e) => setBuildingGeom({ ...buildingGeom, storeyHeight: parseFloat(e.target.value) || 0 })}
+                                                    className="w-full px-3 py-2 bg-gray-800 border border-gray-700 rounded-md text-white focus:outline-none focus:ring-2 focus:ring-orange-500"
+                                                />
+                                            </div>
+                                        ) : (
+                                            <div className="flex items-end">
+                                                <button
+                                                    onClick={() => setBuildingGeom({
+                                                        ...buildingGeom,
+                                                        floorElevations: [...buildingGeom.floorElevations, (buildingGeom.floorElevations[buildingGeom.floorElevations.length - 1] ?? 0) + buildingGeom.storeyHeight]
+                                                    })}
+                                                    className="px-4 py-2 bg-orange-500 text-white rounded-md hover:bg-orange-600 transition-colors text-sm"
+                                                >
+                                                    Add Floor
+                                                </button>
+                                            </div>
+                                        )}
+                                    </div>
+                                    {buildingGeom.floorSchedule === "elevations" && (
+                                        <div className="grid grid-cols-3 gap-2">
+                                            {buildingGeom.floorElevations.map((elevation, index) => (
+                                                <div key={index} className="flex gap-2">
+                                                    <input
+                                                        aria-label={`Floor ${index + 2} elevation (m)`}
+                                                        type="number"
+                                                        step="0.1"
+                                                        value={elevation}
+                                                        onChange={(e) => setBuildingGeom({
+                                                            ...buildingGeom,
+                                                            floorElevations: buildingGeom.floorElevations.map((z, i) => i === index ? parseFloat(e.target.value) || 0 : z)
+                                                        })}
+                                                        className="w-full px-3 py-2 bg-gray-800 border border-gray-700 rounded-md text-white focus:outline-none focus:ring-2 focus:ring-orange-500"
+                                                    />
+                                                    <button
+                                                        onClick={() => setBuildingGeom({ ...buildingGeom, floorElevations: buildingGeom.floorElevations.filter((_, i) => i !== index) })}
+                                                        className="px-3 py-2 bg-gray-600 text-white rounded-md hover:bg-gray-500 transition-colors text-sm"
+                                                        aria-label={`Remove floor ${index + 2}`}
+                                                    >
+                                                        ×
+                                                    </button>
+                                                </div>
+                                            ))}
+                                        </div>
+                                    )}
+                                    <p className="text-sm text-gray-400">
+                                        {floorLevels.length} level{floorLevels.length === 1 ? "" : "s"} above grade: {floorLevels.map(floor => `${floor.level} at ${floor.elevation.toFixed(2)} m`).join(", ")}.
+                                    </p>
+                                    <h3 className="text-lg font-semibold text-white pt-2">Openings</h3>
+                                    <div className="grid grid-cols-2 gap-4">
+                                        <div>
+                                            <label htmlFor="opening-ratio" className="block text-sm font-medium text-gray-300 mb-2">
+                                                Wall Openings (% of wall area)
+                                            </label>
+                                            <input
+                                                id="opening-ratio"
+                                                type="number"
+                                                step="0.1"
+                                                value={buildingGeom.openingRatio}
+                                                onChange={(e) => setBuildingGeom({ ...buildingGeom, openingRatio: parseFloat(e.target.value) || 0 })}
+                                                className="w-full px-3 py-2 bg-gray-800 border border-gray-700 rounded-md text-white focus:outline-none focus:ring-2 focus:ring-orange-500"
+                                            />
+                                        </div>
+                                        <div>
+                                            <label htmlFor="opening-distribution" className="block text-sm font-medium text-gray-300 mb-2">
+                                                Opening Distribution
+                                            </label>
+                                            <select
+                                                id="opening-distribution"
+                                                value={buildingGeom.openingDistribution}
+                                                onChange={(e) => setBuildingGeom({ ...buildingGeom, openingDistribution: e.target.value as OpeningDistribution })}
+                                                className="w-full px-3 py-2 bg-gray-800 border border-gray-700 rounded-md text-white focus:outline-none focus:ring-2 focus:ring-orange-500"
+                                            >
+                                                <option value="uniform">Uniform on all walls</option>
+                                                <option value="nonuniform">Concentrated on some walls</option>
+                                            </select>
+                                        </div>
+                                    </div>
+                                    <div className="flex items-center">
+                                        <input
+                                            type="checkbox"
+                                            id="dominant-opening"
+                                            checked={buildingGeom.hasDominantOpening}
+                                            onChange={(e) => setBuildingGeom({ ...buildingGeom, hasDominantOpening: e.target.checked })}
+                                            className="h-4 w-4 text-orange-500 focus:ring-orange-500 border-gray-300 rounded"
+                                        />
+                                        <label htmlFor="dominant-opening" className="ml-2 text-sm text-gray-300">
+                                            Dominant opening (loading or hangar door that may be open during a storm)
+                                        </label>
+                                    </div>
+                                    <p className="text-sm text-gray-400">
+                                        Internal pressure Category {internalCategory.category}: {internalCategory.reason}.
+                                        Cpi = {INTERNAL_PRESSURE_COEFFICIENTS[internalCategory.category].min} to {INTERNAL_PRESSURE_COEFFICIENTS[internalCategory.category].max}, Cgi = {GUST_FACTOR_INTERNAL}.
+                                    </p>
+                                </div>
+
+                                {/* Site and Design Parameters */}
+                                <div className="space-y-4">
+                                    <h3 className="text-lg font-semibold text-white">Site and Design Parameters</h3>
+                                    <div>
+                                        <div className="flex justify-between items-center mb-2">
+                                            <span className="block text-sm font-medium text-gray-300">Upwind Terrain (from the building outward)</span>
+                                            <button
+                                                onClick={addUpwindSector}
+                                                className="px-3 py-1 bg-orange-500 text-white rounded-md hover:bg-orange-600 transition-colors text-sm"
+                                            >
+                                                Add Sector
+                                            </button>
+                                        </div>
+                                        <div className="space-y-2">
+                                            {siteParams.upwind.map((sector, index) => (
+                                                <div key={sector.id} className="grid grid-cols-3 gap-2 items-center">
+                                                    <select
+                                                        aria-label={`Sector ${index + 1} roughness`}
+                                                        value={sector.roughness}
+                                                        onChange={(e) => updateUpwindSector(sector.id, { roughness: e.target.value as WindTerrain })}
+                                                        className="w-full px-3 py-2 bg-gray-800 border border-gray-700 rounded-md text-white focus:outline-none focus:ring-2 focus:ring-orange-500"
+                                                    >
+                                                        {(Object.keys(terrainTypes) as WindTerrain[]).map(terrain => (
+                                                            <option key={terrain} value={terrain}>{terrainTypes[terrain].name}</option>
+                                                        ))}
+                                                    </select>
+                                                    {index < siteParams.upwind.length - 1 ? (
+                                                        <input
+                                                            aria-label={`Sector ${index + 1} distance (m)`}
+                                                            type="number"
+                                                            step="50"
+                                                            value={sector.distance}
+                                                            onChange={(e) => updateUpwindSector(sector.id, { distance: parseFloat(e.target.value) || 0 })}
+                                                            className="w-full px-3 py-2 bg-gray-800 border border-gray-700 rounded-md text-white focus:outline-none focus:ring-2 focus:ring-orange-500"
+                                                        />
+                                                    ) : (
+                                                        <span className="text-sm text-gray-400">and beyond</span>
+                                                    )}
+                                                    {siteParams.upwind.length > 1 && (
+                                                        <button
+                                                            onClick={() => removeUpwindSector(sector.id)}
+                                                            className="px-3 py-2 bg-gray-600 text-white rounded-md hover:bg-gray-500 transition-colors text-sm"
+                                                        >
+                                                            Remove
+                                                        </button>
+                                                    )}
+                                                </div>
+                                            ))}
+                                        </div>
+                                        <p className="text-sm text-gray-400 mt-1">
+                                            {terrainTypes[siteTerrain].description}. Rough terrain counts in full once it extends {getRoughFetchRequired(buildingGeom.height).toFixed(0)} m upwind.
+                                        </p>
+                                        <p className="text-sm text-gray-400 mt-1">Ce at roof height: {roofExposure.calculation}</p>
+                                    </div>
+                                    <div>
+                                        <label htmlFor="hill-shape" className="block text-sm font-medium text-gray-300 mb-2">
+                                            Topography
+                                        </label>
+                                        <select
+                                            id="hill-shape"
+                                            value={siteParams.topography.shape}
+                                            onChange={(e) => setSiteParams({ ...siteParams, topography: { ...siteParams.topography, shape: e.target.value as HillShape } })}
+                                            className="w-full px-3 py-2 bg-gray-800 border border-gray-700 rounded-md text-white focus:outline-none focus:ring-2 focus:ring-orange-500"
+                                        >
+                                            <option value="flat">Level terrain</option>
+                                            {(Object.keys(HILL_SHAPE_PARAMETERS) as Exclude<HillShape, "flat">[]).map(shape => (
+                                                <option key={shape} value={shape}>{HILL_SHAPE_PARAMETERS[shape].name}</option>
+                                            ))}
+                                        </select>
+                                        {siteParams.topography.shape !== "flat" && (
+                                            <div className="grid grid-cols-2 gap-4 mt-4">
+                                            <div>
+                                                <label htmlFor="topography-H" className="block text-sm font-medium text-gray-300 mb-2">Hill Height, H (m)</label>
+                                                <input
+                                                    id="topography-H"
+                                                    type="number"
+                                                    step="1"
+                                                    value={siteParams.topography.H}
+                                                    onChange={(e) => setSiteParams({ ...siteParams, topography: { ...siteParams.topography, H: parseFloat(e.target.value) || 0 } })}
+                                                    className="w-full px-3 py-2 bg-gray-800 border border-gray-700 rounded-md text-white focus:outline-none focus:ring-2 focus:ring-orange-500"
+                                                />
+                                            </div>
+                                            <div>
+                                                <label htmlFor="topography-Lh" className="block text-sm font-medium text-gray-300 mb-2">Half-length, Lh (m)</label>
+                                                <input
+                                                    id="topography-Lh"
+                                                    type="number"
+                                                    step="1"
+                                                    value={siteParams.topography.Lh}
+                                                    onChange={(e) => setSiteParams({ ...siteParams, topography: { ...siteParams.topography, Lh: parseFloat(e.target.value) || 0 } })}
+                                                    className="w-full px-3 py-2 bg-gray-800 border border-gray-700 rounded-md text-white focus:outline-none focus:ring-2 focus:ring-orange-500"
+                                                />
+                                            </div>
+                                            <div>
+                                                <label htmlFor="topography-x" className="block text-sm font-medium text-gray-300 mb-2">Distance from Crest, x (m)</label>
+                                                <input
+                                                    id="topography-x"
+                                                    type="number"
+                                                    step="1"
+                                                    value={siteParams.topography.x}
+                                                    onChange={(e) => setSiteParams({ ...siteParams, topography: { ...siteParams.topography, x: parseFloat(e.target.value) || 0 } })}
+                                                    className="w-full px-3 py-2 bg-gray-800 border border-gray-700 rounded-md text-white focus:outline-none focus:ring-2 focus:ring-orange-500"
+                                                />
+                                            </div>
+                                            <div>
+                                                <label htmlFor="topography-z" className="block text-sm font-medium text-gray-300 mb-2">Height above Ground, z (m)</label>
+                                                <input
+                                                    id="topography-z"
+                                                    type="number"
+                                                    step="0.5"
+                                                    value={siteParams.topography.z}
+                                                    onChange={(e) => setSiteParams({ ...siteParams, topography: { ...siteParams.topography, z: parseFloat(e.target.value) || 0 } })}
+                                                    className="w-full px-3 py-2 bg-gray-800 border border-gray-700 rounded-md text-white focus:outline-none focus:ring-2 focus:ring-orange-500"
+                                                />
+                                            </div>
+                                            </div>
+                                        )}
+                                        <p className="text-sm text-gray-400 mt-1">
+                                            {siteParams.topography.shape === "flat"
+                                                ? "Ct = 1.0 unless the building is on a hill or escarpment."
+                                                : `Ct = ${topographicFactor.Ct.toFixed(3)} (ΔS = ${topographicFactor.deltaS.toFixed(3)}). x is negative upwind of the crest; Lh is measured from the crest to where the ground is H/2 below it.`}
+                                        </p>
+                                    </div>
+                                    <div>
+                                        <label htmlFor="importance-category" className="block text-sm font-medium text-gray-300 mb-2">
+                                            Importance Category
+                                        </label>
+                                        <select
+                                            id="importance-category"
+                                            value={importanceFactors.category}
+                                            onChange={(e) => setImportanceFactors({ ...importanceFactors, category: e.target.value as ImportanceFactors["category"] })}
+                                            className="w-full px-3 py-2 bg-gray-800 border border-gray-700 rounded-md text-white focus:outline-none focus:ring-2 focus:ring-orange-500"
+                                        >
+                                            <option value="low">Low</option>
+                                            <option value="normal">Normal</option>
+                                            <option value="high">High</option>
+                                            <option value="post-disaster">Post-disaster</option>
+                                        </select>
+                                        <p className="text-sm text-gray-400 mt-1">
+                                            Per NBC 2020 Table 4.1.7.3: Iw = {getWindImportanceFactor(importanceFactors.category, "uls")} (ULS), {getWindImportanceFactor(importanceFactors.category, "sls")} (SLS).
+                                        </p>
+                                    </div>
+                                    <div>
+                                        <div className="flex items-center">
+                                            <input
+                                                type="checkbox"
+                                                id="tornado-region"
+                                                checked={tornadoRegion}
+                                                onChange={(e) => setTornadoRegion(e.target.checked)}
+                                                className="h-4 w-4 text-orange-500 focus:ring-orange-500 border-gray-300 rounded"
+                                            />
+                                            <label htmlFor="tornado-region" className="ml-2 text-sm text-gray-300">
+                                                Site is within the tornado-prone region
+                                            </label>
+                                        </div>
+                                        <p className="text-sm text-gray-400 mt-1">
+                                            {tornadoDesign
+                                                ? `Tornado check required (NBC 4.1.7.13): ${tornadoDesign.rating}, VT = ${tornadoDesign.speedKmh} km/h = ${tornadoDesign.speed.toFixed(1)} m/s, qT = ${tornadoDesign.q.toFixed(3)} kPa.`
+                                                : tornadoRegion
+                                                    ? "Tornado loads apply only to high and post-disaster importance buildings."
+                                                    : "Tornado loads do not apply outside the tornado-prone region."}
+                                        </p>
+                                        {selectedLocation && (isTornadoProneLocation(getTornadoLocation(selectedLocation)) === null ? (
+                                            <p className="text-sm text-yellow-400 mt-1">
+                                                {selectedLocation.location} could not be placed on the tornado-prone region map, so the region is assumed to apply; confirm against the NBC map and untick the box if it does not.
+                                            </p>
+                                        ) : (
+                                            <p className="text-sm text-gray-400 mt-1">
+                                                {selectedLocation.location} is {isTornadoProneLocation(getTornadoLocation(selectedLocation)) ? "inside" : "outside"} the tornado-prone region as approximated from the NBC map; confirm near its edges.
+                                            </p>
+                                        ))}
+                                    </div>
+                                    <div>
+                                        <label htmlFor="analysis-type" className="block text-sm font-medium text-gray-300 mb-2">
+                                            Analysis Type
+                                        </label>
+                                        <select
+                                            id="analysis-type"
+                                            value={analysisType}
+                                            onChange={(e) => setAnalysisType(e.target.value as "mwfrs" | "cc")}
+                                            className="w-full px-3 py-2 bg-gray-800 border border-gray-700 rounded-md text-white focus:outline-none focus:ring-2 focus:ring-orange-500"
+                                        >
+                                            <option value="mwfrs">Main Wind Force Resisting System ({isDynamic ? "dynamic Cg" : `Cg = ${GUST_FACTOR_STRUCTURE}`})</option>
+                                            <option value="cc">Components and Cladding (Cp·Cg by tributary area)</option>
+                                        </select>
+                                        {analysisType === "mwfrs" && (
+                                            <p className="text-sm text-gray-400 mt-1">
+                                                {isDynamic
+                                                    ? "Dynamic procedure: Cg from the background and resonant response, Cp applied per surface."
+                                                    : isLowRise
+                                                        ? `Low-rise building: Cp·Cg by zone (Figure 4.1.7.6-A), load cases A and B, end-zone width y = ${endZone.y.toFixed(2)} m.`
+                                                        : "Height exceeds 20 m or the least horizontal dimension: Cp and Cg applied per surface."}
+                                            </p>
+                                        )}
+                                    </div>
+                                </div>
+                            </div>
+
+                            {/* Wind Procedure */}
+                            {analysisType === "mwfrs" && (
+                                <div className="bg-gray-800 rounded-lg p-6 mt-8">
+                                    <h3 className="text-lg font-semibold text-white mb-4">Wind Procedure</h3>
+                                    <div className="grid md:grid-cols-4 gap-4 items-end">
+                                        <div>
+                                            <label htmlFor="wind-procedure" className="block text-sm font-medium text-gray-300 mb-2">Procedure</label>
+                                            <select
+                                                id="wind-procedure"
+                                                value={procedure}
+                                                onChange={(e) => setProcedure(e.target.value as WindProcedure)}
+                                                className="w-full px-3 py-2 bg-gray-800 border border-gray-700 rounded-md text-white focus:outline-none focus:ring-2 focus:ring-orange-500"
+                                            >
+                                                <option value="static">Static</option>
+                                                <option value="dynamic">Dynamic</option>
+                                            </select>
+                                        </div>
+                                        <div>
+                                            <label htmlFor="natural-frequency" className="block text-sm font-medium text-gray-300 mb-2">Natural Frequency, nD (Hz)</label>
+                                            <input
+                                                id="natural-frequency"
+                                                type="number"
+                                                step="0.01"
+                                                value={dynamicParams.naturalFrequency}
+                                                onChange={(e) => setDynamicParams({ ...dynamicParams, naturalFrequency: parseFloat(e.target.value) || 0 })}
+                                                className="w-full px-3 py-2 bg-gray-800 border border-gray-700 rounded-md text-white focus:outline-none focus:ring-2 focus:ring-orange-500"
+                                            />
+                                        </div>
+                                        {procedure === "dynamic" && (
+                                            <>
+                                                <div>
+                                                    <label htmlFor="damping-ratio" className="block text-sm font-medium text-gray-300 mb-2">Damping Ratio, β</label>
+                                                    <input
+                                                        id="damping-ratio"
+                                                        type="number"
+                                                        step="0.001"
+                                                        value={dynamicParams.dampingRatio}
+                                                        onChange={(e) => setDynamicParams({ ...dynamicParams, dampingRatio: parseFloat(e.target.value) || 0 })}
+                                                        className="w-full px-3 py-2 bg-gray-800 border border-gray-700 rounded-md text-white focus:outline-none focus:ring-2 focus:ring-orange-500"
+                                                    />
+                                                </div>
+                                                <div>
+                                                    <label htmlFor="building-density" className="block text-sm font-medium text-gray-300 mb-2">Building Density (kg/m³)</label>
+                                                    <input
+                                                        id="building-density"
+                                                        type="number"
+                                                        step="10"
+                                                        value={dynamicParams.buildingDensity}
+                                                        onChange={(e) => setDynamicParams({ ...dynamicParams, buildingDensity: parseFloat(e.target.value) || 0 })}
+                                                        className="w-full px-3 py-2 bg-gray-800 border border-gray-700 rounded-md text-white focus:outline-none focus:ring-2 focus:ring-orange-500"
+                                                    />
+                                                </div>
+                                            </>
+                                        )}
+                                    </div>
+                                    <p className="text-sm text-gray-400 mt-2">
+                                        Without a modal analysis, nD ≈ 46/H = {(46 / buildingGeom.height).toFixed(2)} Hz. Typical damping is 0.01 for steel and 0.015 to 0.02 for concrete.
+                                    </p>
+                                    {procedure === "static" && staticWarnings.length > 0 && (
+                                        <div className="mt-4 text-yellow-400 text-sm">
+                                            <p className="font-semibold">The static procedure does not apply and the dynamic procedure is required:</p>
+                                            <ul className="list-disc list-inside">
+                                                {staticWarnings.map(warning => <li key={warning}>{warning}</li>)}
+                                            </ul>
+                                        </div>
+                                    )}
+                                    {procedure === "dynamic" && dynamicWarnings.length > 0 && (
+                                        <div className="mt-4 text-red-400 text-sm">
+                                            <ul className="list-disc list-inside">
+                                                {dynamicWarnings.map(warning => <li key={warning}>{warning}</li>)}
+                                            </ul>
+                                        </div>
+                                    )}
+                                </div>
+                            )}
+
+                            {/* Serviceability */}
+                            {analysisType === "mwfrs" && (
+                                <div className="bg-gray-800 rounded-lg p-6 mt-8">
+                                    <h3 className="text-lg font-semibold text-white mb-4">Serviceability</h3>
+                                    <div className="grid md:grid-cols-2 gap-4">
+                                        <div>
+                                            <label htmlFor="sls-basis" className="block text-sm font-medium text-gray-300 mb-2">SLS Pressure Basis</label>
+                                            <select
+                                                id="sls-basis"
+                                                value={slsBasis}
+                                                onChange={(e) => setSlsBasis(e.target.value as "importance" | "pw10")}
+                                                className="w-full px-3 py-2 bg-gray-800 border border-gray-700 rounded-md text-white focus:outline-none focus:ring-2 focus:ring-orange-500"
+                                            >
+                                                <option value="importance">1/50 q with SLS importance factor</option>
+                                                <option value="pw10">1/10 q with Iw = 1.0</option>
+                                            </select>
+                                        </div>
+                                        <p className="text-sm text-gray-400 self-end">
+                                            {slsBasis === "importance"
+                                                ? `SLS pressures use q = ${getReferencePressure().toFixed(2)} kPa and Iw = ${getWindImportanceFactor(importanceFactors.category, "sls")}.`
+                                                : usesServiceabilityPressure
+                                                    ? `SLS pressures use q = ${getServiceabilityPressure().toFixed(2)} kPa (1/10) and Iw = 1.0.`
+                                                    : "No 1/10 pressure was entered for this site; SLS falls back to the SLS importance factor."}
+                                        </p>
+                                    </div>
+                                    <h4 className="text-md font-semibold text-white mt-6 mb-2">Storey Lateral Stiffness (kN/mm)</h4>
+                                    <p className="text-sm text-gray-400 mb-4">
+                                        Storey shear per millimetre of inter-storey drift, taken the same in both directions. Drift is checked against h/{Math.round(1 / WIND_DRIFT_LIMIT)}.
+                                    </p>
+                                    <div className="grid md:grid-cols-4 gap-4">
+                                        {floorLevels.map(floor => (
+                                            <div key={floor.level}>
+                                                <label htmlFor={`storey-stiffness-${floor.level}`} className="block text-sm font-medium text-gray-300 mb-2">
+                                                    {floor.level} ({floor.elevation.toFixed(2)} m)
+                                                </label>
+                                                <input
+                                                    id={`storey-stiffness-${floor.level}`}
+                                                    type="number"
+                                                    step="1"
+                                                    value={storeyStiffness[floor.level] ?? DEFAULT_STOREY_STIFFNESS}
+                                                    onChange={(e) => setStoreyStiffness({ ...storeyStiffness, [floor.level]: parseFloat(e.target.value) || 0 })}
+                                                    className="w-full px-3 py-2 bg-gray-800 border border-gray-700 rounded-md text-white focus:outline-none focus:ring-2 focus:ring-orange-500"
+                                                />
+                                            </div>
+                                        ))}
+                                    </div>
+                                </div>
+                            )}
+
+                            {/* Parapets, Canopies and Rooftop Equipment */}
+                            <div className="bg-gray-800 rounded-lg p-6 mt-8">
+                                <div className="flex justify-between items-center mb-4">
+                                    <h3 className="text-lg font-semibold text-white">Parapets, Canopies and Rooftop Equipment</h3>
+                                    <button
+                                        onClick={addAppurtenance}
+                                        className="px-4 py-2 bg-orange-500 text-white rounded-md hover:bg-orange-600 transition-colors text-sm"
+                                    >
+                                        Add Item
+                                    </button>
+                                </div>
+                                <p className="text-sm text-gray-400 mb-4">
+                                    Net Cp·Cg across both faces from the NBC Figure 4.1.7.6 curves for parapets and attached canopies. Free-standing canopies and rooftop units have no NBC coefficients and use ASCE 7-16 values with Cg = {ASCE_GUST_PRESSURE_RATIO}; their results are marked non-NBC. Ce is taken at the top of each item. Height is the canopy projection for canopies; elevation is the base of a parapet, unit or screen, or the canopy height above grade.
+                                </p>
+
+                                {appurtenances.length === 0 ? (
+                                    <p className="text-gray-500 text-sm">No parapets, canopies or rooftop equipment added.</p>
+                                ) : (
+                                    <div className="space-y-4">
+                                        {appurtenances.map((item) => (
+                                            <div key={item.id} className="grid md:grid-cols-7 gap-4 items-end bg-gray-700 rounded-lg p-4">
+                                                <div>
+                                                    <label htmlFor={`appurtenance-name-${item.id}`} className="block text-sm font-medium text-gray-300 mb-2">Name</label>
+                                                    <input
+                                                        id={`appurtenance-name-${item.id}`}
+                                                        type="text"
+                                                        value={item.name}
+                                                        onChange={(e) => updateAppurtenance(item.id, { name: e.target.value })}
+                                                        className="w-full px-3 py-2 bg-gray-800 border border-gray-700 rounded-md text-white focus:outline-none focus:ring-2 focus:ring-orange-500"
+                                                    />
+                                                </div>
+                                                <div>
+                                                    <label htmlFor={`appurtenance-type-${item.id}`} className="block text-sm font-medium text-gray-300 mb-2">Type</label>
+                                                    <select
+                                                        id={`appurtenance-type-${item.id}`}
+                                                        value={item.type}
+                                                        onChange={(e) => updateAppurtenance(item.id, { type: e.target.value as AppurtenanceType })}
+                                                        className="w-full px-3 py-2 bg-gray-800 border border-gray-700 rounded-md text-white focus:outline-none focus:ring-2 focus:ring-orange-500"
+                                                    >
+                                                        {(Object.keys(APPURTENANCE_COEFFICIENTS) as AppurtenanceType[]).map(type => (
+                                                            <option key={type} value={type}>{APPURTENANCE_COEFFICIENTS[type].name}{APPURTENANCE_COEFFICIENTS[type].nbc ? "" : " (non-NBC, ASCE 7-16)"}</option>
+                                                        ))}
+                                                    </select>
+                                                </div>
+                                                <div>
+                                                    <label htmlFor={`appurtenance-length-${item.id}`} className="block text-sm font-medium text-gray-300 mb-2">Length (m)</label>
+                                                    <input
+                                                        id={`appurtenance-length-${item.id}`}
+                                                        type="number"
+                                                        step="0.1"
+                                                        value={item.length}
+                                                        onChange={(e) => updateAppurtenance(item.id, { length: parseFloat(e.target.value) || 0 })}
+                                                        className="w-full px-3 py-2 bg-gray-800 border border-gray-700 rounded-md text-white focus:outline-none focus:ring-2 focus:ring-orange-500"
+                                                    />
+                                                </div>
+                                                <div>
+                                                    <label htmlFor={`appurtenance-height-${item.id}`} className="block text-sm font-medium text-gray-300 mb-2">Height / Projection (m)</label>
+                                                    <input
+                                                        id={`appurtenance-height-${item.id}`}
+                                                        type="number"
+                                                        step="0.1"
+                                                        value={item.height}
+                                                        onChange={(e) => updateAppurtenance(item.id, { height: parseFloat(e.target.value) || 0 })}
+                                                        className="w-full px-3 py-2 bg-gray-800 border border-gray-700 rounded-md text-white focus:outline-none focus:ring-2 focus:ring-orange-500"
+                                                    />
+                                                </div>
+                                                <div>
+                                                    <label htmlFor={`appurtenance-depth-${item.id}`} className="block text-sm font-medium text-gray-300 mb-2">Depth (m)</label>
+                                                    <input
+                                                        id={`appurtenance-depth-${item.id}`}
+                                                        type="number"
+                                                        step="0.1"
+                                                        value={item.depth}
+                                                        onChange={(e) => updateAppurtenance(item.id, { depth: parseFloat(e.target.value) || 0 })}
+                                                        className="w-full px-3 py-2 bg-gray-800 border border-gray-700 rounded-md text-white focus:outline-none focus:ring-2 focus:ring-orange-500"
+                                                    />
+                                                </div>
+                                                <div>
+                                                    <label htmlFor={`appurtenance-elevation-${item.id}`} className="block text-sm font-medium text-gray-300 mb-2">Elevation (m)</label>
+                                                    <input
+                                                        id={`appurtenance-elevation-${item.id}`}
+                                                        type="number"
+                                                        step="0.1"
+                                                        value={item.elevation}
+                                                        onChange={(e) => updateAppurtenance(item.id, { elevation: parseFloat(e.target.value) || 0 })}
+                                                        className="w-full px-3 py-2 bg-gray-800 border border-gray-700 rounded-md text-white focus:outline-none focus:ring-2 focus:ring-orange-500"
+                                                    />
+                                                </div>
+                                                <button
+                                                    onClick={() => removeAppurtenance(item.id)}
+                                                    className="px-4 py-2 bg-gray-600 text-white rounded-md hover:bg-gray-500 transition-colors"
+                                                >
+                                                    Remove
+                                                </button>
+                                            </div>
+                                        ))}
+                                    </div>
+                                )}
+                            </div>
 
+                            {/* Cladding Elements */}
+                            {analysisType === "cc" && (
+                                <div className="bg-gray-800 rounded-lg p-6 mt-8">
+                                    <div className="flex justify-between items-center mb-4">
+                                        <h3 className="text-lg font-semibold text-white">Cladding Elements</h3>
+                                        <button
+                                            onClick={addCladdingElement}
+                                            className="px-4 py-2 bg-orange-500 text-white rounded-md hover:bg-orange-600 transition-colors text-sm"
+                                        >
+                                            Add Element
+                                        </button>
+                                    </div>
+                                    <p className="text-sm text-gray-400 mb-4">
+                                        Girts, purlins, fasteners and glazing panels, each with its own tributary area. Edge and corner zones extend z = {endZone.z.toFixed(2)} m from the building edges.
+                                    </p>
 
+                                    {claddingElements.length === 0 ? (
+                                        <p className="text-gray-500 text-sm">No cladding elements added.</p>
+                                    ) : (
+                                        <div className="space-y-4">
+                                            {claddingElements.map((element) => (
+                                                <div key={element.id} className="grid md:grid-cols-5 gap-4 items-end bg-gray-700 rounded-lg p-4">
+                                                <div>
+                                                    <label htmlFor={`cladding-name-${element.id}`} className="block text-sm font-medium text-gray-300 mb-2">Name</label>
+                                                    <input
+                                                        id={`cladding-name-${element.id}`}
+                                                        type="text"
+                                                        value={element.name}
+                                                        onChange={(e) => updateCladdingElement(element.id, { name: e.target.value })}
+                                                        className="w-full px-3 py-2 bg-gray-800 border border-gray-700 rounded-md text-white focus:outline-none focus:ring-2 focus:ring-orange-500"
+                                                    />
+                                                </div>
+                                                <div>
+                                                    <label htmlFor={`cladding-type-${element.id}`} className="block text-sm font-medium text-gray-300 mb-2">Type</label>
+                                                    <select
+                                                        id={`cladding-type-${element.id}`}
+                                                        value={element.type}
+                                                        onChange={(e) => updateCladdingElement(element.id, { type: e.target.value as CladdingElementType })}
+                                                        className="w-full px-3 py-2 bg-gray-800 border border-gray-700 rounded-md text-white focus:outline-none focus:ring-2 focus:ring-orange-500"
+                                                    >
+                                                        {(Object.keys(CLADDING_ELEMENT_TYPES) as CladdingElementType[]).map(type => (
+                                                            <option key={type} value={type}>{CLADDING_ELEMENT_TYPES[type]}</option>
+                                                        ))}
+                                                    </select>
+                                                </div>
+                                                <div>
+                                                    <label htmlFor={`cladding-zone-${element.id}`} className="block text-sm font-medium text-gray-300 mb-2">Zone</label>
+                                                    <select
+                                                        id={`cladding-zone-${element.id}`}
+                                                        value={element.zone}
+                                                        onChange={(e) => updateCladdingElement(element.id, { zone: e.target.value as CladdingZone })}
+                                                        className="w-full px-3 py-2 bg-gray-800 border border-gray-700 rounded-md text-white focus:outline-none focus:ring-2 focus:ring-orange-500"
+                                                    >
+                                                        {(Object.keys(CLADDING_ZONE_NAMES) as CladdingZone[]).map(zone => (
+                                                            <option key={zone} value={zone}>{zone} - {CLADDING_ZONE_NAMES[zone]}</option>
+                                                        ))}
+                                                    </select>
+                                                </div>
+                                                <div>
+                                                    <label htmlFor={`cladding-area-${element.id}`} className="block text-sm font-medium text-gray-300 mb-2">Tributary Area (m²)</label>
+                                                    <input
+                                                        id={`cladding-area-${element.id}`}
+                                                        type="number"
+                                                        step="0.1"
+                                                        value={element.tributaryArea}
+                                                        onChange={(e) => updateCladdingElement(element.id, { tributaryArea: parseFloat(e.target.value) || 0 })}
+                                                        className="w-full px-3 py-2 bg-gray-800 border border-gray-700 rounded-md text-white focus:outline-none focus:ring-2 focus:ring-orange-500"
+                                                    />
+                                                </div>
+                                                    <button
+                                                        onClick={() => removeCladdingElement(element.id)}
+                                                        className="px-4 py-2 bg-gray-600 text-white rounded-md hover:bg-gray-500 transition-colors"
+                                                    >
+                                                        Remove
+                                                    </button>
+                                                </div>
+                                            ))}
+                                        </div>
+                                    )}
 
+                                    <div className="mt-6">
+                                        <CladdingCoefficientChart roofCategory={claddingCategory} elements={claddingElements} />
+                                    </div>
+                                </div>
+                            )}
 
+                            <div className="flex justify-between mt-8">
+                                <button
+                                    onClick={() => setStep(1)}
+                                    className="px-6 py-2 bg-gray-700 text-white rounded-md hover:bg-gray-600 transition-colors"
+                                >
+                                    Back
+                                </button>
+                                <button
+                                    onClick={() => {
+                                        calculateWindLoads();
+                                        setStep(3);
+                                    }}
+                                    className="px-6 py-2 bg-orange-500 text-white rounded-md hover:bg-orange-600 transition-colors"
+                                >
+                                    Calculate Wind Loads
+                                </button>
+                            </div>
+                        </div>
+                    )}
 
+                    {/* Step 3: Results */}
+                    {step === 3 && showResults && (
+                        <div className="engineering-card">
+                            <div className="flex justify-between items-center mb-6">
+                                <h2 className="text-2xl font-bold text-white dark:text-white light:text-gray-900">Wind Load Results</h2>
+                                <button
+                                    onClick={resetCalculator}
+                                    className="px-4 py-2 bg-gray-700 text-white rounded-md hover:bg-gray-600 transition-colors"
+                                >
+                                    New Calculation
+                                </button>
+                            </div>
 
+                            {/* Summary */}
+                            <div className="grid md:grid-cols-4 gap-4 mb-8">
+                                <div className="bg-gray-800 rounded-lg p-4">
+                                    <div className="text-sm text-gray-400">Reference Pressure, q</div>
+                                    <div className="text-xl font-bold text-white">{getReferencePressure().toFixed(2)} kPa</div>
+                                    <div className="text-sm text-gray-500">{selectedLocation?.location || customWind.location}</div>
+                                </div>
+                                <div className="bg-gray-800 rounded-lg p-4">
+                                    <div className="text-sm text-gray-400">Importance Factor, Iw</div>
+                                    <div className="text-xl font-bold text-white">
+                                        {getWindImportanceFactor(importanceFactors.category, "uls")} / {getPressureBasis(getPressureParameters(), "sls").Iw}
+                                    </div>
+                                    <div className="text-sm text-gray-500">ULS / SLS{usesServiceabilityPressure ? ` (q10 = ${getServiceabilityPressure().toFixed(2)} kPa)` : ""}</div>
+                                </div>
+                                <div className="bg-gray-800 rounded-lg p-4">
+                                    <div className="text-sm text-gray-400">Maximum Pressure (ULS)</div>
+                                    <div className="text-xl font-bold text-orange-500">{getMaxPressure().toFixed(2)} kPa</div>
+                                </div>
+                                <div className="bg-gray-800 rounded-lg p-4">
+                                    <div className="text-sm text-gray-400">{analysisType === "mwfrs" ? "Total Wind Force (ULS)" : "Maximum Element Force (ULS)"}</div>
+                                    <div className="text-xl font-bold text-orange-500">{getTotalWindForce().toFixed(1)} kN</div>
+                                </div>
+                            </div>
 
+                            <div className="bg-gray-800 rounded-lg p-4 mb-8">
+                                <p className="text-gray-300 text-sm font-mono">
+                                    p = Iw · q · Ce · Ct · Cg · Cp — {terrainTypes[siteTerrain].name} terrain{siteParams.upwind.length > 1 ? " with upwind transition" : ""}, Ct = {topographicFactor.Ct.toFixed(3)}
+                                </p>
+                                {siteParams.topography.shape !== "flat" && (
+                                    <p className="text-gray-500 text-sm font-mono bg-gray-900 p-2 rounded mt-2">
+                                        {HILL_SHAPE_PARAMETERS[siteParams.topography.shape].name}, H = {siteParams.topography.H} m, Lh = {siteParams.topography.Lh} m, x = {siteParams.topography.x} m, z = {siteParams.topography.z} m: {topographicFactor.calculation}
+                                    </p>
+                                )}
+                            </div>
 
-            </div>
-        </div>
-    );
+                            {/* Velocity Pressure Profile */}
+                            <div className="bg-gray-800 rounded-lg p-6 mb-8">
+                                <h3 className="text-lg font-semibold text-white mb-2">Velocity Pressure Profile</h3>
+                                <p className="text-gray-400 text-sm mb-4">Iw·q·Ce·Ct from grade to the roof, {roofExposure.calculation}.</p>
+                                <VelocityPressureProfileChart params={getPressureParameters()} buildingHeight={buildingGeom.height} />
+                            </div>
 
+                            {/* Dynamic Response */}
+                            {dynamicResponse && (
+                                <div className="bg-gray-800 rounded-lg p-6 mb-8">
+                                    <h3 className="text-lg font-semibold text-white mb-4">Dynamic Procedure</h3>
+                                    <div className="grid md:grid-cols-4 gap-4 mb-4">
+                                        <div className="bg-gray-700 rounded-lg p-4">
+                                            <div className="text-sm text-gray-400">Gust Effect Factor, Cg</div>
+                                            <div className="text-lg font-semibold text-white">{dynamicResponse.gust.Cg.toFixed(3)}</div>
+                                        </div>
+                                        <div className="bg-gray-700 rounded-lg p-4">
+                                            <div className="text-sm text-gray-400">Peak Factor, gp</div>
+                                            <div className="text-lg font-semibold text-white">{dynamicResponse.gust.gp.toFixed(3)}</div>
+                                        </div>
+                                        <div className="bg-gray-700 rounded-lg p-4">
+                                            <div className="text-sm text-gray-400">Top Deflection (SLS)</div>
+                                            <div className="text-lg font-semibold text-white">{(dynamicResponse.acceleration.deflection * 1000).toFixed(1)} mm</div>
+                                        </div>
+                                        <div className="bg-gray-700 rounded-lg p-4">
+                                            <div className="text-sm text-gray-400">Peak Acceleration</div>
+                                            <div className="text-lg font-semibold text-white">{(dynamicResponse.acceleration.acceleration / GRAVITY * 1000).toFixed(1)} milli-g</div>
+                                        </div>
+                                    </div>
+                                    <p className="text-gray-500 text-sm font-mono bg-gray-900 p-2 rounded mb-2">{dynamicResponse.gust.calculation}</p>
+                                    <p className="text-gray-500 text-sm font-mono bg-gray-900 p-2 rounded mb-4">{dynamicResponse.acceleration.calculation}</p>
+                                    {dynamicResponse.acceleration.acceleration / GRAVITY > ACCELERATION_LIMITS.office ? (
+                                        <p className="text-red-400">Peak acceleration exceeds the {ACCELERATION_LIMITS.office * 1000} milli-g limit for office occupancies.</p>
+                                    ) : dynamicResponse.acceleration.acceleration / GRAVITY > ACCELERATION_LIMITS.residential ? (
+                                        <p className="text-yellow-400">Peak acceleration is within the {ACCELERATION_LIMITS.office * 1000} milli-g office limit but exceeds {ACCELERATION_LIMITS.residential * 1000} milli-g for residential occupancies.</p>
+                                    ) : (
+                                        <p className="text-green-400">Peak acceleration is within the {ACCELERATION_LIMITS.residential * 1000} milli-g limit for residential occupancies.</p>
+                                    )}
+                                </div>
+                            )}
 
+                            {/* Internal Pressure */}
+                            <div className="bg-gray-800 rounded-lg p-6 mb-8">
+                                <h3 className="text-lg font-semibold text-white mb-2">Internal Pressure - Category {internalCategory.category}</h3>
+                                <p className="text-gray-400 text-sm mb-4">
+                                    {INTERNAL_PRESSURE_COEFFICIENTS[internalCategory.category].description}. {internalCategory.reason}.
+                                </p>
+                                <div className="space-y-2">
+                                    {internalPressures.map(pi => (
+                                        <div key={pi.designCase}>
+                                            <span className={`text-sm font-semibold ${pi.designCase === "uls" ? "text-orange-500" : "text-blue-400"}`}>
+                                                {pi.designCase.toUpperCase()}: {pi.min.toFixed(3)} to {pi.max.toFixed(3)} kPa
+                                            </span>
+                                            <p className="text-gray-500 text-sm font-mono bg-gray-900 p-2 rounded mt-1">{pi.calculation}</p>
+                                        </div>
+                                    ))}
+                                </div>
+                            </div>
+
+                            {/* Storey Forces */}
+                            {storeyForces.length > 0 && (
+                                <div className="bg-gray-800 rounded-lg p-6 mb-8 overflow-x-auto">
+                                    <h3 className="text-lg font-semibold text-white mb-2">Storey Forces and Shears (ULS, Case A)</h3>
+                                    <p className="text-gray-400 text-sm mb-4">
+                                        Windward pressure integrated with Ce(z) over each floor&apos;s tributary height, plus leeward suction at Ce(h/2). Fx acts on the {buildingGeom.width} m face, Fy on the {buildingGeom.length} m face.
+                                    </p>
+                                    <table className="w-full text-sm text-left">
+                                        <thead className="text-gray-400 border-b border-gray-700">
+                                            <tr>
+                                                <th className="py-2 pr-4">Level</th>
+                                                <th className="py-2 pr-4">Elevation (m)</th>
+                                                <th className="py-2 pr-4">Fx (kN)</th>
+                                                <th className="py-2 pr-4">Vx (kN)</th>
+                                                <th className="py-2 pr-4">Fy (kN)</th>
+                                                <th className="py-2">Vy (kN)</th>
+                                            </tr>
+                                        </thead>
+                                        <tbody>
+                                            {[...calculateStoreyShears(storeyForces)].reverse().map(storey => (
+                                                <tr key={storey.level} className="border-b border-gray-700 text-gray-300">
+                                                    <td className="py-2 pr-4 text-white">{storey.level}</td>
+                                                    <td className="py-2 pr-4">{storey.elevation.toFixed(2)}</td>
+                                                    <td className="py-2 pr-4">{storey.Fx.toFixed(1)}</td>
+                                                    <td className="py-2 pr-4">{storey.Vx.toFixed(1)}</td>
+                                                    <td className="py-2 pr-4">{storey.Fy.toFixed(1)}</td>
+                                                    <td className="py-2">{storey.Vy.toFixed(1)}</td>
+                                                </tr>
+                                            ))}
+                                        </tbody>
+                                    </table>
+                                    <div className="grid md:grid-cols-2 gap-4 mt-4">
+                                        <div className="bg-gray-700 rounded-lg p-4">
+                                            <div className="text-sm text-gray-400">Base Overturning, wind along x</div>
+                                            <div className="text-lg font-semibold text-orange-500">{calculateBaseOverturning(storeyForces).Mx.toFixed(0)} kN·m</div>
+                                        </div>
+                                        <div className="bg-gray-700 rounded-lg p-4">
+                                            <div className="text-sm text-gray-400">Base Overturning, wind along y</div>
+                                            <div className="text-lg font-semibold text-orange-500">{calculateBaseOverturning(storeyForces).My.toFixed(0)} kN·m</div>
+                                        </div>
+                                    </div>
+                                </div>
+                            )}
+
+                            {/* Serviceability Drift */}
+                            {storeyDrifts.length > 0 && (
+                                <div className="bg-gray-800 rounded-lg p-6 mb-8 overflow-x-auto">
+                                    <div className="flex justify-between items-center mb-2">
+                                        <h3 className="text-lg font-semibold text-white">Inter-storey Drift (SLS)</h3>
+                                        <span className={`text-sm font-semibold ${storeyDrifts.every(storey => storey.passes) ? "text-green-400" : "text-red-400"}`}>
+                                            {storeyDrifts.every(storey => storey.passes)
+                                                ? `All storeys within h/${Math.round(1 / WIND_DRIFT_LIMIT)}`
+                                                : `${storeyDrifts.filter(storey => !storey.passes).length} storey(s) exceed h/${Math.round(1 / WIND_DRIFT_LIMIT)}`}
+                                        </span>
+                                    </div>
+                                    <p className="text-gray-400 text-sm mb-4">
+                                        Δ = V/k from SLS storey shears, {usesServiceabilityPressure ? `1/10 q = ${getServiceabilityPressure().toFixed(2)} kPa with Iw = 1.0` : `1/50 q with Iw = ${getWindImportanceFactor(importanceFactors.category, "sls")}`}.
+                                    </p>
+                                    <table className="w-full text-sm text-left">
+                                        <thead className="text-gray-400 border-b border-gray-700">
+                                            <tr>
+                                                <th className="py-2 pr-4">Level</th>
+                                                <th className="py-2 pr-4">Storey Height (m)</th>
+                                                <th className="py-2 pr-4">k (kN/mm)</th>
+                                                <th className="py-2 pr-4">Δx (mm)</th>
+                                                <th className="py-2 pr-4">Δy (mm)</th>
+                                                <th className="py-2 pr-4">Drift Ratio</th>
+                                                <th className="py-2">Check</th>
+                                            </tr>
+                                        </thead>
+                                        <tbody>
+                                            {[...storeyDrifts].reverse().map(storey => (
+                                                <tr key={storey.level} className="border-b border-gray-700 text-gray-300">
+                                                    <td className="py-2 pr-4 text-white">{storey.level}</td>
+                                                    <td className="py-2 pr-4">{storey.storeyHeight.toFixed(2)}</td>
+                                                    <td className="py-2 pr-4">{storey.stiffness}</td>
+                                                    <td className="py-2 pr-4">{storey.driftX.toFixed(2)}</td>
+                                                    <td className="py-2 pr-4">{storey.driftY.toFixed(2)}</td>
+                                                    <td className="py-2 pr-4">{Number.isFinite(storey.ratio) && storey.ratio > 0 ? `h/${Math.round(1 / storey.ratio)}` : "—"}</td>
+                                                    <td className={`py-2 ${storey.passes ? "text-green-400" : "text-red-400"}`}>{storey.passes ? "OK" : "Exceeds"}</td>
+                                                </tr>
+                                            ))}
+                                        </tbody>
+                                    </table>
+                                </div>
+                            )}
+
+                            {/* MWFRS Load Cases by Floor */}
+                            {mwfrsLoadCases.length > 0 && (
+                                <div className="bg-gray-800 rounded-lg p-6 mb-8">
+                                    <div className="flex justify-between items-center mb-4">
+                                        <h3 className="text-lg font-semibold text-white">MWFRS Load Cases by Floor (ULS)</h3>
+                                        <select
+                                            aria-label="MWFRS load case"
+                                            value={selectedLoadCaseId}
+                                            onChange={(e) => setSelectedLoadCaseId(e.target.value)}
+                                            className="px-3 py-2 bg-gray-700 border border-gray-600 rounded-md text-white focus:outline-none focus:ring-2 focus:ring-orange-500"
+                                        >
+                                            {mwfrsLoadCases.map(loadCase => (
+                                                <option key={loadCase.id} value={loadCase.id}>{loadCase.name}</option>
+                                            ))}
+                                        </select>
+                                    </div>
+                                    {mwfrsLoadCases.filter(loadCase => loadCase.id === selectedLoadCaseId).map(loadCase => (
+                                        <div key={loadCase.id} className="overflow-x-auto">
+                                            <p className="text-gray-400 text-sm mb-4">
+                                                {loadCase.description}. Forces act at each floor; x runs along the {buildingGeom.length} m length and y along the {buildingGeom.width} m width.
+                                            </p>
+                                            <table className="w-full text-sm text-left">
+                                                <thead className="text-gray-400 border-b border-gray-700">
+                                                    <tr>
+                                                        <th className="py-2 pr-4">Level</th>
+                                                        <th className="py-2 pr-4">Elevation (m)</th>
+                                                        <th className="py-2 pr-4">Fx (kN)</th>
+                                                        <th className="py-2 pr-4">Fy (kN)</th>
+                                                        <th className="py-2">Mt (kN·m)</th>
+                                                    </tr>
+                                                </thead>
+                                                <tbody>
+                                                    {[...loadCase.storeys].reverse().map(storey => (
+                                                        <tr key={storey.level} className="border-b border-gray-700 text-gray-300">
+                                                            <td className="py-2 pr-4 text-white">{storey.level}</td>
+                                                            <td className="py-2 pr-4">{storey.elevation.toFixed(2)}</td>
+                                                            <td className="py-2 pr-4">{storey.Fx.toFixed(1)}</td>
+                                                            <td className="py-2 pr-4">{storey.Fy.toFixed(1)}</td>
+                                                            <td className="py-2">{storey.Mt > 0 ? `±${storey.Mt.toFixed(1)}` : "0.0"}</td>
+                                                        </tr>
+                                                    ))}
+                                                    <tr className="font-semibold text-orange-500">
+                                                        <td className="py-2 pr-4">Total</td>
+                                                        <td className="py-2 pr-4"></td>
+                                                        <td className="py-2 pr-4">{loadCase.totalFx.toFixed(1)}</td>
+                                                        <td className="py-2 pr-4">{loadCase.totalFy.toFixed(1)}</td>
+                                                        <td className="py-2">{loadCase.totalMt > 0 ? `±${loadCase.totalMt.toFixed(1)}` : "0.0"}</td>
+                                                    </tr>
+                                                </tbody>
+                                            </table>
+                                        </div>
+                                    ))}
+                                </div>
+                            )}
 
+                            {/* Tornado Check */}
+                            {tornadoDesign && tornadoResults.length > 0 && (
+                                <div className="bg-gray-800 rounded-lg p-6 mb-8">
+                                    <h3 className="text-lg font-semibold text-white mb-2">Tornado Check (NBC 4.1.7.13)</h3>
+                                    <p className="text-gray-400 text-sm mb-4">
+                                        {tornadoDesign.rating} design tornado (NBC Commentary I), VT = {tornadoDesign.speedKmh} km/h = {tornadoDesign.speed.toFixed(1)} m/s, qT = {tornadoDesign.q.toFixed(3)} kPa. p = qT·Cp with Ce = Cg = 1.0, internal pressure Category {internalCategory.category}.
+                                    </p>
+                                    <div className="overflow-x-auto mb-4">
+                                        <table className="w-full text-sm text-left">
+                                            <thead className="text-gray-400 border-b border-gray-700">
+                                                <tr>
+                                                    <th className="py-2 pr-4">Surface</th>
+                                                    <th className="py-2 pr-4">Cp</th>
+                                                    <th className="py-2 pr-4">Wind (ULS, kPa)</th>
+                                                    <th className="py-2 pr-4">Tornado (kPa)</th>
+                                                    <th className="py-2">Governs</th>
+                                                </tr>
+                                            </thead>
+                                            <tbody>
+                                                {tornadoComparison.map(row => {
+                                                    const tornadoGoverns = Math.abs(row.tornado) > Math.abs(row.wind);
+                                                    return (
+                                                        <tr key={row.id} className="border-b border-gray-700 text-gray-300">
+                                                            <td className="py-2 pr-4 text-white">{row.surface}</td>
+                                                            <td className="py-2 pr-4">{row.Cp.toFixed(2)}</td>
+                                                            <td className="py-2 pr-4">{row.wind.toFixed(3)}</td>
+                                                            <td className="py-2 pr-4">{row.tornado.toFixed(3)}</td>
+                                                            <td className={`py-2 ${tornadoGoverns ? "text-red-400" : "text-green-400"}`}>
+                                                                {tornadoGoverns ? "Tornado" : "Wind"}
+                                                            </td>
+                                                        </tr>
+                                                    );
+                                                })}
+                                            </tbody>
+                                        </table>
+                                        {isLowRise && (
+                                            <p className="text-gray-400 text-sm mt-2">
+                                                Both columns use the surface Cp with Cg, not the low-rise Cp·Cg zones shown below.
+                                            </p>
+                                        )}
+                                    </div>
+                                    <div className="grid md:grid-cols-2 gap-4">
+                                        {tornadoResults.map(renderResultCard)}
+                                    </div>
+                                </div>
+                            )}
 
+                            {(["uls", "sls"] as const).map(designCase => (
+                                <div key={designCase} className="mb-8">
+                                    <h3 className={`text-lg font-semibold mb-4 ${designCase === "uls" ? "text-orange-500" : "text-blue-400"}`}>
+                                        {designCase === "uls" ? "Ultimate Limit State (ULS)" : "Serviceability Limit State (SLS)"}
+                                    </h3>
+                                    {analysisType === "cc" && (
+                                        <div className="bg-gray-800 rounded-lg p-6 mb-6 overflow-x-auto">
+                                            <table className="w-full text-sm text-left">
+                                                <thead className="text-gray-400 border-b border-gray-700">
+                                                    <tr>
+                                                        <th className="py-2 pr-4">Element</th>
+                                                        <th className="py-2 pr-4">Zone</th>
+                                                        <th className="py-2 pr-4">Area (m²)</th>
+                                                        <th className="py-2 pr-4">Cp·Cg</th>
+                                                        <th className="py-2 pr-4">External (kPa)</th>
+                                                        <th className="py-2">Net Design (kPa)</th>
+                                                    </tr>
+                                                </thead>
+                                                <tbody>
+                                                    {calculatedCladding.map(element => {
+                                                        const inward = windResults.find(r => r.id === `${element.id}-positive-${designCase}`);
+                                                        const outward = windResults.find(r => r.id === `${element.id}-negative-${designCase}`);
+                                                        if (!inward || !outward) return null;
+
+                                                        return (
+                                                            <tr key={element.id} className="border-b border-gray-700 text-gray-300">
+                                                                <td className="py-2 pr-4 text-white">{element.name}<div className="text-gray-500">{CLADDING_ELEMENT_TYPES[element.type]}</div></td>
+                                                                <td className="py-2 pr-4">{element.zone} - {CLADDING_ZONE_NAMES[element.zone]}</td>
+                                                                <td className="py-2 pr-4">{inward.area.toFixed(2)}</td>
+                                                                <td className="py-2 pr-4">+{inward.coefficient.toFixed(2)} / {outward.coefficient.toFixed(2)}</td>
+                                                                <td className="py-2 pr-4">+{inward.pressure.toFixed(3)} / {outward.pressure.toFixed(3)}</td>
+                                                                <td className={`py-2 font-semibold ${designCase === "uls" ? "text-orange-500" : "text-blue-400"}`}>
+                                                                    +{(inward.netPositive ?? inward.pressure).toFixed(3)} / {(outward.netNegative ?? outward.pressure).toFixed(3)}
+                                                                </td>
+                                                            </tr>
+                                                        );
+                                                    })}
+                                                </tbody>
+                                            </table>
+                                        </div>
+                                    )}
+                                    {getLoadCases().map(loadCase => (
+                                        <div key={loadCase ?? "all"} className="mb-6">
+                                            {loadCase && (
+                                                <h4 className="text-md font-semibold text-white mb-3">
+                                                    Load Case {loadCase}: wind {loadCase === "A" ? "perpendicular" : "parallel"} to ridge
+                                                    <span className="text-gray-400 font-normal ml-2">
+                                                        (net along-wind force {calculateAlongWindForce(buildingResults.filter(r => r.designCase === designCase && r.loadCase === loadCase)).toFixed(1)} kN)
+                                                    </span>
+                                                </h4>
+                                            )}
+                                            <div className="grid md:grid-cols-2 gap-4">
+                                                {buildingResults.filter(result => result.designCase === designCase && result.loadCase === loadCase).map(renderResultCard)}
+                                            </div>
+                                        </div>
+                                    ))}
+                                    {appurtenanceResults.length > 0 && (
+                                        <div className="mb-6">
+                                            <h4 className="text-md font-semibold text-white mb-3">Parapets, Canopies and Rooftop Equipment</h4>
+                                            <div className="grid md:grid-cols-2 gap-4">
+                                                {appurtenanceResults.filter(result => result.designCase === designCase).map(renderResultCard)}
+                                            </div>
+                                        </div>
+                                    )}
+                                </div>
+                            ))}
 
-} 
\ No newline at end of file
+                            <div className="flex justify-between mt-8">
+                                <button
+                                    onClick={() => setStep(2)}
+                                    className="px-6 py-2 bg-gray-700 text-white rounded-md hover:bg-gray-600 transition-colors"
+                                >
+                                    Back to Parameters
+                                </button>
+                            </div>
+                        </div>
+                    )}
+                </>)}
+            </div>
+        </div>
+    );
+}
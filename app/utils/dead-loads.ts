@@ -0,0 +1,115 @@
+// Dead load assemblies built from the material table used by the dead load calculator.
+// Materials in kPa are taken as listed (per-mm entries are multiplied by the thickness);
+// materials in kN/m³ are multiplied by the layer thickness. Assemblies saved in the dead load
+// calculator are kept in the browser so the seismic calculator can reuse them.
+
+import deadLoadsData from '~/data/dead_loads.json';
+
+export interface DeadLoadMaterial {
+  material: string;
+  value: number;
+  units: string;
+  category: string;
+}
+
+// A layer of an assembly; thickness is in mm for kN/m³ and per-mm kPa materials
+export interface AssemblyLayer {
+  material: string;
+  thickness?: number;
+}
+
+export interface DeadLoadAssembly {
+  id: string;
+  name: string;
+  load: number; // kPa
+  description: string;
+}
+
+const materials = deadLoadsData as DeadLoadMaterial[];
+
+export function findDeadLoadMaterial(name: string): DeadLoadMaterial {
+  const material = materials.find(item => item.material === name);
+  if (!material) {
+    throw new Error(`Unknown dead load material: ${name}`);
+  }
+  return material;
+}
+
+export function requiresThickness(material: DeadLoadMaterial): boolean {
+  return material.units === 'kN/m3';
+}
+
+// Load of one layer in kPa; thickness is in mm
+export function calculateLayerLoad(material: DeadLoadMaterial, thickness?: number): number {
+  if (material.units === 'kN/m3') {
+    return material.value * (thickness ?? 0) / 1000;
+  }
+  return /per mm/.test(material.material) && thickness !== undefined
+    ? material.value * thickness
+    : material.value;
+}
+
+// Browser storage for assemblies saved in the dead load calculator
+export const SAVED_ASSEMBLIES_KEY = 'nbc-dead-load-assemblies';
+
+export function parseSavedAssemblies(value: string | null): DeadLoadAssembly[] {
+  if (!value) return [];
+  try {
+    const parsed: unknown = JSON.parse(value);
+    return Array.isArray(parsed)
+      ? parsed.filter((item): item is DeadLoadAssembly => typeof item?.id === 'string' && typeof item?.name === 'string' && typeof item?.load === 'number')
+      : [];
+  } catch {
+    return [];
+  }
+}
+
+function buildAssembly(id: string, name: string, layers: AssemblyLayer[]): DeadLoadAssembly {
+  const load = layers.reduce((sum, layer) => sum + calculateLayerLoad(findDeadLoadMaterial(layer.material), layer.thickness), 0);
+  return {
+    id,
+    name,
+    load,
+    description: layers.map(layer => layer.thickness !== undefined ? `${layer.material} (${layer.thickness} mm)` : layer.material).join(' + ')
+  };
+}
+
+// Typical floor and roof assemblies, offered alongside the saved ones so a new project has
+// something to start from
+export const STANDARD_ASSEMBLIES: DeadLoadAssembly[] = [
+  buildAssembly('concrete-slab', '200 mm concrete slab', [
+    { material: 'Concrete, stone, reinforced', thickness: 200 },
+    { material: 'Vinyl, linoleum or asphalt tile' },
+    { material: 'Suspended steel channel system' },
+    { material: 'Mechanical duct allowance' }
+  ]),
+  buildAssembly('composite-deck', 'Composite steel deck', [
+    { material: 'Steel deck 76 mm deep (Wide-rib -20 ga)' },
+    { material: 'Concrete, stone, reinforced', thickness: 115 },
+    { material: 'Carpeting' },
+    { material: 'Acoustical ﬁberboard' },
+    { material: 'Suspended steel channel system' },
+    { material: 'Mechanical duct allowance' }
+  ]),
+  buildAssembly('wood-joist-floor', 'Wood joist floor', [
+    { material: '38 mm x 235 mm joists at 400 crs' },
+    { material: 'Plywood, 19 mm thick' },
+    { material: 'Hardwood ﬂooring, 22 mm' },
+    { material: 'Gypsum board (per mm thickness)', thickness: 16 }
+  ]),
+  buildAssembly('steel-deck-roof', 'Steel deck roof', [
+    { material: 'Deck, metal, 20 gauge' },
+    { material: 'Insulation, Polystyrene foam (per mm thickness)', thickness: 100 },
+    { material: 'Gypsum sheathing, 13 mm' },
+    { material: 'Waterprooﬁng membrane, Bituminous, gravel-covered' },
+    { material: 'Suspended steel channel system' },
+    { material: 'Mechanical duct allowance' }
+  ]),
+  buildAssembly('wood-roof', 'Wood framed roof', [
+    { material: '38 mm x 235 mm joists at 400 crs' },
+    { material: 'Oriented strand board (per mm thickness)', thickness: 16 },
+    { material: 'Asphalt shingles' },
+    { material: 'Insulation, Fibrous glass (per mm thickness)', thickness: 200 },
+    { material: 'Gypsum board (per mm thickness)', thickness: 16 }
+  ])
+];
@@ -0,0 +1,68 @@
+import { describe, expect, it } from 'vitest';
+import {
+  calculateAccumulationDepth,
+  calculateDrainagePath,
+  calculateRainPonding,
+  type RainPondingParameters
+} from './rain-loads';
+
+// One drain in the middle of a 20 m × 10 m roof; the corners are √(10² + 5²) m away
+const params: RainPondingParameters = {
+  enabled: true,
+  drains: [{ id: 'd1', name: 'Drain 1', x: 10, y: 5 }],
+  slopeToDrains: 1,
+  deflectionStiffness: 0.03924
+};
+const path = Math.hypot(10, 5);
+
+describe('calculateDrainagePath', () => {
+  it('measures the longest path to the nearest drain', () => {
+    expect(calculateDrainagePath(20, 10, params.drains)).toBeCloseTo(path, 6);
+  });
+
+  it('runs across the roof diagonal without drains', () => {
+    expect(calculateDrainagePath(20, 10, [])).toBeCloseTo(Math.hypot(20, 10), 6);
+  });
+});
+
+describe('calculateAccumulationDepth', () => {
+  it('keeps the rain depth on a level roof', () => {
+    expect(calculateAccumulationDepth(50, 0, path)).toBe(50);
+  });
+
+  it('fills a wedge of depth √(2d·sL) at the drain', () => {
+    expect(calculateAccumulationDepth(50, 0.01, 10)).toBeCloseTo(Math.sqrt(2 * 50 * 100), 6);
+  });
+
+  it('floods the whole path to d + sL/2 once the wedge reaches the high point', () => {
+    expect(calculateAccumulationDepth(80, 0.01, 10)).toBeCloseTo(80 + 100 / 2, 6);
+  });
+});
+
+describe('calculateRainPonding', () => {
+  it('amplifies the water depth by 1/(1 − C)', () => {
+    const result = calculateRainPonding({ oneDayRain: 50, Sr: 0.4 }, params, 20, 10);
+    // C = 0.00981 / 0.03924 = 0.25
+    const depth = Math.sqrt(2 * 50 * 0.01 * path * 1000);
+
+    expect(result.stabilityRatio).toBeCloseTo(0.25, 6);
+    expect(result.amplification).toBeCloseTo(4 / 3, 6);
+    expect(result.isSensitive).toBe(false);
+    expect(result.oneDayRain.pondedDepth).toBeCloseTo(depth * 4 / 3, 6);
+    expect(result.oneDayRain.load).toBeCloseTo(0.00981 * depth * 4 / 3, 6);
+    expect(result.governing).toBe(result.oneDayRain);
+  });
+
+  it('spreads Sr over the roof as a depth of Sr/γw', () => {
+    const result = calculateRainPonding({ oneDayRain: 50, Sr: 0.4 }, params, 20, 10);
+    expect(result.rainOnSnow.rainDepth).toBeCloseTo(0.4 / 0.00981, 6);
+  });
+
+  it('reports ponding instability when C reaches 1', () => {
+    const result = calculateRainPonding({ oneDayRain: 50, Sr: 0.4 }, { ...params, deflectionStiffness: 0.005 }, 20, 10);
+
+    expect(result.isStable).toBe(false);
+    expect(result.amplification).toBe(Infinity);
+    expect(result.governing.load).toBe(Infinity);
+  });
+});
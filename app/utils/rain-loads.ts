@@ -0,0 +1,156 @@
+// NBC 2020 Sentence 4.1.6.4 rain loads and ponding on flat and near-flat roofs.
+// Rain is assumed to collect over the horizontal projection of the roof whether or not
+// the drains are working, so the check below treats every drain as blocked.
+
+export const WATER_UNIT_WEIGHT = 0.00981; // kPa per mm of water depth
+
+// Deflection attracting more than a quarter of the water load signals a roof sensitive to ponding
+export const PONDING_STABILITY_LIMIT = 0.25;
+
+export interface RoofDrain {
+  id: string;
+  name: string;
+  x: number; // m, along the roof length from the reference corner
+  y: number; // m, along the roof width from the reference corner
+}
+
+export interface RainPondingParameters {
+  enabled: boolean;
+  drains: RoofDrain[];
+  slopeToDrains: number;       // %, fall of the roof surface towards the drains
+  deflectionStiffness: number; // kPa of uniform load per mm of roof deflection
+}
+
+// Climatic rain data for the selected location (NBC Appendix C)
+export interface RainClimateData {
+  oneDayRain: number; // mm, 1-in-50 one-day rainfall
+  Sr: number;         // kPa, associated rain load used with snow
+}
+
+export interface RainAccumulation {
+  name: string;
+  rainDepth: number;         // mm of water spread over the roof
+  accumulationDepth: number; // mm at the drain before deflection
+  pondedDepth: number;       // mm at the drain including deflection
+  load: number;              // kPa
+  description: string;
+}
+
+export interface RainPondingResult {
+  drainagePath: number;   // m, longest flow path to the nearest drain
+  roofRise: number;       // mm, height of the high point above the drain
+  stabilityRatio: number; // water load gained per unit of deflection load
+  amplification: number;
+  isStable: boolean;
+  isSensitive: boolean;
+  oneDayRain: RainAccumulation;
+  rainOnSnow: RainAccumulation;
+  governing: RainAccumulation;
+}
+
+// Longest distance from any point of the roof to its nearest drain, sampled on a plan grid.
+// Without drains, water has to travel across the full roof diagonal to reach an edge.
+export function calculateDrainagePath(length: number, width: number, drains: RoofDrain[], divisions = 40): number {
+  if (drains.length === 0) return Math.hypot(length, width);
+
+  let longest = 0;
+  for (let i = 0; i <= divisions; i++) {
+    for (let j = 0; j <= divisions; j++) {
+      const x = (length * i) / divisions;
+      const y = (width * j) / divisions;
+      const nearest = Math.min(...drains.map(drain => Math.hypot(x - drain.x, y - drain.y)));
+      longest = Math.max(longest, nearest);
+    }
+  }
+  return longest;
+}
+
+// Depth of water at a blocked drain when a uniform depth d of rain runs down a roof
+// falling at slope s over the drainage path L. The water first fills a wedge at the drain;
+// once the wedge reaches the high point the whole path is flooded and the surface rises evenly.
+export function calculateAccumulationDepth(rainDepth: number, slope: number, drainagePath: number): number {
+  const rise = slope * drainagePath * 1000; // mm
+  if (rise <= 0) return rainDepth;
+
+  const wedgeDepth = Math.sqrt(2 * rainDepth * rise);
+  return wedgeDepth <= rise ? wedgeDepth : rainDepth + rise / 2;
+}
+
+// Rain load for one source of water, amplified by the additional water drawn in as the roof deflects
+function buildRainAccumulation(
+  name: string,
+  source: string,
+  rainDepth: number,
+  slope: number,
+  drainagePath: number,
+  amplification: number,
+  isStable: boolean
+): RainAccumulation {
+  const accumulationDepth = calculateAccumulationDepth(rainDepth, slope, drainagePath);
+  const pondedDepth = isStable ? accumulationDepth * amplification : Infinity;
+  const load = pondedDepth * WATER_UNIT_WEIGHT;
+  const rise = slope * drainagePath * 1000;
+  const accumulation = `${source}, \\quad ${rise <= 0
+    ? `d_a = d = ${rainDepth.toFixed(1)} \\text{ mm}`
+    : accumulationDepth < rise
+      ? `d_a = \\sqrt{2 d \\, s L} = \\sqrt{2 \\times ${rainDepth.toFixed(1)} \\times ${rise.toFixed(1)}} = ${accumulationDepth.toFixed(1)} \\text{ mm}`
+      : `d_a = d + \\frac{s L}{2} = ${rainDepth.toFixed(1)} + \\frac{${rise.toFixed(1)}}{2} = ${accumulationDepth.toFixed(1)} \\text{ mm}`}`;
+
+  return {
+    name,
+    rainDepth,
+    accumulationDepth,
+    pondedDepth,
+    load,
+    description: isStable
+      ? `${accumulation}, \\quad R = \\gamma_w \\frac{d_a}{1 - C} = 0.00981 \\times ${accumulationDepth.toFixed(1)} \\times ${amplification.toFixed(3)} = ${load.toFixed(2)} \\text{ kPa}`
+      : `${accumulation}, \\quad C \\geq 1 \\text{ (ponding instability)}`
+  };
+}
+
+export function calculateRainPonding(
+  climate: RainClimateData,
+  params: RainPondingParameters,
+  length: number,
+  width: number
+): RainPondingResult {
+  const slope = params.slopeToDrains / 100;
+  const drainagePath = calculateDrainagePath(length, width, params.drains);
+  const stabilityRatio = params.deflectionStiffness > 0 ? WATER_UNIT_WEIGHT / params.deflectionStiffness : Infinity;
+  const isStable = stabilityRatio < 1;
+  const amplification = isStable ? 1 / (1 - stabilityRatio) : Infinity;
+
+  const oneDayRain = buildRainAccumulation(
+    'One-day Rainfall',
+    `d = ${climate.oneDayRain.toFixed(1)} \\text{ mm}`,
+    climate.oneDayRain,
+    slope,
+    drainagePath,
+    amplification,
+    isStable
+  );
+  // Sr is the rain part of the snow load S = Is[Ss(CbCwCsCa) + Sr] in Sentence 4.1.6.2(1),
+  // tabulated in Appendix C as a load of water in kPa, so it spreads over the roof as a
+  // depth Sr/γw and drains to the same blocked drains as rain under Sentence 4.1.6.4(1)
+  const rainOnSnow = buildRainAccumulation(
+    'Rain on Snow (Sr)',
+    `d = \\frac{S_r}{\\gamma_w} = \\frac{${climate.Sr}}{0.00981} = ${(climate.Sr / WATER_UNIT_WEIGHT).toFixed(1)} \\text{ mm}`,
+    climate.Sr / WATER_UNIT_WEIGHT,
+    slope,
+    drainagePath,
+    amplification,
+    isStable
+  );
+
+  return {
+    drainagePath,
+    roofRise: slope * drainagePath * 1000,
+    stabilityRatio,
+    amplification,
+    isStable,
+    isSensitive: stabilityRatio > PONDING_STABILITY_LIMIT,
+    oneDayRain,
+    rainOnSnow,
+    governing: oneDayRain.load >= rainOnSnow.load ? oneDayRain : rainOnSnow
+  };
+}
@@ -0,0 +1,218 @@
+import { describe, expect, it } from 'vitest';
+import type { SeismicHazardData } from './seismic-api';
+import {
+  assembleStoreyWeights,
+  buildDesignSpectrum,
+  calculateDesignSpectralAcceleration,
+  calculateEmpiricalPeriod,
+  calculateHigherModeFactors,
+  calculateTopForce,
+  distributeSeismicForces,
+  getDesignSpectrumWarnings,
+  getDesignPeriod,
+  getHazardSpectrum,
+  getStoreyOverturningFactor
+} from './seismic-loads';
+
+// S(0.2)/S(5.0) = 10, a third of the way from the 5 row to the 20 row of Table 4.1.8.11
+const hazard: SeismicHazardData = {
+  location: 'Test site',
+  latitude: 49.28,
+  longitude: -123.12,
+  pga: 0.4,
+  sa0p2: 1.0,
+  sa0p5: 0.8,
+  sa1p0: 0.5,
+  sa2p0: 0.3,
+  sa5p0: 0.1,
+  sa10p0: 0.04,
+  returnPeriod: 2475,
+  siteClass: 'C',
+  vs30: 450
+};
+
+describe('calculateDesignSpectralAcceleration', () => {
+  it('holds the short-period plateau at max(Sa(0.2), Sa(0.5)) up to 0.2 s', () => {
+    expect(calculateDesignSpectralAcceleration(hazard, 0.1)).toBe(1.0);
+    expect(calculateDesignSpectralAcceleration({ ...hazard, sa0p2: 0.7, sa0p5: 0.9 }, 0.1)).toBe(0.9);
+    expect(calculateDesignSpectralAcceleration({ ...hazard, sa0p2: 0.7, sa0p5: 0.9 }, 0.5)).toBe(0.9);
+  });
+
+  it('interpolates linearly between the anchors', () => {
+    expect(calculateDesignSpectralAcceleration(hazard, 0.35)).toBeCloseTo(1.0 - 0.2 * 0.15 / 0.3, 6);
+    expect(calculateDesignSpectralAcceleration(hazard, 1.5)).toBeCloseTo(0.4, 6);
+    expect(calculateDesignSpectralAcceleration(hazard, 7.5)).toBeCloseTo(0.07, 6);
+  });
+
+  it('holds S(10.0) beyond 10 s', () => {
+    expect(calculateDesignSpectralAcceleration(hazard, 12)).toBe(0.04);
+  });
+
+  it('falls back to 1/T decay from Sa(2.0) without the long-period values, and says so', () => {
+    const partial = { ...hazard, sa5p0: undefined, sa10p0: undefined };
+    expect(calculateDesignSpectralAcceleration(partial, 5)).toBeCloseTo(0.3 * 2 / 5, 6);
+    expect(calculateDesignSpectralAcceleration(partial, 10)).toBeCloseTo(0.3 * 2 / 10, 6);
+    expect(getDesignSpectrumWarnings(partial)).toHaveLength(2);
+    expect(getDesignSpectrumWarnings(hazard)).toEqual([]);
+  });
+});
+
+describe('buildDesignSpectrum', () => {
+  it('includes every anchor and the published hazard periods', () => {
+    const spectrum = buildDesignSpectrum(hazard);
+    expect(spectrum.find(point => point.T === 2.0)!.S).toBe(0.3);
+    expect(spectrum[0].T).toBeCloseTo(0.05, 6);
+    expect(getHazardSpectrum(hazard).map(point => point.T)).toEqual([0.2, 0.5, 1.0, 2.0, 5.0, 10.0]);
+  });
+});
+
+describe('calculateEmpiricalPeriod', () => {
+  it('follows the Sentence 4.1.8.11.(3) formulas for each system', () => {
+    expect(calculateEmpiricalPeriod('moment-frame-steel', 30, 10)).toBeCloseTo(0.085 * Math.pow(30, 0.75), 6);
+    expect(calculateEmpiricalPeriod('moment-frame-concrete', 30, 10)).toBeCloseTo(0.075 * Math.pow(30, 0.75), 6);
+    expect(calculateEmpiricalPeriod('moment-frame-other', 30, 10)).toBeCloseTo(1.0, 6);
+    expect(calculateEmpiricalPeriod('braced-frame', 30, 10)).toBeCloseTo(0.75, 6);
+    expect(calculateEmpiricalPeriod('shear-wall', 30, 10)).toBeCloseTo(0.05 * Math.pow(30, 0.75), 6);
+  });
+});
+
+describe('getDesignPeriod', () => {
+  const Ta = 0.085 * Math.pow(30, 0.75);
+
+  it('uses Ta without a modeled period', () => {
+    const period = getDesignPeriod('moment-frame-steel', 1.5, 30, 10);
+    expect(period.T).toBeCloseTo(Ta, 6);
+    expect(period.clamped).toBe(false);
+  });
+
+  it('uses a modeled period up to the upper limit', () => {
+    const period = getDesignPeriod('moment-frame-steel', 1.5, 30, 10, 1.2);
+    expect(period.T).toBe(1.2);
+    expect(period.clamped).toBe(false);
+  });
+
+  it('caps a modeled period at 1.5 Ta for moment frames', () => {
+    const period = getDesignPeriod('moment-frame-steel', 1.5, 30, 10, 2.0);
+    expect(period.T).toBeCloseTo(1.5 * Ta, 6);
+    expect(period.clamped).toBe(true);
+  });
+
+  it('caps a modeled period at 2.0 Ta for braced frames', () => {
+    const period = getDesignPeriod('braced-frame', 2.0, 30, 10, 2.0);
+    expect(period.T).toBeCloseTo(1.5, 6);
+    expect(period.clamped).toBe(true);
+  });
+});
+
+describe('calculateHigherModeFactors', () => {
+  it('takes Mv = J = 1.0 at short periods', () => {
+    const { Mv, J } = calculateHigherModeFactors(hazard, 'moment-frame', 0.5);
+    expect(Mv).toBe(1);
+    expect(J).toBe(1);
+  });
+
+  it('interpolates Mv and J between spectral shape ratios', () => {
+    const { ratio, Mv, J } = calculateHigherModeFactors(hazard, 'moment-frame', 5.0);
+    expect(ratio).toBeCloseTo(10, 6);
+    expect(Mv).toBeCloseTo(1 + 0.06 / 3, 6);
+    expect(J).toBeCloseTo(1 - 0.08 / 3, 6);
+  });
+
+  it('interpolates S(T)·Mv between periods rather than Mv', () => {
+    const { Mv, J } = calculateHigherModeFactors(hazard, 'moment-frame', 3.5);
+    const SMv = (0.3 * 1.0 + 0.1 * (1 + 0.06 / 3)) / 2;
+    expect(Mv).toBeCloseTo(SMv / 0.2, 6);
+    expect(J).toBeCloseTo(((1 - 0.03 / 3) + (1 - 0.08 / 3)) / 2, 6);
+  });
+
+  it('holds the last row beyond a ratio of 65', () => {
+    const { Mv, J } = calculateHigherModeFactors({ ...hazard, sa5p0: 0.01 }, 'wall', 5.0);
+    expect(Mv).toBe(3);
+    expect(J).toBe(0.35);
+  });
+});
+
+describe('calculateTopForce', () => {
+  it('is zero up to 0.7 s', () => {
+    expect(calculateTopForce(0.7, 1000)).toBe(0);
+  });
+
+  it('is 0.07·T·V above 0.7 s', () => {
+    expect(calculateTopForce(1.0, 1000)).toBeCloseTo(70, 6);
+  });
+
+  it('is capped at 0.25·V', () => {
+    expect(calculateTopForce(5.0, 1000)).toBeCloseTo(250, 6);
+  });
+});
+
+describe('getStoreyOverturningFactor', () => {
+  it('is 1.0 at and above 0.6·hn and J at the base', () => {
+    expect(getStoreyOverturningFactor(0.8, 6, 10)).toBe(1.0);
+    expect(getStoreyOverturningFactor(0.8, 0, 10)).toBe(0.8);
+    expect(getStoreyOverturningFactor(0.8, 3, 10)).toBeCloseTo(0.9, 6);
+  });
+});
+
+describe('distributeSeismicForces', () => {
+  const storeys = [
+    { id: 'a', level: 'Level 2', elevation: 3, weight: 1000 },
+    { id: 'b', level: 'Level 3', elevation: 6, weight: 1000 },
+    { id: 'c', level: 'Roof', elevation: 9, weight: 1000 }
+  ];
+
+  it('distributes V − Ft by Wx·hx and adds Ft at the top', () => {
+    const { Ft, forces } = distributeSeismicForces(storeys, 600, 1.0, 1.0);
+    expect(Ft).toBeCloseTo(42, 6);
+    expect(forces.map(force => force.Fx)).toEqual([
+      expect.closeTo(558 / 6, 6),
+      expect.closeTo(558 * 2 / 6, 6),
+      expect.closeTo(558 * 3 / 6 + 42, 6)
+    ]);
+    expect(forces[0].shear).toBeCloseTo(600, 6);
+  });
+
+  it('skips the ground level and keeps each storey id', () => {
+    const { forces } = distributeSeismicForces([{ id: 'g', level: 'Ground', elevation: 0, weight: 1000 }, ...storeys], 600, 0.5, 1.0);
+    expect(forces.map(force => force.id)).toEqual(['a', 'b', 'c']);
+    expect(forces[2].Fx).toBeCloseTo(600 * 3 / 6, 6);
+  });
+
+  it('reduces the base overturning moment by J', () => {
+    const { forces, baseOverturning, reducedBaseOverturning } = distributeSeismicForces(storeys, 600, 1.0, 0.8);
+    const expected = forces.reduce((sum, force) => sum + force.Fx * force.elevation, 0);
+    expect(baseOverturning).toBeCloseTo(expected, 6);
+    expect(reducedBaseOverturning).toBeCloseTo(0.8 * expected, 6);
+  });
+});
+
+describe('assembleStoreyWeights', () => {
+  const assemblies = [
+    { id: 'floor', name: 'Floor', load: 4.0, description: '' },
+    { id: 'roof', name: 'Roof', load: 1.5, description: '' }
+  ];
+  const storey = { area: 100, additional: 0, isRoof: false };
+
+  it('adds partitions to floors and 25% of the snow load to roofs', () => {
+    const weights = assembleStoreyWeights([
+      { ...storey, id: 'a', level: 'Level 2', elevation: 4, assemblyId: 'floor', additional: 50 },
+      { ...storey, id: 'b', level: 'Roof', elevation: 8, assemblyId: 'roof', isRoof: true }
+    ], assemblies, 1.0, 2.0);
+    // 100 m² × (4.0 + 1.0) kPa + 50 kN, and 100 m² × (1.5 + 0.25 × 2.0) kPa
+    expect(weights[0].weight).toBeCloseTo(550, 6);
+    expect(weights[1].weight).toBeCloseTo(200, 6);
+    expect(weights[1].partitions).toBe(0);
+  });
+
+  it('leaves levels at or below grade out of W, as the force distribution does', () => {
+    const weights = assembleStoreyWeights([
+      { ...storey, id: 'a', level: 'Basement', elevation: 0, assemblyId: 'floor' },
+      { ...storey, id: 'b', level: 'Roof', elevation: 4, assemblyId: 'roof', isRoof: true }
+    ], assemblies, 1.0, 2.0);
+    expect(weights.map(weight => weight.id)).toEqual(['b']);
+    const W = weights.reduce((sum, weight) => sum + weight.weight, 0);
+    const { forces } = distributeSeismicForces(weights, 100, 0.5, 1);
+    expect(forces.reduce((sum, force) => sum + force.Fx, 0)).toBeCloseTo(100, 6);
+    expect(forces[0].weight).toBeCloseTo(W, 6);
+  });
+});
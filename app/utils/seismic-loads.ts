@@ -0,0 +1,466 @@
+// NBC 2020 Section 4.1.8 earthquake loads, equivalent static force procedure.
+// CanSHM6 site designation values (X_V or X_S) already include site effects, so the
+// design spectrum is built from them directly with no Fa or Fv factors.
+
+import type { SeismicHazardData } from './seismic-api';
+import type { DeadLoadAssembly } from './dead-loads';
+import { calculateRoofSnowLoad } from './snow-loads';
+
+// Lateral systems as grouped by the minimum base shear and period rules
+export type SeismicSystemType = 'moment-frame' | 'braced-frame' | 'wall' | 'other';
+
+export interface SpectrumPoint {
+  T: number; // s
+  S: number; // g
+}
+
+// Periods published by CanSHM6 with 5%-damped spectral accelerations, s
+export const HAZARD_PERIODS: { T: number; key: keyof SeismicHazardData }[] = [
+  { T: 0.05, key: 'sa0p05' },
+  { T: 0.1, key: 'sa0p1' },
+  { T: 0.2, key: 'sa0p2' },
+  { T: 0.3, key: 'sa0p3' },
+  { T: 0.5, key: 'sa0p5' },
+  { T: 1.0, key: 'sa1p0' },
+  { T: 2.0, key: 'sa2p0' },
+  { T: 5.0, key: 'sa5p0' },
+  { T: 10.0, key: 'sa10p0' }
+];
+
+// Range plotted for the design spectrum, s
+export const SPECTRUM_PERIOD_RANGE = { min: 0.05, max: 10 };
+
+// Uniform hazard spectrum as returned for the site, skipping periods the record lacks
+export function getHazardSpectrum(data: SeismicHazardData): SpectrumPoint[] {
+  return HAZARD_PERIODS
+    .filter(({ key }) => typeof data[key] === 'number')
+    .map(({ T, key }) => ({ T, S: data[key] as number }));
+}
+
+// Sentence 4.1.8.4.(7) anchor points. Below 0.2 s the spectrum is flat at the larger of
+// Sa(0.2) and Sa(0.5), so a site whose peak sits near 0.5 s keeps that plateau at short periods.
+// Records without the long-period values fall back to 1/T decay from Sa(2.0), which
+// getDesignSpectrumWarnings reports.
+export function getDesignSpectrumAnchors(data: SeismicHazardData): SpectrumPoint[] {
+  return [
+    { T: 0.2, S: Math.max(data.sa0p2, data.sa0p5) },
+    { T: 0.5, S: data.sa0p5 },
+    { T: 1.0, S: data.sa1p0 },
+    { T: 2.0, S: data.sa2p0 },
+    { T: 5.0, S: data.sa5p0 ?? data.sa2p0 * 2 / 5 },
+    { T: 10.0, S: data.sa10p0 ?? data.sa2p0 * 2 / 10 }
+  ];
+}
+
+// Long-period values the record lacks, so the anchors above were estimated from Sa(2.0).
+// S(5.0) also sets the spectral shape ratio for Mv and J, so both are affected.
+export function getDesignSpectrumWarnings(data: SeismicHazardData): string[] {
+  const warnings: string[] = [];
+  if (typeof data.sa5p0 !== 'number') {
+    warnings.push(`Sa(5.0) is missing from the hazard record; S(5.0) = Sa(2.0) × 2/5 = ${(data.sa2p0 * 2 / 5).toFixed(3)} g was assumed`);
+  }
+  if (typeof data.sa10p0 !== 'number') {
+    warnings.push(`Sa(10.0) is missing from the hazard record; S(10.0) = Sa(2.0) × 2/10 = ${(data.sa2p0 * 2 / 10).toFixed(3)} g was assumed`);
+  }
+  return warnings;
+}
+
+// Design spectral acceleration S(T), interpolated linearly between the anchors and held
+// constant below 0.2 s and beyond 10 s
+export function calculateDesignSpectralAcceleration(data: SeismicHazardData, T: number): number {
+  const anchors = getDesignSpectrumAnchors(data);
+  if (T <= anchors[0].T) return anchors[0].S;
+
+  const upper = anchors.findIndex(anchor => anchor.T >= T);
+  if (upper === -1) return anchors[anchors.length - 1].S;
+
+  const a = anchors[upper - 1];
+  const b = anchors[upper];
+  return a.S + (b.S - a.S) * (T - a.T) / (b.T - a.T);
+}
+
+export function formatDesignSpectralAcceleration(data: SeismicHazardData, T: number): string {
+  const anchors = getDesignSpectrumAnchors(data);
+  const S = calculateDesignSpectralAcceleration(data, T);
+  if (T <= anchors[0].T) {
+    return `S(${T.toFixed(2)}) = max(Sa(0.2), Sa(0.5)) = max(${data.sa0p2.toFixed(3)}, ${data.sa0p5.toFixed(3)}) = ${S.toFixed(3)} g`;
+  }
+  const upper = anchors.findIndex(anchor => anchor.T >= T);
+  if (upper === -1) {
+    return `S(${T.toFixed(2)}) = S(10.0) = ${S.toFixed(3)} g`;
+  }
+  const a = anchors[upper - 1];
+  const b = anchors[upper];
+  return `S(${T.toFixed(2)}) = ${a.S.toFixed(3)} + (${b.S.toFixed(3)} − ${a.S.toFixed(3)}) × (${T.toFixed(2)} − ${a.T.toFixed(1)})/(${b.T.toFixed(1)} − ${a.T.toFixed(1)}) = ${S.toFixed(3)} g`;
+}
+
+// S(T) sampled evenly on log(T), with the anchors included so the corners plot exactly
+export function buildDesignSpectrum(data: SeismicHazardData, samples = 60): SpectrumPoint[] {
+  const logMin = Math.log10(SPECTRUM_PERIOD_RANGE.min);
+  const logMax = Math.log10(SPECTRUM_PERIOD_RANGE.max);
+  const periods = Array.from({ length: samples + 1 }, (_, i) => Math.pow(10, logMin + (i / samples) * (logMax - logMin)));
+  const anchors = getDesignSpectrumAnchors(data).map(anchor => anchor.T);
+
+  return Array.from(new Set([...periods, ...anchors]))
+    .sort((a, b) => a - b)
+    .map(T => ({ T, S: calculateDesignSpectralAcceleration(data, T) }));
+}
+
+// Table 4.1.8.11 higher mode factor Mv and base overturning reduction factor J. Rows follow
+// the spectral shape ratio S(0.2)/S(5.0); columns follow the period.
+export const HIGHER_MODE_PERIODS = [0.5, 1.0, 2.0, 5.0]; // s
+export const HIGHER_MODE_RATIOS = [5, 20, 40, 65];
+
+export const HIGHER_MODE_FACTORS: Record<SeismicSystemType, { Mv: number[][]; J: number[][] }> = {
+  'moment-frame': {
+    Mv: [[1, 1, 1, 1], [1, 1, 1, 1.06], [1, 1, 1.03, 1.18], [1, 1, 1.08, 1.3]],
+    J: [[1, 1, 1, 1], [1, 1, 0.97, 0.92], [1, 0.98, 0.92, 0.85], [1, 0.95, 0.87, 0.78]]
+  },
+  'braced-frame': {
+    Mv: [[1, 1, 1, 1], [1, 1, 1.05, 1.2], [1, 1, 1.1, 1.35], [1, 1.03, 1.2, 1.5]],
+    J: [[1, 1, 0.97, 0.9], [1, 0.97, 0.87, 0.75], [1, 0.93, 0.8, 0.65], [1, 0.9, 0.75, 0.58]]
+  },
+  wall: {
+    Mv: [[1, 1, 1, 1], [1, 1.08, 1.4, 1.8], [1, 1.16, 1.7, 2.4], [1, 1.25, 2, 3]],
+    J: [[1, 0.97, 0.85, 0.75], [1, 0.85, 0.6, 0.5], [1, 0.8, 0.5, 0.4], [1, 0.75, 0.45, 0.35]]
+  },
+  other: {
+    Mv: [[1, 1, 1, 1], [1, 1.08, 1.4, 1.8], [1, 1.16, 1.7, 2.4], [1, 1.25, 2, 3]],
+    J: [[1, 0.97, 0.85, 0.75], [1, 0.85, 0.6, 0.5], [1, 0.8, 0.5, 0.4], [1, 0.75, 0.45, 0.35]]
+  }
+};
+
+export function getSpectralShapeRatio(data: SeismicHazardData): number {
+  return calculateDesignSpectralAcceleration(data, 0.2) / calculateDesignSpectralAcceleration(data, 5.0);
+}
+
+// Bracketing index and fraction of x within a sorted list, held at the ends
+function locate(values: number[], x: number): { i: number; t: number } {
+  if (x <= values[0]) return { i: 0, t: 0 };
+  if (x >= values[values.length - 1]) return { i: values.length - 2, t: 1 };
+  const i = values.findIndex((value, k) => x >= value && x <= values[k + 1]);
+  return { i, t: (x - values[i]) / (values[i + 1] - values[i]) };
+}
+
+// Table row for the site's spectral shape, interpolated linearly between ratios
+function interpolateRatioRow(rows: number[][], ratio: number): number[] {
+  const { i, t } = locate(HIGHER_MODE_RATIOS, ratio);
+  return rows[i].map((value, k) => value + (rows[i + 1][k] - value) * t);
+}
+
+export interface HigherModeFactors {
+  ratio: number; // S(0.2)/S(5.0)
+  Mv: number;
+  J: number;
+  calculation: string;
+}
+
+// Between tabulated periods the product S(T)·Mv is interpolated, not Mv itself; J is
+// interpolated directly
+export function calculateHigherModeFactors(data: SeismicHazardData, systemType: SeismicSystemType, T: number): HigherModeFactors {
+  const ratio = getSpectralShapeRatio(data);
+  const MvRow = interpolateRatioRow(HIGHER_MODE_FACTORS[systemType].Mv, ratio);
+  const JRow = interpolateRatioRow(HIGHER_MODE_FACTORS[systemType].J, ratio);
+  const { i, t } = locate(HIGHER_MODE_PERIODS, T);
+
+  const SMvLower = calculateDesignSpectralAcceleration(data, HIGHER_MODE_PERIODS[i]) * MvRow[i];
+  const SMvUpper = calculateDesignSpectralAcceleration(data, HIGHER_MODE_PERIODS[i + 1]) * MvRow[i + 1];
+  const S = calculateDesignSpectralAcceleration(data, T);
+  const withinTable = T > HIGHER_MODE_PERIODS[0] && T < HIGHER_MODE_PERIODS[HIGHER_MODE_PERIODS.length - 1];
+  const Mv = withinTable && S > 0
+    ? (SMvLower + (SMvUpper - SMvLower) * t) / S
+    : MvRow[i] + (MvRow[i + 1] - MvRow[i]) * t;
+  const J = JRow[i] + (JRow[i + 1] - JRow[i]) * t;
+
+  return {
+    ratio,
+    Mv,
+    J,
+    calculation: `S(0.2)/S(5.0) = ${ratio.toFixed(1)}, T = ${T.toFixed(3)} s: Mv = ${Mv.toFixed(3)}, J = ${J.toFixed(3)}`
+  };
+}
+
+export interface SeismicBaseShearInput {
+  T: number;  // s, design period
+  IE: number;
+  W: number;  // kN
+  Rd: number;
+  Ro: number;
+  systemType: SeismicSystemType;
+}
+
+export interface SeismicBaseShear {
+  S: number;           // g, S(T)
+  Mv: number;
+  J: number;
+  V: number;           // kN, from S(T)
+  Vmin: number;        // kN, long-period floor
+  Vmax: number | null; // kN, short-period cap for Rd ≥ 1.5
+  design: number;      // kN
+  calculation: string;
+  higherModeCalculation: string; // Mv and J interpolation
+}
+
+// Article 4.1.8.11: V = S(T)·Mv·IE·W/(Rd·Ro), not less than the value with S(4.0) for walls
+// or S(2.0) for other systems, and for Rd ≥ 1.5 not more than max(2/3·S(0.2), S(0.5))·IE·W/(Rd·Ro)
+export function calculateSeismicBaseShear(data: SeismicHazardData, input: SeismicBaseShearInput): SeismicBaseShear {
+  const { T, IE, W, Rd, Ro, systemType } = input;
+  const factor = IE * W / (Rd * Ro);
+  const S = calculateDesignSpectralAcceleration(data, T);
+  const { Mv, J, calculation: higherModeCalculation } = calculateHigherModeFactors(data, systemType, T);
+  const minimumPeriod = systemType === 'wall' ? 4.0 : 2.0;
+
+  const V = S * Mv * factor;
+  const Vmin = calculateDesignSpectralAcceleration(data, minimumPeriod) * Mv * factor;
+  const Vmax = Rd >= 1.5
+    ? Math.max((2 / 3) * calculateDesignSpectralAcceleration(data, 0.2), calculateDesignSpectralAcceleration(data, 0.5)) * factor
+    : null;
+  const design = Math.min(Math.max(V, Vmin), Vmax ?? Infinity);
+
+  const bounds = [`Vmin from S(${minimumPeriod.toFixed(1)}) = ${Vmin.toFixed(1)}`];
+  if (Vmax !== null) bounds.push(`Vmax = ${Vmax.toFixed(1)}`);
+
+  return {
+    S,
+    Mv,
+    J,
+    V,
+    Vmin,
+    Vmax,
+    design,
+    calculation: `V = ${S.toFixed(3)} × ${Mv.toFixed(3)} × ${IE} × ${W.toFixed(0)}/(${Rd} × ${Ro}) = ${V.toFixed(1)} kN (${bounds.join(', ')}) → ${design.toFixed(1)} kN`,
+    higherModeCalculation
+  };
+}
+
+// Sentence 4.1.8.11.(3) empirical period formulas, Ta = coefficient × hn^exponent, except other
+// moment frames, which use Ta = 0.1·N with N the number of storeys
+export type PeriodFormula = 'moment-frame-steel' | 'moment-frame-concrete' | 'moment-frame-other' | 'braced-frame' | 'shear-wall';
+
+export const PERIOD_FORMULAS: Record<PeriodFormula, { name: string; basis: 'height' | 'storeys'; coefficient: number; exponent: number }> = {
+  'moment-frame-steel': { name: 'Steel moment frame', basis: 'height', coefficient: 0.085, exponent: 0.75 },
+  'moment-frame-concrete': { name: 'Concrete moment frame', basis: 'height', coefficient: 0.075, exponent: 0.75 },
+  'moment-frame-other': { name: 'Other moment frame', basis: 'storeys', coefficient: 0.1, exponent: 1.0 },
+  'braced-frame': { name: 'Braced frame', basis: 'height', coefficient: 0.025, exponent: 1.0 },
+  'shear-wall': { name: 'Shear wall and other structures', basis: 'height', coefficient: 0.05, exponent: 0.75 }
+};
+
+export function calculateEmpiricalPeriod(formula: PeriodFormula, hn: number, N: number): number {
+  const { basis, coefficient, exponent } = PERIOD_FORMULAS[formula];
+  return coefficient * Math.pow(basis === 'storeys' ? N : hn, exponent);
+}
+
+export function formatEmpiricalPeriod(formula: PeriodFormula, hn: number, N: number): string {
+  const { basis, coefficient, exponent } = PERIOD_FORMULAS[formula];
+  const Ta = calculateEmpiricalPeriod(formula, hn, N);
+  if (basis === 'storeys') return `Ta = ${coefficient} × N = ${coefficient} × ${N} = ${Ta.toFixed(3)} s`;
+  return exponent === 1
+    ? `Ta = ${coefficient} × ${hn} = ${Ta.toFixed(3)} s`
+    : `Ta = ${coefficient} × ${hn}^${exponent} = ${Ta.toFixed(3)} s`;
+}
+
+export interface DesignPeriod {
+  Ta: number;             // s, empirical period
+  T: number;              // s, period used for S(T)
+  modeled: number | null; // s, period from a structural model
+  limit: number;          // s, longest modeled period permitted
+  clamped: boolean;
+  calculation: string;
+}
+
+// A modeled period may replace Ta, but only up to upperLimit × Ta: 1.5 for moment frames and
+// 2.0 for braced frames and walls
+export function getDesignPeriod(formula: PeriodFormula, upperLimit: number, hn: number, N: number, modeled: number | null = null): DesignPeriod {
+  const Ta = calculateEmpiricalPeriod(formula, hn, N);
+  const limit = upperLimit * Ta;
+  const empirical = formatEmpiricalPeriod(formula, hn, N);
+
+  if (modeled === null || modeled <= 0) {
+    return { Ta, T: Ta, modeled: null, limit, clamped: false, calculation: empirical };
+  }
+
+  const clamped = modeled > limit;
+  const T = clamped ? limit : modeled;
+  return {
+    Ta,
+    T,
+    modeled,
+    limit,
+    clamped,
+    calculation: `${empirical}; T = min(${modeled.toFixed(3)}, ${upperLimit} × ${Ta.toFixed(3)}) = ${T.toFixed(3)} s`
+  };
+}
+
+// A level of the building with the seismic weight lumped at its floor
+export interface SeismicStorey {
+  id: string;
+  level: string;
+  elevation: number; // m above grade, hx
+  weight: number;    // kN, Wx
+}
+
+export interface StoreySeismicForce {
+  id: string;
+  level: string;
+  elevation: number;          // m
+  storeyHeight: number;       // m
+  weight: number;             // kN
+  Fx: number;                 // kN, including Ft at the top
+  shear: number;              // kN, in the storey below the level
+  overturning: number;        // kN·m, at the base of the storey
+  Jx: number;
+  reducedOverturning: number; // kN·m, Jx × overturning
+}
+
+export interface SeismicForceDistribution {
+  Ft: number; // kN
+  forces: StoreySeismicForce[];
+  baseOverturning: number;        // kN·m
+  reducedBaseOverturning: number; // kN·m
+  calculation: string;
+}
+
+// Sentence 4.1.8.11.(7): no top force for short periods, otherwise 0.07·T·V up to 0.25·V
+export function calculateTopForce(T: number, V: number): number {
+  return T > 0.7 ? Math.min(0.07 * T * V, 0.25 * V) : 0;
+}
+
+// Sentence 4.1.8.11.(8): Jx = 1.0 at and above 0.6·hn, falling linearly to J at the base
+export function getStoreyOverturningFactor(J: number, hx: number, hn: number): number {
+  if (hn <= 0 || hx >= 0.6 * hn) return 1.0;
+  return J + (1 - J) * hx / (0.6 * hn);
+}
+
+// Fx = (V − Ft)·Wx·hx/ΣWi·hi with Ft added at the top level. Shears and overturning are taken at
+// the bottom of each storey, so the lowest storey carries the base values.
+export function distributeSeismicForces(storeys: SeismicStorey[], V: number, T: number, J: number): SeismicForceDistribution {
+  const levels = storeys.filter(storey => storey.elevation > 0).sort((a, b) => a.elevation - b.elevation);
+  const Ft = calculateTopForce(T, V);
+  const sumWh = levels.reduce((sum, storey) => sum + storey.weight * storey.elevation, 0);
+  const hn = levels.length > 0 ? levels[levels.length - 1].elevation : 0;
+
+  const Fx = levels.map((storey, i) => {
+    const share = sumWh > 0 ? (V - Ft) * storey.weight * storey.elevation / sumWh : 0;
+    return i === levels.length - 1 ? share + Ft : share;
+  });
+
+  const forces = levels.map((storey, i) => {
+    const base = i === 0 ? 0 : levels[i - 1].elevation;
+    const above = levels.slice(i);
+    const shear = Fx.slice(i).reduce((sum, F) => sum + F, 0);
+    const overturning = above.reduce((sum, level, k) => sum + Fx[i + k] * (level.elevation - base), 0);
+    const Jx = getStoreyOverturningFactor(J, base, hn);
+    return {
+      id: storey.id,
+      level: storey.level,
+      elevation: storey.elevation,
+      storeyHeight: storey.elevation - base,
+      weight: storey.weight,
+      Fx: Fx[i],
+      shear,
+      overturning,
+      Jx,
+      reducedOverturning: Jx * overturning
+    };
+  });
+
+  const baseOverturning = forces.length > 0 ? forces[0].overturning : 0;
+  const reducedBaseOverturning = forces.length > 0 ? forces[0].reducedOverturning : 0;
+
+  return {
+    Ft,
+    forces,
+    baseOverturning,
+    reducedBaseOverturning,
+    calculation: T > 0.7
+      ? `Ft = min(0.07 × ${T.toFixed(3)} × ${V.toFixed(1)}, 0.25 × ${V.toFixed(1)}) = ${Ft.toFixed(1)} kN; Fx = (V − Ft)·Wx·hx/ΣWi·hi, ΣWi·hi = ${sumWh.toFixed(0)} kN·m`
+      : `Ft = 0 for T ≤ 0.7 s; Fx = V·Wx·hx/ΣWi·hi, ΣWi·hi = ${sumWh.toFixed(0)} kN·m`
+  };
+}
+
+// Article 4.1.8.2: W carries 25% of the design snow load along with the dead load
+export const SEISMIC_SNOW_FRACTION = 0.25;
+
+// Partitions in W, kPa. Sentence 4.1.4.1.(3) sets 1 kPa as the minimum partition dead load, but
+// the definition of W in Article 4.1.8.2 lets that minimum be taken as no more than 0.5 kPa.
+export const PARTITION_ALLOWANCE = 0.5;
+
+// Design snow load on a flat roof for the seismic weight: Cb = 0.8, Cw = Cs = Ca = 1.0
+export function calculateSeismicRoofSnowLoad(Ss: number, Sr: number, Is: number): number {
+  return calculateRoofSnowLoad({ Ss, Sr, Is_uls: Is, Is_sls: Is, Cb: 0.8, Cw: 1.0, Cs: 1.0, gamma: Math.min(4.0, 0.43 * Ss + 2.2) }, 'uls', 1.0);
+}
+
+// A level described by its floor plate rather than a weight
+export interface StoreyWeightInput {
+  id: string;
+  level: string;
+  elevation: number;  // m
+  area: number;       // m²
+  assemblyId: string; // floor or roof dead load assembly
+  additional: number; // kN, walls, cladding and equipment not in the assembly
+  isRoof: boolean;    // roof levels, including lower roofs and podiums, carry snow instead of partitions
+}
+
+export interface StoreyWeightBreakdown extends SeismicStorey {
+  area: number;       // m²
+  assembly: string;
+  deadLoad: number;   // kPa
+  isRoof: boolean;
+  dead: number;       // kN
+  partitions: number; // kN
+  snow: number;       // kN
+  additional: number; // kN
+}
+
+// Floors take the assembly plus the partition allowance; levels flagged as roofs take 25% of
+// the roof snow load instead of partitions. Levels at or below grade carry no lateral force in
+// distributeSeismicForces, so they are left out of W as well.
+export function assembleStoreyWeights(
+  storeys: StoreyWeightInput[],
+  assemblies: DeadLoadAssembly[],
+  partitionLoad: number,
+  roofSnowLoad: number
+): StoreyWeightBreakdown[] {
+  return storeys.filter(storey => storey.elevation > 0).map(storey => {
+    const assembly = assemblies.find(item => item.id === storey.assemblyId);
+    const deadLoad = assembly?.load ?? 0;
+    const { isRoof } = storey;
+    const dead = storey.area * deadLoad;
+    const partitions = isRoof ? 0 : storey.area * partitionLoad;
+    const snow = isRoof ? SEISMIC_SNOW_FRACTION * roofSnowLoad * storey.area : 0;
+    return {
+      id: storey.id,
+      level: storey.level,
+      elevation: storey.elevation,
+      area: storey.area,
+      assembly: assembly?.name ?? 'None',
+      deadLoad,
+      isRoof,
+      dead,
+      partitions,
+      snow,
+      additional: storey.additional,
+      weight: dead + partitions + snow + storey.additional
+    };
+  });
+}
+
+// Equal storey heights sharing one floor plate, with the roof assembly at the top
+export function buildEqualStoreys(
+  height: number,
+  floors: number,
+  area: number,
+  floorAssemblyId: string,
+  roofAssemblyId: string
+): StoreyWeightInput[] {
+  const n = Math.max(1, Math.round(floors));
+  return Array.from({ length: n }, (_, i) => ({
+    id: `storey-${i + 1}`,
+    level: i === n - 1 ? 'Roof' : `Level ${i + 2}`,
+    elevation: (i + 1) * height / n,
+    area,
+    assemblyId: i === n - 1 ? roofAssemblyId : floorAssemblyId,
+    additional: 0,
+    isRoof: i === n - 1
+  }));
+}
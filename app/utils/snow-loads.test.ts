@@ -0,0 +1,254 @@
+import { describe, expect, it } from 'vitest';
+import {
+  MAX_DRIFT_GAP,
+  buildArchRoofCases,
+  buildCanopyCases,
+  buildSlidingSnowCases,
+  buildSolarArrayCases,
+  buildUnbalancedRoofCases,
+  buildValleyCases,
+  calculateArchRadius,
+  calculateArchSlope,
+  calculateBalancedSnowDepth,
+  calculateLowerRoofDrift,
+  calculateUnbalancedAccumulationFactor,
+  calculateValleyAccumulations,
+  canSnowSlide,
+  type SnowLoadBasis
+} from './snow-loads';
+
+// Ss = 2.0 kPa gives γ = 0.43 × 2.0 + 2.2 = 3.06 kN/m³
+const basis: SnowLoadBasis = { Ss: 2.0, Sr: 0.2, Is_uls: 1.0, Is_sls: 0.9, Cb: 0.8, Cw: 1.0, Cs: 1.0, gamma: 3.06 };
+
+describe('calculateLowerRoofDrift', () => {
+  it('limits Ca0 by F/Cb when the step is tall', () => {
+    const drift = calculateLowerRoofDrift(basis, 'lower', 20, 2, 0, 30)!;
+    const F = 0.35 * Math.sqrt((3.06 * 20) / 2.0) + 0.8;
+
+    expect(drift.beta).toBe(1.0);
+    expect(drift.F).toBeCloseTo(F, 6);
+    expect(drift.governedBy).toBe('F');
+    expect(drift.Ca0).toBeCloseTo(F / 0.8, 6);
+    expect(drift.xd).toBeCloseTo(5 * (0.8 * 2.0 / 3.06) * (F - 0.8), 6);
+    expect(drift.distribution).toBe('triangular');
+  });
+
+  it('limits Ca0 by βγh/(CbSs) and xd by 5h when the step is short', () => {
+    const drift = calculateLowerRoofDrift(basis, 'lower', 20, 1, 0, 30)!;
+
+    expect(drift.governedBy).toBe('height');
+    expect(drift.Ca0).toBeCloseTo((3.06 * 1) / (0.8 * 2.0), 6);
+    expect(drift.xd).toBe(5);
+  });
+
+  it('uses β = 0.67 for snow drifting off the upper roof', () => {
+    const drift = calculateLowerRoofDrift(basis, 'upper', 20, 2, 0, 30)!;
+
+    expect(drift.beta).toBe(0.67);
+    expect(drift.F).toBeCloseTo(0.35 * 0.67 * Math.sqrt((3.06 * 20) / 2.0) + 0.8, 6);
+  });
+
+  it('starts the profile at the gap and truncates the drift', () => {
+    const drift = calculateLowerRoofDrift(basis, 'lower', 20, 2, 1, 30)!;
+
+    expect(drift.profile[0].Ca).toBeCloseTo(drift.Ca0 - (drift.Ca0 - 1.0) * (1 / drift.xd), 6);
+    expect(drift.profile[1]).toEqual({ x: drift.xd - 1, Ca: 1.0 });
+    expect(drift.distribution).toBe('trapezoidal');
+  });
+
+  it('returns no drift when the step cannot hold more than the balanced load', () => {
+    expect(calculateLowerRoofDrift(basis, 'lower', 20, 0.5, 0, 30)).toBeNull();
+  });
+
+  it('returns no drift beyond the maximum gap', () => {
+    expect(calculateLowerRoofDrift(basis, 'lower', 20, 2, MAX_DRIFT_GAP + 0.1, 30)).toBeNull();
+  });
+});
+
+describe('calculateUnbalancedAccumulationFactor', () => {
+  it('needs no unbalanced case up to 15°, then follows 0.25 + α/20 up to 1.25 at 20°', () => {
+    expect(calculateUnbalancedAccumulationFactor(15)).toBe(0);
+    expect(calculateUnbalancedAccumulationFactor(18)).toBeCloseTo(0.25 + 18 / 20, 6);
+    expect(calculateUnbalancedAccumulationFactor(20)).toBeCloseTo(1.25, 6);
+    expect(calculateUnbalancedAccumulationFactor(35)).toBe(1.25);
+  });
+});
+
+describe('buildUnbalancedRoofCases', () => {
+  it('clears the windward face and loads the leeward face of a gable roof', () => {
+    const [uls, sls] = buildUnbalancedRoofCases(basis, 'gable', 25, 12);
+
+    // S = 1.0 × [2.0 × (0.8 × 1.0 × 1.0 × 1.25) + 0.2] = 2.2 kPa
+    expect(uls.profile![0].load).toBeCloseTo(0.2, 6);
+    expect(uls.profile![2]).toEqual({ x: 6, load: uls.loadValue });
+    expect(uls.loadValue).toBeCloseTo(2.2, 6);
+    expect(sls.loadValue).toBeCloseTo(0.9 * 2.2, 6);
+  });
+
+  it('has no unbalanced case on a monoslope or a shallow roof', () => {
+    expect(buildUnbalancedRoofCases(basis, 'monoslope', 25, 12)).toEqual([]);
+    expect(buildUnbalancedRoofCases(basis, 'gable', 10, 12)).toEqual([]);
+  });
+});
+
+describe('buildArchRoofCases', () => {
+  // b = 20 m, h = 4 m: R = (20²/4 + 4²)/(2 × 4) = 14.5 m, 43.6° at the eaves
+  const arch = { span: 20, rise: 4, hasEndWalls: false };
+  const eaveSlope = Math.atan(10 / 10.5) * 180 / Math.PI;
+
+  it('finds the radius and the local slope of the arch', () => {
+    expect(calculateArchRadius(arch)).toBeCloseTo(14.5, 6);
+    expect(calculateArchSlope(arch, 10)).toBeCloseTo(0, 6);
+    expect(calculateArchSlope(arch, 0)).toBeCloseTo(eaveSlope, 6);
+  });
+
+  it('follows the local Cs in the balanced case', () => {
+    const balanced = buildArchRoofCases(basis, arch, false).find(c => c.id === 'arch-balanced-uls')!;
+    const crown = balanced.profile!.find(point => point.x === 10)!;
+
+    expect(crown.load).toBeCloseTo(2.0 * 0.8 + 0.2, 6);
+    expect(balanced.profile![0].load).toBeCloseTo(2.0 * 0.8 * (70 - eaveSlope) / 40 + 0.2, 6);
+  });
+
+  it('builds up from 0.5 at the crown to 2.0 where the leeward surface reaches 30°', () => {
+    const unbalanced = buildArchRoofCases(basis, arch, false).find(c => c.id === 'arch-unbalanced-uls')!;
+    const x30 = 10 + 14.5 * Math.sin(Math.PI / 6);
+    const profile = unbalanced.profile!;
+
+    expect(profile.find(point => point.x === 5)!.load).toBeCloseTo(0.2, 6);
+    expect(profile.find(point => point.x === 10 && point.load > 0.2)!.load).toBeCloseTo(2.0 * 0.8 * 0.5 + 0.2, 6);
+    expect(profile.find(point => point.x === x30)!.load).toBeCloseTo(2.0 * 0.8 * 2.0 + 0.2, 6);
+    expect(unbalanced.loadValue).toBeCloseTo(3.4, 6);
+    // Snow slides off beyond the 30° point without end walls
+    expect(profile[profile.length - 1].load).toBeCloseTo(2.0 * 0.8 * 2.0 * (70 - eaveSlope) / 40 + 0.2, 6);
+  });
+
+  it('treats shallow arches as flat roofs', () => {
+    expect(buildArchRoofCases(basis, { span: 20, rise: 1, hasEndWalls: false }, false).map(c => c.id))
+      .toEqual(['arch-balanced-uls', 'arch-balanced-sls']);
+  });
+});
+
+describe('buildSlidingSnowCases', () => {
+  const source = { id: 'upper', name: 'Upper roof', slope: 30, run: 6, eaveHeight: 3, isSlippery: false };
+
+  it('slides off slippery roofs steeper than 1:12 and other roofs steeper than 2:12', () => {
+    expect(canSnowSlide(5, true)).toBe(true);
+    expect(canSnowSlide(9, false)).toBe(false);
+    expect(canSnowSlide(10, false)).toBe(true);
+  });
+
+  it('spreads half of the upper roof snow over a 2 m strip', () => {
+    const [uls] = buildSlidingSnowCases(basis, source, 10);
+    // Ws = 0.5 × 2.0 × 0.8 × 1.0 × 6 = 4.8 kN/m over 2 m = 2.4 kPa on top of 1.8 kPa
+    expect(uls.profile![0]).toEqual({ x: 0, load: uls.loadValue });
+    expect(uls.loadValue).toBeCloseTo(1.8 + 2.4, 6);
+    expect(uls.profile![2].x).toBe(2);
+    expect(uls.profile![2].load).toBeCloseTo(1.8, 6);
+  });
+
+  it('limits the pile to the eave height', () => {
+    const [uls] = buildSlidingSnowCases(basis, { ...source, eaveHeight: 1 }, 10);
+    // γhe − Sbal = 3.06 × 1 − 1.6 = 1.46 kPa
+    expect(uls.loadValue).toBeCloseTo(1.8 + 1.46, 6);
+  });
+
+  it('has no case when snow cannot slide', () => {
+    expect(buildSlidingSnowCases(basis, { ...source, slope: 5 }, 10)).toEqual([]);
+  });
+});
+
+describe('calculateValleyAccumulations', () => {
+  it('limits Ca to γh/(CbSs) using the lower adjacent ridge', () => {
+    const [valley] = calculateValleyAccumulations(basis, { form: 'gable', spans: [{ width: 10, ridgeHeight: 2 }, { width: 10, ridgeHeight: 1 }] });
+
+    expect(valley.x).toBe(10);
+    expect(valley.depth).toBe(1);
+    expect(valley.Ca).toBeCloseTo(3.06 * 1 / (0.8 * 2.0), 6);
+  });
+
+  it('caps Ca at 2.0 in deep valleys', () => {
+    const [valley] = calculateValleyAccumulations(basis, { form: 'gable', spans: [{ width: 10, ridgeHeight: 3 }, { width: 10, ridgeHeight: 3 }] });
+    expect(valley.CaLimit).toBeCloseTo(3.06 * 3 / 1.6, 6);
+    expect(valley.Ca).toBe(2.0);
+  });
+
+  it('takes the depth of a sawtooth valley from the vertical face of the span behind it', () => {
+    const [valley] = calculateValleyAccumulations(basis, { form: 'sawtooth', spans: [{ width: 10, ridgeHeight: 0.5 }, { width: 10, ridgeHeight: 3 }] });
+    expect(valley.Ca).toBeCloseTo(3.06 * 0.5 / 1.6, 6);
+  });
+});
+
+describe('buildValleyCases', () => {
+  it('runs from 0.5 at the ridges to Ca in the valley with Cw = Cs = 1.0', () => {
+    const [uls] = buildValleyCases({ ...basis, Cs: 0.5 }, { form: 'gable', spans: [{ width: 10, ridgeHeight: 3 }, { width: 10, ridgeHeight: 3 }] });
+
+    expect(uls.profile!.map(point => point.x)).toEqual([0, 5, 10, 15, 20]);
+    expect(uls.profile![1].load).toBeCloseTo(2.0 * 0.8 * 0.5 + 0.2, 6);
+    expect(uls.profile![2].load).toBeCloseTo(2.0 * 0.8 * 2.0 + 0.2, 6);
+  });
+});
+
+describe('buildSolarArrayCases', () => {
+  // hb = 2.0 × 0.8 / 3.06 = 0.523 m of balanced snow
+  const array = { id: 'pv', name: 'PV', tilt: 30, panelLength: 2, rowSpacing: 3, clearance: 0.8 };
+
+  it('uses the slippery Cs and sheds snow in front of panels clear of the roof snow', () => {
+    expect(calculateBalancedSnowDepth(basis)).toBeCloseTo(1.6 / 3.06, 6);
+    const cases = buildSolarArrayCases(basis, array, 30);
+    const panel = cases.find(c => c.id === 'solar-panel-pv-uls')!;
+    const sliding = cases.find(c => c.id === 'sliding-solar-pv-uls')!;
+
+    // Cs = (60 − 30)/45 on the glass
+    expect(panel.loadValue).toBeCloseTo(2.0 * 0.8 * (30 / 45) + 0.2, 6);
+    // 0.5 × 2.0 × 0.8 × 2 cos 30° kN/m over a 2 m strip
+    expect(sliding.loadValue).toBeCloseTo(1.8 + 0.5 * 1.6 * 2 * Math.cos(Math.PI / 6) / 2, 6);
+  });
+
+  it('treats panels standing in the roof snow as a projection', () => {
+    const cases = buildSolarArrayCases(basis, { ...array, tilt: 45, panelLength: 3, clearance: 0.3 }, 30);
+    const panel = cases.find(c => c.id === 'solar-panel-pv-uls')!;
+    const drift = cases.find(c => c.id === 'solar-drift-pv-uls')!;
+    const h = 0.3 + 3 * Math.sin(Math.PI / 4) - 1.6 / 3.06;
+
+    // Non-slippery Cs = (70 − 45)/40 on the glass
+    expect(panel.loadValue).toBeCloseTo(2.0 * 0.8 * (25 / 40) + 0.2, 6);
+    expect(drift.loadValue).toBeCloseTo(2.0 * 0.8 * (0.67 * 3.06 * h / 1.6) + 0.2, 6);
+    expect(cases.some(c => c.id.startsWith('sliding'))).toBe(false);
+  });
+});
+
+describe('buildCanopyCases', () => {
+  const canopy = {
+    id: 'entry',
+    name: 'Entry',
+    projection: 3,
+    slope: 5,
+    isSlippery: false,
+    wallHeight: 4,
+    upperRoofLength: 30,
+    upperRoofWidth: 20,
+    upperRoofSlope: 0,
+    upperRoofRun: 10,
+    upperRoofIsSlippery: false
+  };
+
+  it('drifts snow off the upper roof against the wall with β = 0.67', () => {
+    const cases = buildCanopyCases(basis, canopy);
+    const drift = cases.find(c => c.id === 'canopy-drift-entry-uls')!;
+    // ls = 2 × 20 − 20²/30, and F/Cb governs over βγh/(CbSs) = 5.13
+    const F = 0.35 * 0.67 * Math.sqrt(3.06 * (40 - 400 / 30) / 2.0) + 0.8;
+
+    expect(cases.find(c => c.id === 'canopy-entry-uls')!.loadValue).toBeCloseTo(1.8, 6);
+    expect(drift.loadValue).toBeCloseTo(2.0 * 0.8 * (F / 0.8) + 0.2, 6);
+    expect(cases.some(c => c.id.startsWith('sliding'))).toBe(false);
+  });
+
+  it('applies the canopy slope factor and sliding snow from a pitched upper roof', () => {
+    const cases = buildCanopyCases(basis, { ...canopy, slope: 40, upperRoofSlope: 30 });
+
+    // Cs = (70 − 40)/40 on the canopy
+    expect(cases.find(c => c.id === 'canopy-entry-uls')!.loadValue).toBeCloseTo(2.0 * 0.8 * 0.75 + 0.2, 6);
+    expect(cases.some(c => c.id === 'sliding-canopy-entry-uls')).toBe(true);
+  });
+});
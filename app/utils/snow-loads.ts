@@ -0,0 +1,689 @@
+// NBC 2020 Section 4.1.6 snow load case generation.
+// The balanced roof factors (Is, Cb, Cw, Cs, γ) are computed by the snow calculator
+// route; the functions here turn them into the additional accumulation load cases.
+
+export type SnowDesignCase = 'uls' | 'sls';
+
+export type SnowDistribution = 'uniform' | 'triangular' | 'trapezoidal' | 'unbalanced' | 'curved';
+
+export type RoofType = 'monoslope' | 'gable' | 'hip' | 'arch' | 'multispan';
+
+export type MultiSpanForm = 'gable' | 'sawtooth';
+
+// A point on a load profile, measured along the roof from the case's reference edge
+export interface SnowLoadProfilePoint {
+  x: number;    // m
+  load: number; // kN/m²
+}
+
+export interface SnowLoadCase {
+  id: string;
+  name: string;
+  description: string;
+  loadValue: number; // kN/m² (peak value for non-uniform distributions)
+  designCase: SnowDesignCase;
+  distribution: SnowDistribution;
+  driftLoad?: number; // kN/m² surcharge above the balanced load at the peak
+  profile?: SnowLoadProfilePoint[];
+}
+
+// Balanced roof snow load factors shared by every load case
+export interface SnowLoadBasis {
+  Ss: number;
+  Sr: number;
+  Is_uls: number;
+  Is_sls: number;
+  Cb: number;
+  Cw: number;
+  Cs: number;
+  gamma: number;
+}
+
+// Accumulation factor at a point along the roof
+export interface AccumulationPoint {
+  x: number;  // m
+  Ca: number;
+  Cs?: number; // local slope factor where the slope varies along the roof
+  surcharge?: number; // kN/m² added to the roof snow load before the importance factor
+}
+
+export interface LowerRoofDriftParameters {
+  enabled: boolean;
+  upperLength: number;      // m (larger plan dimension of the upper roof)
+  upperWidth: number;       // m (smaller plan dimension of the upper roof)
+  heightDifference: number; // m, h between the lower roof and the top of the upper roof
+  gap: number;              // m, horizontal distance a between the two roofs
+}
+
+export interface ArchRoofParameters {
+  span: number;         // m, b
+  rise: number;         // m, h from the springing line to the crown
+  hasEndWalls: boolean; // eaves end against walls that hold the snow on the roof
+}
+
+export interface RoofSpan {
+  width: number;       // m
+  ridgeHeight: number; // m, ridge above the valley line
+}
+
+export interface MultiSpanRoofParameters {
+  form: MultiSpanForm;
+  spans: RoofSpan[];
+}
+
+// Snow accumulation in one valley of a multi-span roof
+export interface ValleyAccumulation {
+  x: number;       // m, valley location from the first eave
+  depth: number;   // m, height of the lower adjacent ridge above the valley
+  CaLimit: number; // γh/(CbSs), the snow cannot pile above the ridges
+  Ca: number;
+}
+
+// Rooftop unit, penthouse or parapet standing on the analyzed roof
+export interface RoofProjection {
+  id: string;
+  name: string;
+  height: number; // m above the roof surface
+  length: number; // m, plan dimension
+  width: number;  // m, plan dimension
+}
+
+// Sloped upper roof whose eave drains onto the analyzed roof
+export interface SlidingRoofSource {
+  id: string;
+  name: string;
+  slope: number;       // degrees
+  run: number;         // m, horizontal distance from ridge to eave
+  eaveHeight: number;  // m, eave above the analyzed roof
+  isSlippery: boolean;
+}
+
+export interface RoofAdjacencies {
+  projections: RoofProjection[];
+  slidingRoofs: SlidingRoofSource[];
+}
+
+// Row of tilted PV panels on racking above the analyzed roof
+export interface SolarArray {
+  id: string;
+  name: string;
+  tilt: number;        // degrees
+  panelLength: number; // m, panel dimension measured up the tilt
+  rowSpacing: number;  // m, clear distance between the high edge of one row and the low edge of the next
+  clearance: number;   // m, low edge of the panels above the roof surface
+}
+
+// Cantilevered canopy at the base of a taller wall, e.g. an entrance canopy
+export interface RoofCanopy {
+  id: string;
+  name: string;
+  projection: number;          // m, cantilever out from the wall
+  slope: number;               // degrees
+  isSlippery: boolean;
+  wallHeight: number;          // m, wall above the canopy up to the upper roof
+  upperRoofLength: number;     // m, plan length of the upper roof feeding the drift
+  upperRoofWidth: number;      // m, plan width of the upper roof
+  upperRoofSlope: number;      // degrees
+  upperRoofRun: number;        // m, ridge to eave of the upper roof draining towards the canopy
+  upperRoofIsSlippery: boolean;
+}
+
+export interface RoofAttachments {
+  solarArrays: SolarArray[];
+  canopies: RoofCanopy[];
+}
+
+export type DriftSource = 'lower' | 'upper' | 'projection';
+
+export interface DriftCaseResult {
+  source: DriftSource;
+  beta: number;
+  ls: number;   // m, characteristic length of the roof supplying the snow
+  F: number;
+  Ca0: number;
+  governedBy: 'height' | 'F';
+  xd: number;   // m, full drift length measured from the face of the step
+  profile: AccumulationPoint[];
+  distribution: SnowDistribution;
+}
+
+// Drifts onto a separate lower roof are ignored when the roofs are more than 5 m apart
+export const MAX_DRIFT_GAP = 5;
+
+export function calculateCharacteristicLength(length: number, width: number): number {
+  // lc = 2w - w²/l where w = smaller dimension, l = larger dimension
+  const w = Math.min(width, length);
+  const l = Math.max(width, length);
+  if (l <= 0) return 0;
+  return 2 * w - (w * w) / l;
+}
+
+export function calculateSlopeFactor(slope: number, isSlippery: boolean): number {
+  if (isSlippery) {
+    // Slippery roof provisions (Sentence 6)
+    if (slope <= 15) return 1.0;
+    if (slope <= 60) return (60 - slope) / 45;
+    return 0;
+  }
+
+  // Regular roof provisions (Sentence 5)
+  if (slope <= 30) return 1.0;
+  if (slope <= 70) return (70 - slope) / 40;
+  return 0;
+}
+
+// S = Is × [Ss × (Cb × Cw × Cs × Ca) + Sr]
+export function calculateRoofSnowLoad(basis: SnowLoadBasis, designCase: SnowDesignCase, Ca: number, Cw = basis.Cw, Cs = basis.Cs): number {
+  const Is = designCase === 'uls' ? basis.Is_uls : basis.Is_sls;
+  return Is * (basis.Ss * (basis.Cb * Cw * Cs * Ca) + basis.Sr);
+}
+
+// Builds the ULS/SLS pair of cases for an accumulation factor profile
+export function buildAccumulationCases(
+  basis: SnowLoadBasis,
+  options: {
+    id: string;
+    name: string;
+    description: (designCase: SnowDesignCase) => string;
+    profile: AccumulationPoint[];
+    distribution: SnowDistribution;
+    Cw?: number;
+    Cs?: number;
+  }
+): SnowLoadCase[] {
+  const Cw = options.Cw ?? basis.Cw;
+  const Cs = options.Cs ?? basis.Cs;
+
+  return (['uls', 'sls'] as SnowDesignCase[]).map(designCase => {
+    const profile = options.profile.map(point => ({
+      x: point.x,
+      load: calculateRoofSnowLoad(basis, designCase, point.Ca, Cw, point.Cs ?? Cs)
+        + (designCase === 'uls' ? basis.Is_uls : basis.Is_sls) * (point.surcharge ?? 0)
+    }));
+    const peak = Math.max(...profile.map(point => point.load));
+    const balanced = calculateRoofSnowLoad(basis, designCase, 1.0);
+
+    return {
+      id: `${options.id}-${designCase}`,
+      name: `${options.name} - (${designCase.toUpperCase()})`,
+      description: options.description(designCase),
+      loadValue: peak,
+      designCase,
+      distribution: options.distribution,
+      driftLoad: Math.max(0, peak - balanced),
+      profile
+    };
+  });
+}
+
+// NBC 4.1.6.5: accumulation on the lower level of a multi-level roof.
+// Case I (β = 1.0) drifts snow from the lower roof against the step,
+// Case II (β = 0.67) drifts snow off the upper roof onto the lower roof.
+// Roof projections are treated as short steps with β = 0.67.
+export function calculateLowerRoofDrift(
+  basis: SnowLoadBasis,
+  source: DriftSource,
+  ls: number,
+  h: number,
+  gap: number,
+  lowerRoofExtent: number
+): DriftCaseResult | null {
+  const { Ss, Cb, gamma } = basis;
+  if (Ss <= 0 || h <= 0 || gap > MAX_DRIFT_GAP) return null;
+
+  const beta = source === 'lower' ? 1.0 : 0.67;
+
+  // F = 0.35β√(γls/Ss − 6(γhp/Ss)²) + Cb, with no parapet on the upper roof (hp = 0)
+  const F = 0.35 * beta * Math.sqrt(Math.max(0, (gamma * ls) / Ss)) + Cb;
+
+  // Ca0 is the lesser of βγh/(CbSs) and F/Cb
+  const CaHeight = (beta * gamma * h) / (Cb * Ss);
+  const CaF = F / Cb;
+  const governedBy = CaHeight < CaF ? 'height' : 'F';
+  const Ca0 = Math.max(1.0, Math.min(CaHeight, CaF));
+
+  // xd = 5(CbSs/γ)(F − Cb), but not more than 5h
+  const xd = Math.min(5 * h, 5 * (Cb * Ss / gamma) * (F - Cb));
+
+  if (Ca0 <= 1.0 || xd <= gap) return null;
+
+  // The lower roof starts a distance a from the step, which truncates the drift
+  const caAt = (distanceFromStep: number) => Ca0 - (Ca0 - 1.0) * (distanceFromStep / xd);
+  const driftEnd = xd - gap;
+  const profile: AccumulationPoint[] = [{ x: 0, Ca: caAt(gap) }];
+
+  if (driftEnd < lowerRoofExtent) {
+    profile.push({ x: driftEnd, Ca: 1.0 }, { x: lowerRoofExtent, Ca: 1.0 });
+  } else {
+    profile.push({ x: lowerRoofExtent, Ca: caAt(gap + lowerRoofExtent) });
+  }
+
+  return {
+    source,
+    beta,
+    ls,
+    F,
+    Ca0,
+    governedBy,
+    xd,
+    profile,
+    distribution: gap === 0 && driftEnd < lowerRoofExtent ? 'triangular' : 'trapezoidal'
+  };
+}
+
+export function buildLowerRoofDriftCases(
+  basis: SnowLoadBasis,
+  params: LowerRoofDriftParameters,
+  lowerRoofLc: number,
+  lowerRoofExtent: number
+): SnowLoadCase[] {
+  if (!params.enabled) return [];
+
+  const upperRoofLc = calculateCharacteristicLength(params.upperLength, params.upperWidth);
+  const sources: { source: DriftSource; ls: number; label: string }[] = [
+    { source: 'lower', ls: lowerRoofLc, label: 'Case I' },
+    { source: 'upper', ls: upperRoofLc, label: 'Case II' }
+  ];
+
+  return sources.flatMap(({ source, ls, label }) => {
+    const drift = calculateLowerRoofDrift(basis, source, ls, params.heightDifference, params.gap, lowerRoofExtent);
+    if (!drift) return [];
+
+    const edgeCa = drift.profile[0].Ca;
+
+    // Cw is taken as 1.0 over the drift area
+    return buildAccumulationCases(basis, {
+      id: `drift-${source}`,
+      name: `Lower Roof Drift ${label} (β = ${drift.beta.toFixed(2)})`,
+      description: (designCase) => {
+        const Is = designCase === 'uls' ? basis.Is_uls : basis.Is_sls;
+        return `C_{a0} = \\min\\left(\\frac{\\beta \\gamma h}{C_b S_s}, \\frac{F}{C_b}\\right) = \\min\\left(\\frac{${drift.beta} \\times ${basis.gamma.toFixed(2)} \\times ${params.heightDifference}}{${basis.Cb.toFixed(3)} \\times ${basis.Ss}}, \\frac{${drift.F.toFixed(3)}}{${basis.Cb.toFixed(3)}}\\right) = ${drift.Ca0.toFixed(2)}, \\; l_s = ${ls.toFixed(2)} \\text{ m}, \\; x_d = ${drift.xd.toFixed(2)} \\text{ m}, \\; a = ${params.gap} \\text{ m}, \\; S = ${Is.toFixed(2)} \\times [${basis.Ss} \\times (${basis.Cb.toFixed(3)} \\times 1.0 \\times ${basis.Cs.toFixed(2)} \\times ${edgeCa.toFixed(2)}) + ${basis.Sr}]`;
+      },
+      profile: drift.profile,
+      distribution: drift.distribution,
+      Cw: 1.0
+    });
+  });
+}
+
+// Unbalanced load factor on the leeward face of a gable or hip roof (NBC 4.1.6.7)
+export function calculateUnbalancedAccumulationFactor(slope: number): number {
+  if (slope <= 15) return 0;
+  if (slope <= 20) return 0.25 + slope / 20;
+  return 1.25;
+}
+
+// Gable and hip roofs steeper than 15° get a windward/leeward split with no snow on the
+// windward face. The profile runs across the roof from the windward eave, ridge at mid-width.
+export function buildUnbalancedRoofCases(
+  basis: SnowLoadBasis,
+  roofType: RoofType,
+  slope: number,
+  width: number
+): SnowLoadCase[] {
+  if (roofType === 'monoslope') return [];
+
+  const CaLeeward = calculateUnbalancedAccumulationFactor(slope);
+  if (CaLeeward === 0 || basis.Cs === 0) return [];
+
+  const ridge = width / 2;
+  const faces = roofType === 'hip' ? 'each pair of opposite hip faces' : 'the two gable faces';
+  const caFormula = slope <= 20
+    ? `C_a = 0.25 + \\frac{\\alpha}{20} = 0.25 + \\frac{${slope}}{20} = ${CaLeeward.toFixed(2)}`
+    : `C_a = 1.25 \\; (\\alpha > 20°)`;
+
+  return buildAccumulationCases(basis, {
+    id: `unbalanced-${roofType}`,
+    name: `Unbalanced ${roofType === 'hip' ? 'Hip' : 'Gable'} Roof Load`,
+    description: (designCase) => {
+      const Is = designCase === 'uls' ? basis.Is_uls : basis.Is_sls;
+      return `\\text{Across ${faces}: windward } C_a = 0, \\text{ leeward } ${caFormula}, \\; S_{lee} = ${Is.toFixed(2)} \\times [${basis.Ss} \\times (${basis.Cb.toFixed(3)} \\times ${basis.Cw} \\times ${basis.Cs.toFixed(2)} \\times ${CaLeeward.toFixed(2)}) + ${basis.Sr}]`;
+    },
+    profile: [
+      { x: 0, Ca: 0 },
+      { x: ridge, Ca: 0 },
+      { x: ridge, Ca: CaLeeward },
+      { x: width, Ca: CaLeeward }
+    ],
+    distribution: 'unbalanced'
+  });
+}
+
+export function calculateArchRadius(arch: ArchRoofParameters): number {
+  return (arch.span * arch.span / 4 + arch.rise * arch.rise) / (2 * arch.rise);
+}
+
+// Local slope of a circular arch at a distance x from the windward springing line
+export function calculateArchSlope(arch: ArchRoofParameters, x: number): number {
+  const { span, rise } = arch;
+  if (span <= 0 || rise <= 0) return 0;
+
+  const radius = calculateArchRadius(arch);
+  const offset = Math.min(Math.abs(x - span / 2), radius);
+  return Math.atan(offset / Math.sqrt(Math.max(radius * radius - offset * offset, 1e-9))) * 180 / Math.PI;
+}
+
+// Curved roofs (NBC 4.1.6.7, Commentary G): the balanced case follows the local slope
+// factor along the arch; the unbalanced case clears the windward half and builds up on
+// the leeward half from 0.5 at the crown to 2.0 where the surface reaches 30°.
+export function buildArchRoofCases(
+  basis: SnowLoadBasis,
+  arch: ArchRoofParameters,
+  isSlippery: boolean,
+  segments = 24
+): SnowLoadCase[] {
+  const { span, rise, hasEndWalls } = arch;
+  if (span <= 0 || rise <= 0) return [];
+
+  const ratio = rise / span;
+  const stations = Array.from({ length: segments + 1 }, (_, i) => (span * i) / segments);
+  const eaveSlope = calculateArchSlope(arch, 0);
+
+  const balancedProfile: AccumulationPoint[] = stations.map(x => ({
+    x,
+    Ca: 1.0,
+    Cs: calculateSlopeFactor(calculateArchSlope(arch, x), isSlippery)
+  }));
+
+  const cases = buildAccumulationCases(basis, {
+    id: 'arch-balanced',
+    name: 'Balanced Curved Roof Load',
+    description: (designCase) => {
+      const Is = designCase === 'uls' ? basis.Is_uls : basis.Is_sls;
+      return `C_a = 1.0, \\; C_s = C_s(\\alpha(x)), \\; \\alpha_{eave} = ${eaveSlope.toFixed(1)}°, \\; S_{crown} = ${Is.toFixed(2)} \\times [${basis.Ss} \\times (${basis.Cb.toFixed(3)} \\times ${basis.Cw} \\times 1.00 \\times 1.00) + ${basis.Sr}]`;
+    },
+    profile: balancedProfile,
+    distribution: 'curved'
+  });
+
+  // Shallow arches (h/b ≤ 0.05) behave as flat roofs and need no unbalanced case
+  if (ratio <= 0.05) return cases;
+
+  // Leeward station where the arch surface reaches 30°, or the eave if it never does
+  const x30 = eaveSlope > 30 ? span / 2 + calculateArchRadius(arch) * Math.sin(Math.PI / 6) : span;
+
+  const unbalancedStations = x30 < span ? [...stations.filter(x => x < x30), x30, ...stations.filter(x => x > x30)] : stations;
+  const unbalancedProfile: AccumulationPoint[] = unbalancedStations.map(x => {
+    if (x < span / 2) return { x, Ca: 0 };
+    if (x <= x30) {
+      return { x, Ca: 0.5 + 1.5 * (x - span / 2) / (x30 - span / 2), Cs: 1.0 };
+    }
+    // Beyond the 30° point snow slides off unless end walls hold it on the roof
+    return { x, Ca: 2.0, Cs: hasEndWalls ? 1.0 : calculateSlopeFactor(calculateArchSlope(arch, x), isSlippery) };
+  });
+  // Step from the bare windward half to the crown value
+  const crownIndex = unbalancedProfile.findIndex(point => point.x >= span / 2);
+  unbalancedProfile.splice(crownIndex, 0, { x: span / 2, Ca: 0 });
+
+  return cases.concat(buildAccumulationCases(basis, {
+    id: 'arch-unbalanced',
+    name: 'Unbalanced Curved Roof Load',
+    description: (designCase) => {
+      const Is = designCase === 'uls' ? basis.Is_uls : basis.Is_sls;
+      return `\\frac{h}{b} = \\frac{${rise}}{${span}} = ${ratio.toFixed(3)}, \\; \\text{windward } C_a = 0, \\; \\text{leeward } C_a = 0.5 \\rightarrow 2.0 \\text{ at } x_{30°} = ${x30.toFixed(2)} \\text{ m}${hasEndWalls ? ' \\text{ (held by end walls)}' : ''}, \\; S_{max} = ${Is.toFixed(2)} \\times [${basis.Ss} \\times (${basis.Cb.toFixed(3)} \\times ${basis.Cw} \\times 1.00 \\times 2.00) + ${basis.Sr}]`;
+    },
+    profile: unbalancedProfile,
+    distribution: 'curved'
+  }));
+}
+
+// Snow slides off slippery roofs steeper than 1:12 and other roofs steeper than 2:12
+export function canSnowSlide(slope: number, isSlippery: boolean): boolean {
+  return isSlippery ? slope > 4.8 : slope > 9.5;
+}
+
+// Sliding snow is spread over a 2 m strip of the lower roof next to the upper eave
+export const SLIDING_SNOW_WIDTH = 2;
+
+// Projection drifts against rooftop units, penthouses and parapets (NBC 4.1.6.5)
+export function buildProjectionDriftCases(
+  basis: SnowLoadBasis,
+  projection: RoofProjection,
+  roofLc: number,
+  roofExtent: number
+): SnowLoadCase[] {
+  const drift = calculateLowerRoofDrift(basis, 'projection', roofLc, projection.height, 0, roofExtent);
+  if (!drift) return [];
+
+  const perimeter = 2 * (projection.length + projection.width);
+
+  return buildAccumulationCases(basis, {
+    id: `projection-${projection.id}`,
+    name: `Projection Drift: ${projection.name}`,
+    description: (designCase) => {
+      const Is = designCase === 'uls' ? basis.Is_uls : basis.Is_sls;
+      const surcharge = Is * basis.Ss * basis.Cb * basis.Cs * (drift.Ca0 - 1.0);
+      return `h = ${projection.height} \\text{ m}, \\; C_{a0} = \\min\\left(\\frac{0.67 \\times ${basis.gamma.toFixed(2)} \\times ${projection.height}}{${basis.Cb.toFixed(3)} \\times ${basis.Ss}}, \\frac{${drift.F.toFixed(3)}}{${basis.Cb.toFixed(3)}}\\right) = ${drift.Ca0.toFixed(2)}, \\; x_d = ${drift.xd.toFixed(2)} \\text{ m}, \\; \\Sigma W \\approx \\frac{1}{2} \\times ${surcharge.toFixed(2)} \\times ${drift.xd.toFixed(2)} \\times ${perimeter.toFixed(1)} = ${(0.5 * surcharge * drift.xd * perimeter).toFixed(1)} \\text{ kN}`;
+    },
+    profile: drift.profile,
+    distribution: drift.distribution,
+    Cw: 1.0
+  });
+}
+
+// Sliding snow from a sloped upper roof (Commentary G): half of the upper roof's
+// balanced snow slides onto a 2 m strip of the lower roof, with the pile limited to
+// the eave height above the analyzed roof.
+export function buildSlidingSnowCases(
+  basis: SnowLoadBasis,
+  source: SlidingRoofSource,
+  roofExtent: number
+): SnowLoadCase[] {
+  if (!canSnowSlide(source.slope, source.isSlippery) || source.run <= 0) return [];
+
+  const { Ss, Cb, Cw, Cs, gamma } = basis;
+  const stripWidth = Math.min(SLIDING_SNOW_WIDTH, roofExtent);
+
+  // Snow on the upper roof is taken with Cs = 1.0 since it is the snow that leaves it
+  const slidingPerMetre = 0.5 * Ss * Cb * Cw * source.run;
+  const balanced = Ss * Cb * Cw * Cs;
+  const depthLimit = Math.max(0, gamma * source.eaveHeight - balanced);
+  const surcharge = Math.min(slidingPerMetre / stripWidth, depthLimit);
+  if (surcharge <= 0) return [];
+
+  return buildAccumulationCases(basis, {
+    id: `sliding-${source.id}`,
+    name: `Sliding Snow: ${source.name}`,
+    description: (designCase) => {
+      const Is = designCase === 'uls' ? basis.Is_uls : basis.Is_sls;
+      return `\\alpha_u = ${source.slope}°, \\; W_s = 0.5 \\times ${Ss} \\times ${Cb.toFixed(3)} \\times ${Cw} \\times ${source.run} = ${slidingPerMetre.toFixed(2)} \\text{ kN/m}, \\; \\Delta S = \\min\\left(\\frac{${slidingPerMetre.toFixed(2)}}{${stripWidth.toFixed(1)}}, \\gamma h_e - S_{bal} = ${depthLimit.toFixed(2)}\\right) = ${surcharge.toFixed(2)} \\text{ kPa}, \\; S = ${Is.toFixed(2)} \\times [${balanced.toFixed(2)} + ${surcharge.toFixed(2)} + ${basis.Sr}]`;
+    },
+    profile: [
+      { x: 0, Ca: 1.0, surcharge },
+      { x: stripWidth, Ca: 1.0, surcharge },
+      { x: stripWidth, Ca: 1.0 },
+      { x: roofExtent, Ca: 1.0 }
+    ],
+    distribution: 'uniform'
+  });
+}
+
+export function buildAdjacencyCases(
+  basis: SnowLoadBasis,
+  adjacencies: RoofAdjacencies,
+  roofLc: number,
+  roofExtent: number
+): SnowLoadCase[] {
+  return [
+    ...adjacencies.projections.flatMap(projection => buildProjectionDriftCases(basis, projection, roofLc, roofExtent)),
+    ...adjacencies.slidingRoofs.flatMap(source => buildSlidingSnowCases(basis, source, roofExtent))
+  ];
+}
+
+// Valleys of multi-span gable and sawtooth roofs (Commentary G): Ca rises linearly from
+// 0.5 at the ridges to 2.0 in the valley, but the snow cannot pile above the lower
+// adjacent ridge, so Ca in the valley is limited to γh/(CbSs). A shallow valley can fall
+// below 1.0 this way; the balanced case still covers the roof with Ca = 1.0.
+export function calculateValleyAccumulations(basis: SnowLoadBasis, roof: MultiSpanRoofParameters): ValleyAccumulation[] {
+  const { Ss, Cb, gamma } = basis;
+  const valleys: ValleyAccumulation[] = [];
+  if (Ss <= 0) return valleys;
+
+  let x = 0;
+  roof.spans.forEach((span, index) => {
+    x += span.width;
+    const next = roof.spans[index + 1];
+    if (!next) return;
+
+    // A sawtooth valley sits at the foot of the vertical face of the span's own ridge
+    const depth = roof.form === 'sawtooth' ? span.ridgeHeight : Math.min(span.ridgeHeight, next.ridgeHeight);
+    const CaLimit = (gamma * depth) / (Cb * Ss);
+    valleys.push({ x, depth, CaLimit, Ca: Math.min(2.0, CaLimit) });
+  });
+
+  return valleys;
+}
+
+export function buildValleyCases(basis: SnowLoadBasis, roof: MultiSpanRoofParameters): SnowLoadCase[] {
+  const valleys = calculateValleyAccumulations(basis, roof);
+  if (valleys.length === 0) return [];
+
+  const profile: AccumulationPoint[] = [];
+  let x = 0;
+  roof.spans.forEach((span, index) => {
+    const leftValley = valleys[index - 1];
+    const rightValley = valleys[index];
+
+    if (roof.form === 'sawtooth') {
+      // Each span slopes up from its valley to a ridge with a vertical face
+      profile.push({ x, Ca: leftValley ? leftValley.Ca : 0.5 }, { x: x + span.width, Ca: 0.5 });
+    } else {
+      profile.push({ x, Ca: leftValley ? leftValley.Ca : 0.5 }, { x: x + span.width / 2, Ca: 0.5 });
+      if (!rightValley) profile.push({ x: x + span.width, Ca: 0.5 });
+    }
+    x += span.width;
+  });
+
+  const valleyList = valleys
+    .map((valley, index) => `C_{a,${index + 1}} = \\min\\left(2.0, \\frac{${basis.gamma.toFixed(2)} \\times ${valley.depth}}{${basis.Cb.toFixed(3)} \\times ${basis.Ss}}\\right) = ${valley.Ca.toFixed(2)}`)
+    .join(', \\; ');
+  const peakCa = Math.max(...valleys.map(valley => valley.Ca));
+
+  // Slope does not reduce snow held in a valley, and Cw is taken as 1.0 over the accumulation
+  return buildAccumulationCases(basis, {
+    id: `valley-${roof.form}`,
+    name: `Valley Accumulation (${roof.form === 'sawtooth' ? 'Sawtooth' : 'Multi-span Gable'})`,
+    description: (designCase) => {
+      const Is = designCase === 'uls' ? basis.Is_uls : basis.Is_sls;
+      return `C_{a,ridge} = 0.5, \\; ${valleyList}, \\; S_{valley} = ${Is.toFixed(2)} \\times [${basis.Ss} \\times (${basis.Cb.toFixed(3)} \\times 1.0 \\times 1.0 \\times ${peakCa.toFixed(2)}) + ${basis.Sr}]`;
+    },
+    profile,
+    distribution: 'triangular',
+    Cw: 1.0,
+    Cs: 1.0
+  });
+}
+
+// Depth of the balanced snow on the analyzed roof
+export function calculateBalancedSnowDepth(basis: SnowLoadBasis): number {
+  return (basis.Ss * basis.Cb * basis.Cw * basis.Cs) / basis.gamma;
+}
+
+// PV arrays: snow on the glass uses the slippery Cs only when the low edge clears the
+// roof snow, since otherwise the snow has nowhere to slide. Snow shed by a row lands in
+// the gap in front of it, and rows standing in the roof snow act as a projection whose
+// drift is cut off by the next row.
+export function buildSolarArrayCases(basis: SnowLoadBasis, array: SolarArray, roofLc: number): SnowLoadCase[] {
+  const tilt = (array.tilt * Math.PI) / 180;
+  const panelRun = array.panelLength * Math.cos(tilt);
+  const topHeight = array.clearance + array.panelLength * Math.sin(tilt);
+  const snowDepth = calculateBalancedSnowDepth(basis);
+  const isClear = array.clearance > snowDepth;
+  const panelCs = calculateSlopeFactor(array.tilt, isClear);
+  const cases: SnowLoadCase[] = [];
+
+  cases.push(...buildAccumulationCases(basis, {
+    id: `solar-panel-${array.id}`,
+    name: `Solar Panels: ${array.name}`,
+    description: (designCase) => {
+      const Is = designCase === 'uls' ? basis.Is_uls : basis.Is_sls;
+      return `\\alpha = ${array.tilt}°, \\; h_b = ${snowDepth.toFixed(2)} \\text{ m} ${isClear ? '<' : '\\geq'} c = ${array.clearance} \\text{ m} \\Rightarrow C_s = ${panelCs.toFixed(2)} \\text{ (${isClear ? 'slippery' : 'non-slippery'})}, \\; S = ${Is.toFixed(2)} \\times [${basis.Ss} \\times (${basis.Cb.toFixed(3)} \\times ${basis.Cw} \\times ${panelCs.toFixed(2)} \\times 1.0) + ${basis.Sr}]`;
+    },
+    profile: [{ x: 0, Ca: 1.0 }, { x: panelRun, Ca: 1.0 }],
+    distribution: 'uniform',
+    Cs: panelCs
+  }));
+
+  if (isClear) {
+    cases.push(...buildSlidingSnowCases(basis, {
+      id: `solar-${array.id}`,
+      name: `${array.name} (panels)`,
+      slope: array.tilt,
+      run: panelRun,
+      eaveHeight: array.clearance,
+      isSlippery: true
+    }, array.rowSpacing));
+    return cases;
+  }
+
+  const drift = calculateLowerRoofDrift(basis, 'projection', roofLc, topHeight - snowDepth, 0, array.rowSpacing);
+  if (drift) {
+    cases.push(...buildAccumulationCases(basis, {
+      id: `solar-drift-${array.id}`,
+      name: `Solar Array Drift: ${array.name}`,
+      description: (designCase) => {
+        const Is = designCase === 'uls' ? basis.Is_uls : basis.Is_sls;
+        return `h = ${topHeight.toFixed(2)} - ${snowDepth.toFixed(2)} = ${(topHeight - snowDepth).toFixed(2)} \\text{ m}, \\; C_{a0} = ${drift.Ca0.toFixed(2)}, \\; x_d = ${drift.xd.toFixed(2)} \\text{ m}, \\; s = ${array.rowSpacing} \\text{ m}, \\; S = ${Is.toFixed(2)} \\times [${basis.Ss} \\times (${basis.Cb.toFixed(3)} \\times 1.0 \\times ${basis.Cs.toFixed(2)} \\times ${drift.Ca0.toFixed(2)}) + ${basis.Sr}]`;
+      },
+      profile: drift.profile,
+      distribution: drift.distribution,
+      Cw: 1.0
+    }));
+  }
+
+  return cases;
+}
+
+// Canopies take their own Cs, a Case II drift of snow blown off the upper roof against the
+// wall above them (β = 0.67, ls from the upper roof) and sliding snow draining over the wall.
+// The canopy is too small to supply a Case I drift of its own.
+export function buildCanopyCases(basis: SnowLoadBasis, canopy: RoofCanopy): SnowLoadCase[] {
+  const canopyCs = calculateSlopeFactor(canopy.slope, canopy.isSlippery);
+  const canopyBasis: SnowLoadBasis = { ...basis, Cs: canopyCs };
+  const cases: SnowLoadCase[] = [];
+
+  cases.push(...buildAccumulationCases(canopyBasis, {
+    id: `canopy-${canopy.id}`,
+    name: `Canopy: ${canopy.name}`,
+    description: (designCase) => {
+      const Is = designCase === 'uls' ? basis.Is_uls : basis.Is_sls;
+      return `\\alpha = ${canopy.slope}° \\Rightarrow C_s = ${canopyCs.toFixed(2)}, \\; S = ${Is.toFixed(2)} \\times [${basis.Ss} \\times (${basis.Cb.toFixed(3)} \\times ${basis.Cw} \\times ${canopyCs.toFixed(2)} \\times 1.0) + ${basis.Sr}]`;
+    },
+    profile: [{ x: 0, Ca: 1.0 }, { x: canopy.projection, Ca: 1.0 }],
+    distribution: 'uniform'
+  }));
+
+  const upperRoofLc = calculateCharacteristicLength(canopy.upperRoofLength, canopy.upperRoofWidth);
+  const drift = calculateLowerRoofDrift(canopyBasis, 'upper', upperRoofLc, canopy.wallHeight, 0, canopy.projection);
+  if (drift) {
+    cases.push(...buildAccumulationCases(canopyBasis, {
+      id: `canopy-drift-${canopy.id}`,
+      name: `Canopy Drift: ${canopy.name}`,
+      description: (designCase) => {
+        const Is = designCase === 'uls' ? basis.Is_uls : basis.Is_sls;
+        return `\\beta = ${drift.beta}, \\; l_s = ${upperRoofLc.toFixed(2)} \\text{ m}, \\; h = ${canopy.wallHeight} \\text{ m}, \\; F = ${drift.F.toFixed(3)}, \\; C_{a0} = ${drift.Ca0.toFixed(2)}, \\; x_d = ${drift.xd.toFixed(2)} \\text{ m}, \\; S = ${Is.toFixed(2)} \\times [${basis.Ss} \\times (${basis.Cb.toFixed(3)} \\times 1.0 \\times ${canopyCs.toFixed(2)} \\times ${drift.Ca0.toFixed(2)}) + ${basis.Sr}]`;
+      },
+      profile: drift.profile,
+      distribution: drift.distribution,
+      Cw: 1.0
+    }));
+  }
+
+  cases.push(...buildSlidingSnowCases(canopyBasis, {
+    id: `canopy-${canopy.id}`,
+    name: `${canopy.name} (upper roof onto canopy)`,
+    slope: canopy.upperRoofSlope,
+    run: canopy.upperRoofRun,
+    eaveHeight: canopy.wallHeight,
+    isSlippery: canopy.upperRoofIsSlippery
+  }, canopy.projection));
+
+  return cases;
+}
+
+export function buildAttachmentCases(basis: SnowLoadBasis, attachments: RoofAttachments, roofLc: number): SnowLoadCase[] {
+  return [
+    ...attachments.solarArrays.flatMap(array => buildSolarArrayCases(basis, array, roofLc)),
+    ...attachments.canopies.flatMap(canopy => buildCanopyCases(basis, canopy))
+  ];
+}
@@ -0,0 +1,455 @@
+import { describe, expect, it } from 'vitest';
+import {
+  APPURTENANCE_COEFFICIENTS,
+  buildAppurtenanceSurfaces,
+  buildFloorLevelsFromElevations,
+  buildLowRiseSurfaces,
+  buildMwfrsLoadCases,
+  buildTornadoLoadResults,
+  calculateDynamicGustFactor,
+  calculateEndZoneWidth,
+  calculateExposureFactor,
+  calculateInternalPressures,
+  calculatePeakAcceleration,
+  calculateReferenceWindSpeed,
+  calculateStoreyDrifts,
+  calculateStoreyShears,
+  calculateStoreyWindForces,
+  calculateTopographicFactor,
+  calculateTransitionExposureFactor,
+  compareTornadoToWind,
+  determineInternalPressureCategory,
+  getAppurtenanceCladdingCoefficient,
+  getCladdingCoefficients,
+  getCladdingRoofCategory,
+  getLowRiseCoefficient,
+  getPressureBasis,
+  getRoughFetchRequired,
+  getTornadoDesign,
+  isLowRiseBuilding,
+  isTornadoProneLocation,
+  type WindPressureParameters,
+  type WindSurface
+} from './wind-loads';
+
+describe('calculateExposureFactor', () => {
+  it('follows (h/10)^0.2 in open terrain, not less than 0.9', () => {
+    expect(calculateExposureFactor(20, 'open')).toBeCloseTo(Math.pow(2, 0.2), 6);
+    expect(calculateExposureFactor(5, 'open')).toBe(0.9);
+  });
+
+  it('follows 0.7(h/10)^0.3 in rough terrain, not less than 0.7', () => {
+    expect(calculateExposureFactor(20, 'rough')).toBeCloseTo(0.7 * Math.pow(2, 0.3), 6);
+    expect(calculateExposureFactor(5, 'rough')).toBe(0.7);
+  });
+
+  it('uses the dynamic procedure profiles when asked', () => {
+    expect(calculateExposureFactor(40, 'open', 'dynamic')).toBeCloseTo(Math.pow(4, 0.28), 6);
+    expect(calculateExposureFactor(50.8, 'rough', 'dynamic')).toBeCloseTo(1.0, 6);
+    expect(calculateExposureFactor(5, 'rough', 'dynamic')).toBe(0.5);
+  });
+});
+
+describe('calculateTransitionExposureFactor', () => {
+  const open = calculateExposureFactor(20, 'open');
+  const rough = calculateExposureFactor(20, 'rough');
+
+  it('keeps the open value without a terrain change', () => {
+    expect(calculateTransitionExposureFactor(20, [{ id: '1', roughness: 'open', distance: 200 }], 20).Ce).toBe(open);
+  });
+
+  it('moves from the rough to the open value over 1 km of open terrain', () => {
+    const sectors = [
+      { id: '1', roughness: 'open' as const, distance: 500 },
+      { id: '2', roughness: 'rough' as const, distance: 2000 }
+    ];
+    expect(calculateTransitionExposureFactor(20, sectors, 20).Ce).toBeCloseTo(rough + 0.5 * (open - rough), 6);
+  });
+
+  it('moves from the open to the rough value as the rough fetch lengthens', () => {
+    const sectors = [
+      { id: '1', roughness: 'rough' as const, distance: 250 },
+      { id: '2', roughness: 'open' as const, distance: 2000 }
+    ];
+    expect(getRoughFetchRequired(20)).toBe(1000);
+    expect(calculateTransitionExposureFactor(20, sectors, 20).Ce).toBeCloseTo(open - 0.25 * (open - rough), 6);
+  });
+
+  it('needs a rough fetch of 20 times the height on tall buildings', () => {
+    expect(getRoughFetchRequired(80)).toBe(1600);
+  });
+});
+
+describe('calculateTopographicFactor', () => {
+  it('is 1.0 on level terrain', () => {
+    expect(calculateTopographicFactor({ shape: 'flat', H: 0, Lh: 0, x: 0, z: 0 }).Ct).toBe(1.0);
+  });
+
+  it('squares the speed-up at the crest of a ridge', () => {
+    const { Ct, deltaS } = calculateTopographicFactor({ shape: 'ridge', H: 50, Lh: 100, x: 0, z: 0 });
+    expect(deltaS).toBeCloseTo(2.2 * 0.5, 6);
+    expect(Ct).toBeCloseTo(Math.pow(1 + 1.1, 2), 6);
+  });
+
+  it('treats slopes steeper than H/Lh = 0.5 as Lh = 2H', () => {
+    const steep = calculateTopographicFactor({ shape: 'ridge', H: 50, Lh: 50, x: 0, z: 0 });
+    expect(steep.Ct).toBeCloseTo(calculateTopographicFactor({ shape: 'ridge', H: 50, Lh: 100, x: 0, z: 0 }).Ct, 6);
+  });
+
+  it('decays with distance from the crest and height above ground', () => {
+    const { deltaS } = calculateTopographicFactor({ shape: 'escarpment', H: 20, Lh: 80, x: 100, z: 10 });
+    expect(deltaS).toBeCloseTo(1.3 * (20 / 80) * (1 - 100 / (4 * 80)) * Math.exp((-2.5 * 10) / 80), 6);
+  });
+});
+
+describe('determineInternalPressureCategory', () => {
+  it('puts small uniform openings in Category 1', () => {
+    expect(determineInternalPressureCategory({ openingRatio: 0.1, distribution: 'uniform', hasDominantOpening: false }).category).toBe(1);
+  });
+
+  it('puts larger or uneven openings in Category 2', () => {
+    expect(determineInternalPressureCategory({ openingRatio: 0.5, distribution: 'uniform', hasDominantOpening: false }).category).toBe(2);
+    expect(determineInternalPressureCategory({ openingRatio: 0.1, distribution: 'nonuniform', hasDominantOpening: false }).category).toBe(2);
+  });
+
+  it('puts a dominant opening in Category 3', () => {
+    expect(determineInternalPressureCategory({ openingRatio: 0, distribution: 'uniform', hasDominantOpening: true }).category).toBe(3);
+  });
+});
+
+describe('calculateInternalPressures', () => {
+  const params: WindPressureParameters = { q: 0.5, importance: 'normal', terrain: 'open', Ct: 1.0 };
+
+  it('applies Cpi from -0.15 to 0 with Ce at mid-height in Category 1', () => {
+    const [uls, sls] = calculateInternalPressures(params, 1, 20);
+    expect(uls.Ce).toBeCloseTo(1.0, 6);
+    expect(uls.min).toBeCloseTo(0.5 * 2.0 * -0.15, 6);
+    expect(uls.max).toBeCloseTo(0, 6);
+    expect(sls.min).toBeCloseTo(0.75 * 0.5 * 2.0 * -0.15, 6);
+  });
+
+  it('applies Cpi from -0.45 to 0.3 in Category 2', () => {
+    const [uls] = calculateInternalPressures(params, 2, 20);
+    expect(uls.min).toBeCloseTo(0.5 * 2.0 * -0.45, 6);
+    expect(uls.max).toBeCloseTo(0.5 * 2.0 * 0.3, 6);
+  });
+
+  it('takes Ce at the roof height through a dominant opening', () => {
+    const [uls] = calculateInternalPressures(params, 3, 20);
+    const Ce = Math.pow(2, 0.2);
+    expect(uls.Ce).toBeCloseTo(Ce, 6);
+    expect(uls.min).toBeCloseTo(0.5 * Ce * 2.0 * -0.7, 6);
+    expect(uls.max).toBeCloseTo(0.5 * Ce * 2.0 * 0.7, 6);
+  });
+});
+
+describe('isTornadoProneLocation', () => {
+  it('places southern prairie and central Canadian locations in the region', () => {
+    expect(isTornadoProneLocation({ province: 'Manitoba', latitude: 49.9, longitude: 97.14 })).toBe(true);
+    expect(isTornadoProneLocation({ province: 'Ontario', latitude: 43.65, longitude: 79.38 })).toBe(true);
+  });
+
+  it('leaves out the mountains, the north and provinces outside the region', () => {
+    expect(isTornadoProneLocation({ province: 'Alberta', latitude: 51.17, longitude: 115.57 })).toBe(false);
+    expect(isTornadoProneLocation({ province: 'Alberta', latitude: 56.73, longitude: 111.38 })).toBe(false);
+    expect(isTornadoProneLocation({ province: 'British Columbia', latitude: 49.28, longitude: 123.12 })).toBe(false);
+  });
+
+  it('returns null when a location in a region province cannot be placed', () => {
+    expect(isTornadoProneLocation({ province: 'Quebec' })).toBeNull();
+  });
+});
+
+describe('getTornadoDesign', () => {
+  it('designs high importance buildings for EF1 and post-disaster buildings for EF2', () => {
+    // qT = ½ × 1.2929 × (175/3.6)² and ½ × 1.2929 × (220/3.6)², in kPa
+    expect(getTornadoDesign('high', true)!.q).toBeCloseTo(0.5 * 1.2929 * Math.pow(175 / 3.6, 2) / 1000, 6);
+    expect(getTornadoDesign('high', true)!.q).toBeCloseTo(1.5276, 4);
+    expect(getTornadoDesign('post-disaster', true)!.rating).toBe('EF2');
+    expect(getTornadoDesign('post-disaster', true)!.q).toBeCloseTo(2.4142, 4);
+  });
+
+  it('needs no tornado check for normal buildings or outside the region', () => {
+    expect(getTornadoDesign('normal', true)).toBeNull();
+    expect(getTornadoDesign('post-disaster', false)).toBeNull();
+  });
+});
+
+describe('buildTornadoLoadResults', () => {
+  it('applies p = qT·Cp with Ce = Cg = 1.0, less qT·Cpi', () => {
+    const tornado = getTornadoDesign('high', true)!;
+    const surface = { id: 'ww', surface: 'Windward wall', description: '', Cp: 0.8, Cg: 2.0, area: 10, referenceHeight: 10, face: 'windward' as const };
+    const [result] = buildTornadoLoadResults([surface], tornado, 2);
+
+    expect(result.pressure).toBeCloseTo(tornado.q * 0.8, 6);
+    expect(result.force).toBeCloseTo(tornado.q * 8, 6);
+    expect(result.netPositive).toBeCloseTo(tornado.q * (0.8 + 0.45), 6);
+    expect(result.netNegative).toBeCloseTo(tornado.q * (0.8 - 0.3), 6);
+
+    const [comparison] = compareTornadoToWind([{ ...result, id: 'ww-uls', pressure: 0.9 }], [result]);
+    expect(comparison).toEqual({ id: 'ww', surface: 'Windward wall', Cp: 0.8, wind: 0.9, tornado: result.pressure });
+  });
+});
+
+describe('isLowRiseBuilding', () => {
+  it('applies Figure 4.1.7.6-A up to 20 m and no taller than the least width', () => {
+    expect(isLowRiseBuilding(8, 30, 20)).toBe(true);
+    expect(isLowRiseBuilding(12, 30, 10)).toBe(false);
+    expect(isLowRiseBuilding(22, 60, 40)).toBe(false);
+  });
+});
+
+describe('calculateEndZoneWidth', () => {
+  it('takes y = max(6 m, 2z)', () => {
+    // z = min(0.1 × 20, 0.4 × 8) = 2 m
+    expect(calculateEndZoneWidth(8, 30, 20)).toEqual({ y: 6, z: 2 });
+    // z = min(0.1 × 60, 0.4 × 15) = 6 m
+    expect(calculateEndZoneWidth(15, 100, 60)).toEqual({ y: 12, z: 6 });
+  });
+});
+
+describe('getLowRiseCoefficient', () => {
+  it('interpolates Case A between the tabulated slopes', () => {
+    expect(getLowRiseCoefficient('1', 0, 'A')).toBe(0.75);
+    expect(getLowRiseCoefficient('1', 12.5, 'A')).toBeCloseTo(0.75 + 0.5 * 0.25, 6);
+    expect(getLowRiseCoefficient('2', 25, 'A')).toBeCloseTo(-1.3 + 0.5 * 1.7, 6);
+    expect(getLowRiseCoefficient('2E', 40, 'A')).toBe(0.5);
+  });
+
+  it('uses the same Case B values at every slope', () => {
+    expect(getLowRiseCoefficient('5', 0, 'B')).toBe(0.75);
+    expect(getLowRiseCoefficient('5', 30, 'B')).toBe(0.75);
+    expect(getLowRiseCoefficient('2E', 10, 'B')).toBe(-2.0);
+  });
+});
+
+describe('buildLowRiseSurfaces', () => {
+  it('splits each face into end strips of width y and an interior zone', () => {
+    const surfaces = buildLowRiseSurfaces({ length: 30, width: 20, height: 8, roofSlope: 0 }, 'A');
+    const zone = (name: string) => surfaces.find(surface => surface.zone === name)!;
+
+    // Two 6 m end strips on the 30 m × 8 m windward wall and the 30 m × 10 m roof halves
+    expect(zone('1E').area).toBeCloseTo(2 * 6 * 8, 6);
+    expect(zone('1').area).toBeCloseTo(18 * 8, 6);
+    expect(zone('2E').area).toBeCloseTo(2 * 6 * 10, 6);
+    expect(zone('1E').Cp * zone('1E').Cg).toBe(1.15);
+    expect(surfaces.every(surface => surface.combined)).toBe(true);
+  });
+});
+
+describe('getCladdingCoefficients', () => {
+  it('interpolates wall Cp·Cg linearly in log(A) from 1 m² to 50 m²', () => {
+    // √50 m² is halfway along log(A)
+    const { positive, negative } = getCladdingCoefficients('w', Math.sqrt(50), 'flat');
+    expect(positive).toBeCloseTo((1.75 + 1.3) / 2, 6);
+    expect(negative).toBeCloseTo((-1.8 - 1.5) / 2, 6);
+  });
+
+  it('interpolates roof Cp·Cg linearly in log(A) from 1 m² to 10 m²', () => {
+    expect(getCladdingCoefficients('c', Math.sqrt(10), 'flat').negative).toBeCloseTo((-4.5 - 1.8) / 2, 6);
+    expect(getCladdingCoefficients('s', 10, 'gable-low').negative).toBe(-1.9);
+  });
+
+  it('holds the end values below 1 m² and beyond the figures', () => {
+    expect(getCladdingCoefficients('e', 0.5, 'flat').negative).toBe(-2.1);
+    expect(getCladdingCoefficients('e', 80, 'flat').negative).toBe(-1.5);
+    expect(getCladdingCoefficients('r', 200, 'gable-steep').positive).toBe(1.3);
+  });
+});
+
+describe('getCladdingRoofCategory', () => {
+  it('splits the roof figures at 7° and 27°', () => {
+    expect(getCladdingRoofCategory('gable', 5)).toBe('flat');
+    expect(getCladdingRoofCategory('gable', 15)).toBe('gable-low');
+    expect(getCladdingRoofCategory('gable', 35)).toBe('gable-steep');
+    expect(getCladdingRoofCategory('flat', 35)).toBe('flat');
+  });
+});
+
+describe('calculateDynamicGustFactor', () => {
+  // 100 m × 30 m × 30 m tower in open terrain, nD = 0.3 Hz, β = 1%, 200 kg/m³. Expected values
+  // were worked through separately, with B integrated by a 200 000-step midpoint rule.
+  const params: WindPressureParameters = { q: 0.5, importance: 'normal', terrain: 'open', Ct: 1.0, procedure: 'dynamic' };
+  const dynamic = { naturalFrequency: 0.3, dampingRatio: 0.01, buildingDensity: 200 };
+  const gust = calculateDynamicGustFactor(params, { height: 100, width: 30 }, dynamic);
+
+  it('takes the mean speed at the top from V = 39.2√q and CeH = (H/10)^0.28', () => {
+    expect(calculateReferenceWindSpeed(0.5)).toBeCloseTo(39.2 * Math.sqrt(0.5), 6);
+    expect(gust.CeH).toBeCloseTo(Math.pow(10, 0.28), 6);
+    expect(gust.VH).toBeCloseTo(38.2623, 3);
+  });
+
+  it('follows Cg = 1 + gp·σ/μ', () => {
+    expect(gust.B).toBeCloseTo(0.75902, 4);
+    expect(gust.s).toBeCloseTo(0.101071, 5);
+    expect(gust.F).toBeCloseTo(0.218725, 5);
+    expect(gust.nu).toBeCloseTo(0.258838, 5);
+    expect(gust.gp).toBeCloseTo(3.85391, 4);
+    expect(gust.Cg).toBeCloseTo(2.36082, 4);
+  });
+
+  it('finds the peak acceleration from the SLS top deflection', () => {
+    const peak = calculatePeakAcceleration(params, { height: 100, width: 30, depth: 30 }, dynamic, gust);
+    // m* = 200 × 30 × 30 × 100 / 3 = 6000 t, k* = (2π × 0.3)² × 6000 kN/m
+    expect(peak.deflection).toBeCloseTo(0.13223, 4);
+    expect(peak.acceleration).toBeCloseTo(0.23366, 4);
+  });
+});
+
+describe('getAppurtenanceCladdingCoefficient', () => {
+  const [windward, leeward] = APPURTENANCE_COEFFICIENTS.parapet.cases;
+
+  it('nets the front face against the back face at 1 m² for short parapets', () => {
+    // 1.5 m parapet: 1.5²/3 = 0.75 m², read at 1 m². Wall e +1.75 less flat roof s -2.9
+    expect(getAppurtenanceCladdingCoefficient(windward, 1.5, 'flat')).toBeCloseTo(1.75 + 2.9, 6);
+    expect(getAppurtenanceCladdingCoefficient(leeward, 1.5, 'flat')).toBeCloseTo(-2.1 - 1.75, 6);
+  });
+
+  it('reads both faces at span²/3 for taller elements', () => {
+    // 3 m parapet: 3 m², log(3)/log(50) along the wall curve and log(3) along the roof curve
+    const wall = 1.75 - 0.45 * Math.log10(3) / Math.log10(50);
+    const roof = -2.9 + 1.1 * Math.log10(3);
+    expect(getAppurtenanceCladdingCoefficient(windward, 3, 'flat')).toBeCloseTo(wall - roof, 6);
+  });
+});
+
+describe('buildAppurtenanceSurfaces', () => {
+  it('applies the NBC figures with Cg = 1.0 to parapets', () => {
+    const [surface] = buildAppurtenanceSurfaces([{ id: 'p', name: 'Parapet', type: 'parapet', length: 20, height: 1.5, depth: 0, elevation: 10 }], 'flat');
+
+    expect(surface.Cp).toBeCloseTo(4.65, 6);
+    expect(surface.Cg).toBe(1.0);
+    expect(surface.combined).toBe(true);
+    expect(surface.nonNbc).toBe(false);
+    expect(surface.referenceHeight).toBe(11.5);
+    expect(surface.area).toBe(30);
+  });
+
+  it('flags the ASCE 7-16 rooftop unit coefficients as non-NBC with Cg = 2.3', () => {
+    const [lateral, uplift] = buildAppurtenanceSurfaces([{ id: 'u', name: 'RTU', type: 'rooftop-equipment', length: 4, height: 2, depth: 3, elevation: 10 }], 'flat');
+
+    expect(lateral.Cp).toBe(1.9);
+    expect(lateral.Cg).toBe(2.3);
+    expect(lateral.nonNbc).toBe(true);
+    expect(lateral.area).toBe(8);
+    expect(lateral.leverArm).toBe(1);
+    expect(uplift.area).toBe(12);
+    expect(uplift.leverArm).toBe(1.5);
+  });
+});
+
+describe('buildFloorLevelsFromElevations', () => {
+  it('gives each floor half the storey below and above, and the roof half the top storey', () => {
+    const floors = buildFloorLevelsFromElevations([6, 3, 3, 15], 9);
+
+    expect(floors.map(floor => floor.elevation)).toEqual([3, 6, 9]);
+    expect(floors[0]).toMatchObject({ level: 'Level 2', tributaryBottom: 1.5, tributaryTop: 4.5, tributaryHeight: 3 });
+    expect(floors[2]).toMatchObject({ level: 'Roof', tributaryBottom: 7.5, tributaryTop: 9, tributaryHeight: 1.5 });
+  });
+});
+
+describe('calculateStoreyWindForces', () => {
+  // Below 10 m in rough terrain Ce = 0.7 throughout, so p = 0.5 × 0.7 × Cp·Cg
+  const params: WindPressureParameters = { q: 0.5, importance: 'normal', terrain: 'rough', Ct: 1.0 };
+  const geometry = { length: 30, width: 20, height: 9 };
+  const floors = buildFloorLevelsFromElevations([3, 6], 9);
+  const wall = (face: 'windward' | 'leeward', Cp: number, area: number, combined = false): WindSurface => ({
+    id: `${face}-${Cp}`, surface: face, description: '', Cp, Cg: combined ? 1.0 : 2.0, area, referenceHeight: 9, face, combined
+  });
+
+  it('multiplies the net windward and leeward pressure by the tributary wall area', () => {
+    const surfaces = [wall('windward', 0.8, 180), wall('leeward', -0.5, 180)];
+    const storeys = calculateStoreyWindForces(params, geometry, floors, { x: surfaces, y: surfaces });
+    const net = 0.5 * 0.7 * (1.6 + 1.0);
+
+    expect(storeys[0].Fx).toBeCloseTo(net * 20 * 3, 6);
+    expect(storeys[0].Fy).toBeCloseTo(net * 30 * 3, 6);
+    expect(storeys[2].Fx).toBeCloseTo(net * 20 * 1.5, 6);
+
+    const shears = calculateStoreyShears(storeys);
+    // The bottom 1.5 m of wall goes straight to the foundation
+    expect(shears[0].Vx).toBeCloseTo(net * 20 * 7.5, 6);
+    expect(shears[2].Vx).toBeCloseTo(storeys[2].Fx, 6);
+  });
+
+  it('area-weights the Cp·Cg of low-rise wall zones', () => {
+    // (1.15 × 96 + 0.75 × 144) / 240 = 0.91 windward, with 0.55 leeward
+    const surfaces = [wall('windward', 1.15, 96, true), wall('windward', 0.75, 144, true), wall('leeward', -0.55, 240, true)];
+    const [storey] = calculateStoreyWindForces(params, geometry, floors, { x: surfaces, y: [] });
+
+    expect(storey.Fx).toBeCloseTo(0.5 * 0.7 * (0.91 + 0.55) * 20 * 3, 6);
+    expect(storey.Fy).toBe(0);
+  });
+});
+
+describe('getPressureBasis', () => {
+  const params: WindPressureParameters = { q: 0.5, importance: 'normal', terrain: 'open', Ct: 1.0 };
+
+  it('takes SLS pressures from the 1-in-50 q with Iw = 0.75 by default', () => {
+    expect(getPressureBasis(params, 'sls')).toEqual({ Iw: 0.75, q: 0.5 });
+    expect(getPressureBasis({ ...params, q10: 0.35 }, 'uls')).toEqual({ Iw: 1.0, q: 0.5 });
+  });
+
+  it('takes SLS pressures from the 1-in-10 q with Iw = 1.0 when given', () => {
+    expect(getPressureBasis({ ...params, q10: 0.35 }, 'sls')).toEqual({ Iw: 1.0, q: 0.35 });
+  });
+});
+
+describe('calculateStoreyDrifts', () => {
+  const shears = [
+    { level: 'Level 2', elevation: 3, Fx: 60, Fy: 30, Vx: 100, Vy: 50 },
+    { level: 'Roof', elevation: 6, Fx: 40, Fy: 20, Vx: 40, Vy: 20 }
+  ];
+
+  it('drifts each storey by V/k and checks it against h/500', () => {
+    const [first, roof] = calculateStoreyDrifts(shears, [20, 10]);
+
+    // 100 kN / 20 kN/mm = 5 mm over 3 m, h/600
+    expect(first.driftX).toBeCloseTo(5, 6);
+    expect(first.driftY).toBeCloseTo(2.5, 6);
+    expect(first.ratio).toBeCloseTo(1 / 600, 6);
+    expect(first.passes).toBe(true);
+    expect(roof.storeyHeight).toBe(3);
+    expect(roof.driftX).toBeCloseTo(4, 6);
+  });
+
+  it('fails storeys drifting more than h/500 or with no stiffness', () => {
+    const [first, roof] = calculateStoreyDrifts(shears, [10]);
+
+    expect(first.ratio).toBeCloseTo(1 / 300, 6);
+    expect(first.passes).toBe(false);
+    expect(roof.driftX).toBe(Infinity);
+    expect(roof.passes).toBe(false);
+  });
+});
+
+describe('buildMwfrsLoadCases', () => {
+  const storeys = [
+    { level: 'Level 2', elevation: 4, Fx: 100, Fy: 200 },
+    { level: 'Roof', elevation: 8, Fx: 50, Fy: 100 }
+  ];
+  const cases = buildMwfrsLoadCases(storeys, { length: 40, width: 20 });
+  const byId = (id: string) => cases.find(loadCase => loadCase.id === id)!;
+
+  it('applies the full load along one axis in Case A', () => {
+    expect(byId('A-x').totalFx).toBeCloseTo(150, 6);
+    expect(byId('A-x').totalFy).toBe(0);
+    expect(byId('A-x').totalMt).toBe(0);
+  });
+
+  it('removes 25% from half of the face in Case B', () => {
+    // 0.875 of the load remains; torque 0.25 × 150 kN × 20 m / 8
+    expect(byId('B-x').totalFx).toBeCloseTo(0.875 * 150, 6);
+    expect(byId('B-x').totalMt).toBeCloseTo(0.25 * 150 * 20 / 8, 6);
+    expect(byId('B-y').totalMt).toBeCloseTo(0.25 * 300 * 40 / 8, 6);
+  });
+
+  it('applies 75% along both axes in Case C and removes 50% from half of each face in Case D', () => {
+    expect(byId('C').totalFx).toBeCloseTo(112.5, 6);
+    expect(byId('C').totalFy).toBeCloseTo(225, 6);
+    expect(byId('C').totalMt).toBe(0);
+    expect(byId('D').totalFx).toBeCloseTo(0.75 * 0.75 * 150, 6);
+    expect(byId('D').totalFy).toBeCloseTo(0.75 * 0.75 * 300, 6);
+    expect(byId('D').totalMt).toBeCloseTo(0.5 * (112.5 * 20 + 225 * 40) / 8, 6);
+  });
+});
@@ -0,0 +1,1301 @@
+// NBC 2020 Section 4.1.7 wind loads, static procedure.
+// Every external pressure is p = Iw · q · Ce · Ct · Cg · Cp, starting from the
+// 1-in-50 reference velocity pressure q tabulated for the location.
+
+export type WindDesignCase = 'uls' | 'sls';
+
+export type WindImportanceCategory = 'low' | 'normal' | 'high' | 'post-disaster';
+
+export type WindTerrain = 'open' | 'rough';
+
+export type WindProcedure = 'static' | 'dynamic';
+
+// Which face of the building a surface belongs to, relative to the wind direction
+export type WindFace = 'windward' | 'leeward' | 'side' | 'roof';
+
+export type LowRiseZone = '1' | '1E' | '2' | '2E' | '3' | '3E' | '4' | '4E' | '5' | '5E' | '6' | '6E';
+
+// Case A: wind generally perpendicular to the ridge; Case B: wind generally parallel to it
+export type LowRiseLoadCase = 'A' | 'B';
+
+// Table 4.1.7.3 importance factors for wind load, Iw
+export const WIND_IMPORTANCE_FACTORS: Record<WindImportanceCategory, { uls: number; sls: number }> = {
+  low: { uls: 0.8, sls: 0.75 },
+  normal: { uls: 1.0, sls: 0.75 },
+  high: { uls: 1.15, sls: 0.75 },
+  'post-disaster': { uls: 1.25, sls: 0.75 }
+};
+
+// Static procedure gust effect factors
+export const GUST_FACTOR_STRUCTURE = 2.0; // building as a whole and main structural members
+export const GUST_FACTOR_CLADDING = 2.5;  // cladding and secondary structural members
+export const GUST_FACTOR_INTERNAL = 2.0;  // internal pressures, Cgi
+
+export type InternalPressureCategory = 1 | 2 | 3;
+
+export type OpeningDistribution = 'uniform' | 'nonuniform';
+
+// Internal pressure coefficient ranges, Cpi, for each category
+export const INTERNAL_PRESSURE_COEFFICIENTS: Record<InternalPressureCategory, { min: number; max: number; description: string }> = {
+  1: { min: -0.15, max: 0.0, description: 'No large or significant openings; small openings uniformly distributed' },
+  2: { min: -0.45, max: 0.3, description: 'Significant openings that are not uniformly distributed or could be open in a storm' },
+  3: { min: -0.7, max: 0.7, description: 'Large or dominant openings through which wind gusts act on the interior' }
+};
+
+// Small uniformly distributed openings stay in Category 1 up to this share of the wall area
+export const CATEGORY_1_OPENING_LIMIT = 0.1; // %
+
+// A loaded surface before the pressure is evaluated
+export interface WindSurface {
+  id: string;
+  surface: string;
+  description: string;
+  Cp: number;
+  Cg: number;
+  area: number;            // m²
+  referenceHeight: number; // m, height at which Ce is evaluated
+  face?: WindFace;
+  zone?: LowRiseZone;
+  loadCase?: LowRiseLoadCase;
+  combined?: boolean;      // Cp already includes the gust factor (Cp·Cg tables), Cg is 1.0
+  elementId?: string;      // cladding element the surface was built for
+  appurtenanceId?: string; // parapet, canopy or rooftop item the surface was built for
+  nonNbc?: boolean;        // coefficients taken from outside the NBC
+  leverArm?: number;       // m, arm of the resultant about the element's base or support
+}
+
+export interface WindLoadResult {
+  id: string;
+  surface: string;
+  designCase: WindDesignCase;
+  pressure: number; // kN/m²
+  force: number;    // kN
+  description: string;
+  coefficient: number; // Cp
+  area: number;        // m²
+  Ce: number;
+  Cg: number;
+  calculation: string;
+  face?: WindFace;
+  zone?: LowRiseZone;
+  loadCase?: LowRiseLoadCase;
+  elementId?: string;
+  appurtenanceId?: string;
+  nonNbc?: boolean;
+  overturning?: number; // kN·m, force × lever arm about the element's base or support
+  netPositive?: number; // kN/m², external pressure less the most negative internal pressure
+  netNegative?: number; // kN/m², external pressure less the most positive internal pressure
+}
+
+export interface OpeningParameters {
+  openingRatio: number; // % of wall area
+  distribution: OpeningDistribution;
+  hasDominantOpening: boolean;
+}
+
+export interface InternalPressure {
+  designCase: WindDesignCase;
+  category: InternalPressureCategory;
+  Ce: number;
+  min: number; // kN/m²
+  max: number; // kN/m²
+  calculation: string;
+}
+
+// Shape of the hill or escarpment the building stands on; 'flat' means no speed-up
+export type HillShape = 'flat' | 'ridge' | 'escarpment' | 'hill';
+
+export interface TopographyParameters {
+  shape: HillShape;
+  H: number;  // m, height of the hill or escarpment above the upwind terrain
+  Lh: number; // m, horizontal distance upwind from the crest to where the ground is H/2 below it
+  x: number;  // m, distance of the building from the crest, negative upwind
+  z: number;  // m, height above local ground
+}
+
+// A band of uniform terrain upwind of the building, listed from the building outward
+export interface UpwindSector {
+  id: string;
+  roughness: WindTerrain;
+  distance: number; // m, upwind extent of the band; the last band extends indefinitely
+}
+
+export interface WindPressureParameters {
+  q: number; // kPa, 1-in-50 reference velocity pressure
+  importance: WindImportanceCategory;
+  terrain: WindTerrain; // terrain immediately upwind of the building
+  Ct: number;
+  procedure?: WindProcedure; // static unless stated
+  fetch?: UpwindSector[];    // upwind terrain changes; Ce follows terrain alone when omitted
+  q10?: number;              // kPa, 1-in-10 reference pressure; SLS uses it with Iw = 1.0 when given
+}
+
+// Exposure factor Ce: (h/10)^0.2 ≥ 0.9 in open terrain, 0.7(h/10)^0.3 ≥ 0.7 in rough terrain.
+// The dynamic procedure uses (h/10)^0.28 ≥ 1.0 and 0.5(h/12.7)^0.5 ≥ 0.5 instead.
+export function calculateExposureFactor(z: number, terrain: WindTerrain, procedure: WindProcedure = 'static'): number {
+  if (procedure === 'dynamic') {
+    return terrain === 'rough'
+      ? Math.max(0.5, 0.5 * Math.pow(z / 12.7, 0.5))
+      : Math.max(1.0, Math.pow(z / 10, 0.28));
+  }
+  if (terrain === 'rough') {
+    return Math.max(0.7, 0.7 * Math.pow(z / 10, 0.3));
+  }
+  return Math.max(0.9, Math.pow(z / 10, 0.2));
+}
+
+export function formatExposureFactor(z: number, terrain: WindTerrain, procedure: WindProcedure = 'static'): string {
+  const Ce = calculateExposureFactor(z, terrain, procedure);
+  if (procedure === 'dynamic') {
+    return terrain === 'rough'
+      ? `Ce = max(0.5, 0.5 × (${z.toFixed(1)}/12.7)^0.5) = ${Ce.toFixed(3)}`
+      : `Ce = max(1.0, (${z.toFixed(1)}/10)^0.28) = ${Ce.toFixed(3)}`;
+  }
+  return terrain === 'rough'
+    ? `Ce = max(0.7, 0.7 × (${z.toFixed(1)}/10)^0.3) = ${Ce.toFixed(3)}`
+    : `Ce = max(0.9, (${z.toFixed(1)}/10)^0.2) = ${Ce.toFixed(3)}`;
+}
+
+// Wind speeds take about 1 km of new terrain to adjust from rough to open. Rough terrain only
+// counts as rough once it extends upwind for 1 km or 20 times the height, whichever is greater.
+export const OPEN_TERRAIN_RECOVERY_DISTANCE = 1000; // m
+
+export function getRoughFetchRequired(height: number): number {
+  return Math.max(OPEN_TERRAIN_RECOVERY_DISTANCE, 20 * height);
+}
+
+// Ce at height z after a change in terrain upwind, interpolated linearly on the distance X from
+// the building to the change. Open terrain within 1 km of rough terrain upwind moves from the
+// rough Ce at X = 0 to the open Ce at 1 km; rough terrain that does not extend far enough moves
+// from the open Ce toward the rough Ce as it lengthens.
+export function calculateTransitionExposureFactor(
+  z: number,
+  sectors: UpwindSector[],
+  buildingHeight: number
+): { Ce: number; calculation: string } {
+  const open = calculateExposureFactor(z, 'open');
+  const rough = calculateExposureFactor(z, 'rough');
+  if (sectors.length === 0) {
+    return { Ce: open, calculation: `Ce,open = ${open.toFixed(3)}` };
+  }
+
+  // Length of the band of terrain matching the site terrain before the first change
+  const siteTerrain = sectors[0].roughness;
+  let X = 0;
+  let changes = false;
+  for (let i = 0; i < sectors.length; i++) {
+    if (sectors[i].roughness !== siteTerrain) {
+      changes = true;
+      break;
+    }
+    X += sectors[i].distance;
+  }
+
+  if (siteTerrain === 'open') {
+    if (!changes || X >= OPEN_TERRAIN_RECOVERY_DISTANCE) {
+      return { Ce: open, calculation: `Open terrain: Ce = ${open.toFixed(3)}` };
+    }
+    const Ce = rough + (X / OPEN_TERRAIN_RECOVERY_DISTANCE) * (open - rough);
+    return {
+      Ce,
+      calculation: `Rough to open ${X.toFixed(0)} m upwind: Ce = ${rough.toFixed(3)} + (${X.toFixed(0)}/${OPEN_TERRAIN_RECOVERY_DISTANCE}) × (${open.toFixed(3)} - ${rough.toFixed(3)}) = ${Ce.toFixed(3)}`
+    };
+  }
+
+  const required = getRoughFetchRequired(buildingHeight);
+  if (!changes || X >= required) {
+    return { Ce: rough, calculation: `Rough terrain: Ce = ${rough.toFixed(3)}` };
+  }
+  const Ce = open - (X / required) * (open - rough);
+  return {
+    Ce,
+    calculation: `Rough fetch ${X.toFixed(0)} m < ${required.toFixed(0)} m: Ce = ${open.toFixed(3)} - (${X.toFixed(0)}/${required.toFixed(0)}) × (${open.toFixed(3)} - ${rough.toFixed(3)}) = ${Ce.toFixed(3)}`
+  };
+}
+
+// Ce for the pressure calculation, following the upwind fetch when one is given. The dynamic
+// procedure keeps its own terrain profiles.
+export function getSiteExposureFactor(z: number, params: WindPressureParameters, buildingHeight: number): { Ce: number; calculation: string } {
+  if (params.fetch && params.fetch.length > 0 && params.procedure !== 'dynamic') {
+    const { Ce, calculation } = calculateTransitionExposureFactor(z, params.fetch, buildingHeight);
+    return { Ce, calculation: `z = ${z.toFixed(1)} m, ${calculation}` };
+  }
+  return {
+    Ce: calculateExposureFactor(z, params.terrain, params.procedure),
+    calculation: formatExposureFactor(z, params.terrain, params.procedure)
+  };
+}
+
+// Velocity pressure Iw·q·Ce·Ct up the height of the building
+export function buildVelocityPressureProfile(
+  params: WindPressureParameters,
+  height: number,
+  designCase: WindDesignCase = 'uls',
+  steps = 24
+): { z: number; Ce: number; pressure: number }[] {
+  const { Iw, q } = getPressureBasis(params, designCase);
+  return Array.from({ length: steps + 1 }, (_, i) => {
+    const z = (i / steps) * height;
+    const { Ce } = getSiteExposureFactor(z, params, height);
+    return { z, Ce, pressure: Iw * q * Ce * params.Ct };
+  });
+}
+
+export function getWindImportanceFactor(importance: WindImportanceCategory, designCase: WindDesignCase): number {
+  return WIND_IMPORTANCE_FACTORS[importance][designCase];
+}
+
+// Serviceability pressures come either from the 1-in-50 q with the SLS importance factor, or
+// from the 1-in-10 q with Iw = 1.0
+export function getPressureBasis(params: WindPressureParameters, designCase: WindDesignCase): { Iw: number; q: number } {
+  if (designCase === 'sls' && params.q10 !== undefined) {
+    return { Iw: 1.0, q: params.q10 };
+  }
+  return { Iw: getWindImportanceFactor(params.importance, designCase), q: params.q };
+}
+
+// Evaluates each surface for both limit states
+export function buildWindLoadResults(surfaces: WindSurface[], params: WindPressureParameters): WindLoadResult[] {
+  const { Ct } = params;
+  // The roof is the highest reference height; the rough fetch requirement scales with it
+  const buildingHeight = Math.max(...surfaces.map(surface => surface.referenceHeight));
+
+  return (['uls', 'sls'] as WindDesignCase[]).flatMap(designCase => {
+    const { Iw, q } = getPressureBasis(params, designCase);
+
+    return surfaces.map(surface => {
+      const exposure = getSiteExposureFactor(surface.referenceHeight, params, buildingHeight);
+      const Ce = exposure.Ce;
+      const pressure = Iw * q * Ce * Ct * surface.Cg * surface.Cp;
+      const formula = surface.combined
+        ? `p = Iw·q·Ce·Ct·(CpCg) = ${Iw.toFixed(2)} × ${q.toFixed(2)} × ${Ce.toFixed(3)} × ${Ct.toFixed(2)} × ${surface.Cp.toFixed(2)}`
+        : `p = Iw·q·Ce·Ct·Cg·Cp = ${Iw.toFixed(2)} × ${q.toFixed(2)} × ${Ce.toFixed(3)} × ${Ct.toFixed(2)} × ${surface.Cg.toFixed(1)} × ${surface.Cp.toFixed(2)}`;
+
+      return {
+        id: `${surface.id}-${designCase}`,
+        surface: surface.surface,
+        designCase,
+        pressure,
+        force: pressure * surface.area,
+        description: surface.description,
+        coefficient: surface.Cp,
+        area: surface.area,
+        Ce,
+        Cg: surface.Cg,
+        calculation: `${exposure.calculation}; ${formula} = ${pressure.toFixed(3)} kPa; F = p·A = ${pressure.toFixed(3)} × ${surface.area.toFixed(1)} = ${(pressure * surface.area).toFixed(1)} kN${surface.leverArm !== undefined ? `; M = F·e = ${(pressure * surface.area).toFixed(1)} × ${surface.leverArm.toFixed(2)} = ${(pressure * surface.area * surface.leverArm).toFixed(1)} kN·m` : ''}`,
+        face: surface.face,
+        zone: surface.zone,
+        loadCase: surface.loadCase,
+        elementId: surface.elementId,
+        appurtenanceId: surface.appurtenanceId,
+        nonNbc: surface.nonNbc,
+        overturning: surface.leverArm !== undefined ? pressure * surface.area * surface.leverArm : undefined
+      };
+    });
+  });
+}
+
+// Speed-up parameters: ΔSmax per unit H/Lh, decay with height α, and the distance factor k
+// upwind and downwind of the crest
+export const HILL_SHAPE_PARAMETERS: Record<Exclude<HillShape, 'flat'>, { name: string; speedUp: number; alpha: number; kUpwind: number; kDownwind: number }> = {
+  ridge: { name: '2D ridge', speedUp: 2.2, alpha: 3, kUpwind: 1.5, kDownwind: 1.5 },
+  escarpment: { name: '2D escarpment', speedUp: 1.3, alpha: 2.5, kUpwind: 1.5, kDownwind: 4 },
+  hill: { name: '3D axisymmetric hill', speedUp: 1.6, alpha: 4, kUpwind: 1.5, kDownwind: 1.5 }
+};
+
+// Ct = (1 + ΔS)², ΔS = ΔSmax·(1 - |x|/(k·Lh))·e^(-α·z/Lh). Slopes steeper than H/Lh = 0.5
+// are treated as 0.5 with Lh = 2H.
+export function calculateTopographicFactor(topography: TopographyParameters): { Ct: number; deltaS: number; calculation: string } {
+  const { shape, H, x, z } = topography;
+  if (shape === 'flat' || H <= 0 || topography.Lh <= 0) {
+    return { Ct: 1.0, deltaS: 0, calculation: 'Ct = 1.0 (level terrain)' };
+  }
+
+  const { speedUp, alpha, kUpwind, kDownwind } = HILL_SHAPE_PARAMETERS[shape];
+  const Lh = Math.max(topography.Lh, 2 * H);
+  const k = x < 0 ? kUpwind : kDownwind;
+  const deltaSmax = speedUp * (H / Lh);
+  const distanceFactor = Math.max(0, 1 - Math.abs(x) / (k * Lh));
+  const heightFactor = Math.exp((-alpha * z) / Lh);
+  const deltaS = deltaSmax * distanceFactor * heightFactor;
+  const Ct = Math.pow(1 + deltaS, 2);
+
+  return {
+    Ct,
+    deltaS,
+    calculation: `${Lh !== topography.Lh ? `H/Lh > 0.5, Lh = 2H = ${Lh.toFixed(1)} m; ` : ''}ΔSmax = ${speedUp} × ${H.toFixed(1)}/${Lh.toFixed(1)} = ${deltaSmax.toFixed(3)}; ΔS = ${deltaSmax.toFixed(3)} × (1 - ${Math.abs(x).toFixed(1)}/(${k} × ${Lh.toFixed(1)})) × e^(-${alpha} × ${z.toFixed(1)}/${Lh.toFixed(1)}) = ${deltaS.toFixed(3)}; Ct = (1 + ΔS)² = ${Ct.toFixed(3)}`
+  };
+}
+
+// Net along-wind force: windward faces push and leeward faces pull in the same direction
+export function calculateAlongWindForce(results: WindLoadResult[]): number {
+  return results.reduce((total, result) => {
+    if (result.face === 'windward') return total + result.force;
+    if (result.face === 'leeward') return total - result.force;
+    return total;
+  }, 0);
+}
+
+// Figure 4.1.7.6-A applies to buildings up to 20 m tall and no taller than they are wide
+export function isLowRiseBuilding(height: number, length: number, width: number): boolean {
+  return height <= 20 && height <= Math.min(length, width);
+}
+
+// End-zone width y = max(6 m, 2z), with z the lesser of 10% of the least horizontal
+// dimension and 40% of the height, but not less than 4% of that dimension or 1 m
+export function calculateEndZoneWidth(height: number, length: number, width: number): { y: number; z: number } {
+  const least = Math.min(length, width);
+  const z = Math.max(Math.min(0.1 * least, 0.4 * height), 0.04 * least, 1.0);
+  return { y: Math.max(6, 2 * z), z };
+}
+
+type CaseAZone = '1' | '1E' | '2' | '2E' | '3' | '3E' | '4' | '4E';
+
+// Case A Cp·Cg by roof slope; values are constant from 0° to 5° and from 30° to 45°,
+// and vary linearly between the tabulated slopes
+const LOW_RISE_CASE_A: { slope: number; values: Record<CaseAZone, number> }[] = [
+  { slope: 5, values: { '1': 0.75, '1E': 1.15, '2': -1.3, '2E': -2.0, '3': -0.7, '3E': -1.0, '4': -0.55, '4E': -0.8 } },
+  { slope: 20, values: { '1': 1.0, '1E': 1.5, '2': -1.3, '2E': -2.0, '3': -0.9, '3E': -1.3, '4': -0.8, '4E': -1.2 } },
+  { slope: 30, values: { '1': 1.05, '1E': 1.3, '2': 0.4, '2E': 0.5, '3': -0.8, '3E': -1.0, '4': -0.7, '4E': -0.9 } },
+  { slope: 45, values: { '1': 1.05, '1E': 1.3, '2': 0.4, '2E': 0.5, '3': -0.8, '3E': -1.0, '4': -0.7, '4E': -0.9 } },
+  { slope: 90, values: { '1': 1.05, '1E': 1.3, '2': 1.05, '2E': 1.3, '3': -0.7, '3E': -0.9, '4': -0.7, '4E': -0.9 } }
+];
+
+// Case B Cp·Cg apply to all roof slopes
+const LOW_RISE_CASE_B: Record<LowRiseZone, number> = {
+  '1': -0.85, '1E': -0.9, '2': -1.3, '2E': -2.0, '3': -0.7, '3E': -1.0,
+  '4': -0.85, '4E': -0.9, '5': 0.75, '5E': 1.15, '6': -0.55, '6E': -0.8
+};
+
+export function getLowRiseCoefficient(zone: LowRiseZone, slope: number, loadCase: LowRiseLoadCase): number {
+  if (loadCase === 'B') return LOW_RISE_CASE_B[zone];
+
+  const caseAZone = zone as CaseAZone;
+  const rows = LOW_RISE_CASE_A;
+  if (slope <= rows[0].slope) return rows[0].values[caseAZone];
+
+  for (let i = 1; i < rows.length; i++) {
+    const lower = rows[i - 1];
+    const upper = rows[i];
+    if (slope <= upper.slope) {
+      const t = (slope - lower.slope) / (upper.slope - lower.slope);
+      return lower.values[caseAZone] + t * (upper.values[caseAZone] - lower.values[caseAZone]);
+    }
+  }
+  return rows[rows.length - 1].values[caseAZone];
+}
+
+// Splits each face of a low-rise building into its interior and end zones. The ridge runs
+// along the building length; roof areas are measured along the slope.
+export function buildLowRiseSurfaces(
+  geometry: { length: number; width: number; height: number; roofSlope: number },
+  loadCase: LowRiseLoadCase
+): WindSurface[] {
+  const { length, width, height, roofSlope } = geometry;
+  const { y } = calculateEndZoneWidth(height, length, width);
+  const roofDepth = width / 2 / Math.cos((roofSlope * Math.PI) / 180);
+
+  const surface = (zone: LowRiseZone, face: WindFace, name: string, area: number, dimensions: string): WindSurface => ({
+    id: `zone-${loadCase}-${zone}`,
+    surface: `Zone ${zone} - ${name} (Case ${loadCase})`,
+    description: dimensions,
+    Cp: getLowRiseCoefficient(zone, roofSlope, loadCase),
+    Cg: 1.0,
+    area,
+    referenceHeight: height,
+    face,
+    zone,
+    loadCase,
+    combined: true
+  });
+
+  // Pairs an interior zone with end strips of width y, clipped to the surface length
+  const zonePair = (
+    zone: LowRiseZone,
+    endZone: LowRiseZone,
+    face: WindFace,
+    name: string,
+    surfaceLength: number,
+    depth: number,
+    endStrips: number
+  ): WindSurface[] => {
+    const endLength = Math.min(endStrips * y, surfaceLength);
+    return [
+      surface(endZone, face, `${name} End Zone`, endLength * depth, `${endStrips} × ${Math.min(y, surfaceLength / endStrips).toFixed(2)}m × ${depth.toFixed(2)}m end strip${endStrips > 1 ? 's' : ''}`),
+      surface(zone, face, name, (surfaceLength - endLength) * depth, `${(surfaceLength - endLength).toFixed(2)}m × ${depth.toFixed(2)}m`)
+    ];
+  };
+
+  if (loadCase === 'A') {
+    return [
+      ...zonePair('1', '1E', 'windward', 'Windward Wall', length, height, 2),
+      ...zonePair('2', '2E', 'roof', 'Windward Roof', length, roofDepth, 2),
+      ...zonePair('3', '3E', 'roof', 'Leeward Roof', length, roofDepth, 2),
+      ...zonePair('4', '4E', 'leeward', 'Leeward Wall', length, height, 2)
+    ];
+  }
+
+  // Case B: wind along the ridge, with end zones at the windward end of each long surface
+  return [
+    ...zonePair('5', '5E', 'windward', 'Windward Wall', width, height, 2),
+    ...zonePair('1', '1E', 'side', 'Side Wall', length, height, 1),
+    ...zonePair('2', '2E', 'roof', 'Roof Half', length, roofDepth, 1),
+    ...zonePair('3', '3E', 'roof', 'Roof Half', length, roofDepth, 1),
+    ...zonePair('4', '4E', 'side', 'Side Wall', length, height, 1),
+    ...zonePair('6', '6E', 'leeward', 'Leeward Wall', width, height, 2)
+  ];
+}
+
+export function determineInternalPressureCategory(openings: OpeningParameters): { category: InternalPressureCategory; reason: string } {
+  if (openings.hasDominantOpening) {
+    return { category: 3, reason: 'Dominant opening may be open during a windstorm' };
+  }
+  if (openings.distribution === 'uniform' && openings.openingRatio <= CATEGORY_1_OPENING_LIMIT) {
+    return { category: 1, reason: `Openings uniformly distributed and not more than ${CATEGORY_1_OPENING_LIMIT}% of the wall area` };
+  }
+  return {
+    category: 2,
+    reason: openings.distribution === 'uniform'
+      ? `Openings exceed ${CATEGORY_1_OPENING_LIMIT}% of the wall area`
+      : 'Openings are not uniformly distributed'
+  };
+}
+
+// pi = Iw·q·Ce·Ct·Cgi·Cpi over the Cpi range of the category. Ce is taken at mid-height,
+// except through a dominant opening where the interior sees the roof-height gusts.
+export function calculateInternalPressures(
+  params: WindPressureParameters,
+  category: InternalPressureCategory,
+  height: number
+): InternalPressure[] {
+  const { Ct } = params;
+  const referenceHeight = category === 3 ? height : height / 2;
+  const exposure = getSiteExposureFactor(referenceHeight, params, height);
+  const Ce = exposure.Ce;
+  const { min: CpiMin, max: CpiMax } = INTERNAL_PRESSURE_COEFFICIENTS[category];
+
+  return (['uls', 'sls'] as WindDesignCase[]).map(designCase => {
+    const { Iw, q } = getPressureBasis(params, designCase);
+    const base = Iw * q * Ce * Ct * GUST_FACTOR_INTERNAL;
+
+    return {
+      designCase,
+      category,
+      Ce,
+      min: base * CpiMin,
+      max: base * CpiMax,
+      calculation: `${exposure.calculation}; pi = Iw·q·Ce·Ct·Cgi·Cpi = ${Iw.toFixed(2)} × ${q.toFixed(2)} × ${Ce.toFixed(3)} × ${Ct.toFixed(2)} × ${GUST_FACTOR_INTERNAL.toFixed(1)} × (${CpiMin} to ${CpiMax}) = ${(base * CpiMin).toFixed(3)} to ${(base * CpiMax).toFixed(3)} kPa`
+    };
+  });
+}
+
+// Net pressure envelope on each surface: p = pe - pi for both extremes of pi
+export function applyInternalPressures(results: WindLoadResult[], internal: InternalPressure[]): WindLoadResult[] {
+  return results.map(result => {
+    const pi = internal.find(entry => entry.designCase === result.designCase);
+    if (!pi) return result;
+
+    const netPositive = result.pressure - pi.min;
+    const netNegative = result.pressure - pi.max;
+    return {
+      ...result,
+      netPositive,
+      netNegative,
+      calculation: `${result.calculation}; net = pe - pi = ${result.pressure.toFixed(3)} - (${pi.min.toFixed(3)}) = ${netPositive.toFixed(3)} kPa, ${result.pressure.toFixed(3)} - ${pi.max.toFixed(3)} = ${netNegative.toFixed(3)} kPa`
+    };
+  });
+}
+
+// Components and cladding zones: w and e on walls (e within z of a corner); r, s and c on
+// roofs (s within z of an edge, c where two edges meet)
+export type CladdingZone = 'w' | 'e' | 'r' | 's' | 'c';
+
+export type CladdingElementType = 'girt' | 'purlin' | 'fastener' | 'glazing';
+
+// Roof C&C figures are split by slope: up to 7°, gable roofs from 7° to 27°, and 27° to 45°
+export type CladdingRoofCategory = 'flat' | 'gable-low' | 'gable-steep';
+
+export interface CladdingElement {
+  id: string;
+  name: string;
+  type: CladdingElementType;
+  zone: CladdingZone;
+  tributaryArea: number; // m²
+}
+
+interface CladdingCurvePoint {
+  area: number;  // m²
+  value: number; // Cp·Cg
+}
+
+interface CladdingCurve {
+  positive: CladdingCurvePoint[];
+  negative: CladdingCurvePoint[];
+}
+
+// Tributary areas covered by the C&C figures; every wall and roof curve is tabulated across
+// this range, and below 1 m² the 1 m² value applies
+export const CLADDING_AREA_RANGE = { min: 1, max: 100 };
+
+export const CLADDING_ZONE_NAMES: Record<CladdingZone, string> = {
+  w: 'Wall Interior',
+  e: 'Wall End Zone',
+  r: 'Roof Interior',
+  s: 'Roof Edge',
+  c: 'Roof Corner'
+};
+
+export const CLADDING_ELEMENT_TYPES: Record<CladdingElementType, string> = {
+  girt: 'Girt',
+  purlin: 'Purlin',
+  fastener: 'Fastener',
+  glazing: 'Glazing Panel'
+};
+
+// Figure 4.1.7.6-B wall Cp·Cg, varying with log(A) between 1 m² and 50 m² and flat beyond
+const CLADDING_WALL_CURVES: Record<'w' | 'e', CladdingCurve> = {
+  w: {
+    positive: [{ area: 1, value: 1.75 }, { area: 50, value: 1.3 }, { area: 100, value: 1.3 }],
+    negative: [{ area: 1, value: -1.8 }, { area: 50, value: -1.5 }, { area: 100, value: -1.5 }]
+  },
+  e: {
+    positive: [{ area: 1, value: 1.75 }, { area: 50, value: 1.3 }, { area: 100, value: 1.3 }],
+    negative: [{ area: 1, value: -2.1 }, { area: 50, value: -1.5 }, { area: 100, value: -1.5 }]
+  }
+};
+
+// Figures 4.1.7.6-C to E roof Cp·Cg, varying with log(A) between 1 m² and 10 m² and drawn
+// flat from 10 m² to the 100 m² end of the figures' area axis
+const CLADDING_ROOF_CURVES: Record<CladdingRoofCategory, Record<'r' | 's' | 'c', CladdingCurve>> = {
+  flat: {
+    r: { positive: [{ area: 1, value: 0.5 }, { area: 10, value: 0.3 }, { area: 100, value: 0.3 }], negative: [{ area: 1, value: -1.6 }, { area: 10, value: -1.45 }, { area: 100, value: -1.45 }] },
+    s: { positive: [{ area: 1, value: 0.5 }, { area: 10, value: 0.3 }, { area: 100, value: 0.3 }], negative: [{ area: 1, value: -2.9 }, { area: 10, value: -1.8 }, { area: 100, value: -1.8 }] },
+    c: { positive: [{ area: 1, value: 0.5 }, { area: 10, value: 0.3 }, { area: 100, value: 0.3 }], negative: [{ area: 1, value: -4.5 }, { area: 10, value: -1.8 }, { area: 100, value: -1.8 }] }
+  },
+  'gable-low': {
+    r: { positive: [{ area: 1, value: 0.8 }, { area: 10, value: 0.5 }, { area: 100, value: 0.5 }], negative: [{ area: 1, value: -1.45 }, { area: 10, value: -1.3 }, { area: 100, value: -1.3 }] },
+    s: { positive: [{ area: 1, value: 0.8 }, { area: 10, value: 0.5 }, { area: 100, value: 0.5 }], negative: [{ area: 1, value: -2.7 }, { area: 10, value: -1.9 }, { area: 100, value: -1.9 }] },
+    c: { positive: [{ area: 1, value: 0.8 }, { area: 10, value: 0.5 }, { area: 100, value: 0.5 }], negative: [{ area: 1, value: -4.2 }, { area: 10, value: -2.6 }, { area: 100, value: -2.6 }] }
+  },
+  'gable-steep': {
+    r: { positive: [{ area: 1, value: 1.45 }, { area: 10, value: 1.3 }, { area: 100, value: 1.3 }], negative: [{ area: 1, value: -1.6 }, { area: 10, value: -1.3 }, { area: 100, value: -1.3 }] },
+    s: { positive: [{ area: 1, value: 1.45 }, { area: 10, value: 1.3 }, { area: 100, value: 1.3 }], negative: [{ area: 1, value: -1.9 }, { area: 10, value: -1.6 }, { area: 100, value: -1.6 }] },
+    c: { positive: [{ area: 1, value: 1.45 }, { area: 10, value: 1.3 }, { area: 100, value: 1.3 }], negative: [{ area: 1, value: -1.9 }, { area: 10, value: -1.6 }, { area: 100, value: -1.6 }] }
+  }
+};
+
+export function getCladdingRoofCategory(roofType: 'flat' | 'gable' | 'monoslope', slope: number): CladdingRoofCategory {
+  if (roofType === 'flat' || slope <= 7) return 'flat';
+  return slope <= 27 ? 'gable-low' : 'gable-steep';
+}
+
+export function isWallCladdingZone(zone: CladdingZone): zone is 'w' | 'e' {
+  return zone === 'w' || zone === 'e';
+}
+
+// Linear in log(A) between breakpoints, constant beyond the first and last
+function interpolateCladdingCurve(points: CladdingCurvePoint[], area: number): number {
+  if (area <= points[0].area) return points[0].value;
+
+  for (let i = 1; i < points.length; i++) {
+    const lower = points[i - 1];
+    const upper = points[i];
+    if (area <= upper.area) {
+      const t = Math.log10(area / lower.area) / Math.log10(upper.area / lower.area);
+      return lower.value + t * (upper.value - lower.value);
+    }
+  }
+  return points[points.length - 1].value;
+}
+
+export function getCladdingCoefficients(
+  zone: CladdingZone,
+  area: number,
+  roofCategory: CladdingRoofCategory
+): { positive: number; negative: number } {
+  const curve = isWallCladdingZone(zone)
+    ? CLADDING_WALL_CURVES[zone]
+    : CLADDING_ROOF_CURVES[roofCategory][zone];
+
+  return {
+    positive: interpolateCladdingCurve(curve.positive, area),
+    negative: interpolateCladdingCurve(curve.negative, area)
+  };
+}
+
+// Each element is checked for the inward and outward Cp·Cg at its own tributary area,
+// with Ce taken at the mean roof height
+export function buildCladdingSurfaces(
+  elements: CladdingElement[],
+  roofCategory: CladdingRoofCategory,
+  height: number
+): WindSurface[] {
+  return elements.flatMap(element => {
+    const { positive, negative } = getCladdingCoefficients(element.zone, element.tributaryArea, roofCategory);
+    const description = `${CLADDING_ELEMENT_TYPES[element.type]} in zone ${element.zone} (${CLADDING_ZONE_NAMES[element.zone]}), ${element.tributaryArea.toFixed(2)}m² tributary area`;
+
+    return [
+      { sign: 'positive', label: 'inward', Cp: positive },
+      { sign: 'negative', label: 'outward', Cp: negative }
+    ].map(({ sign, label, Cp }) => ({
+      id: `${element.id}-${sign}`,
+      surface: `${element.name} (${label})`,
+      description,
+      Cp,
+      Cg: 1.0,
+      area: element.tributaryArea,
+      referenceHeight: height,
+      combined: true,
+      elementId: element.id
+    }));
+  });
+}
+
+// The static procedure is limited to buildings up to 60 m tall, no more than four times
+// their least width, and with a lowest natural frequency of at least 1 Hz
+export const STATIC_PROCEDURE_LIMITS = { height: 60, slenderness: 4, frequency: 1 };
+
+// Below 0.25 Hz or above 120 m the dynamic procedure gives way to wind tunnel testing
+export const DYNAMIC_PROCEDURE_LIMITS = { height: 120, frequency: 0.25 };
+
+// Terrain factor K in the background and resonant response
+export const TERRAIN_ROUGHNESS_FACTORS: Record<WindTerrain, number> = {
+  open: 0.08,
+  rough: 0.10
+};
+
+// Recommended along-wind peak acceleration limits, fraction of g
+export const ACCELERATION_LIMITS = { residential: 0.015, office: 0.025 };
+
+export const GRAVITY = 9.81; // m/s²
+
+export interface DynamicParameters {
+  naturalFrequency: number; // Hz, fundamental along-wind mode, nD
+  dampingRatio: number;     // fraction of critical, β
+  buildingDensity: number;  // kg/m³, mass over the gross building volume
+}
+
+export interface DynamicGustFactor {
+  Cg: number;
+  gp: number;       // peak factor
+  B: number;        // background turbulence factor
+  s: number;        // size reduction factor
+  F: number;        // gust energy ratio
+  nu: number;       // Hz, average fluctuation rate
+  VH: number;       // m/s, mean wind speed at the top of the building
+  CeH: number;
+  calculation: string;
+}
+
+export interface PeakAcceleration {
+  deflection: number;   // m, peak along-wind deflection at the top under SLS wind
+  acceleration: number; // m/s²
+  calculation: string;
+}
+
+// Buildings outside these bounds need the dynamic procedure (or, beyond its own limits, testing)
+export function getStaticProcedureWarnings(height: number, leastWidth: number, naturalFrequency?: number): string[] {
+  const warnings: string[] = [];
+  if (height > STATIC_PROCEDURE_LIMITS.height) {
+    warnings.push(`Height ${height.toFixed(1)} m exceeds ${STATIC_PROCEDURE_LIMITS.height} m`);
+  }
+  if (leastWidth > 0 && height / leastWidth > STATIC_PROCEDURE_LIMITS.slenderness) {
+    warnings.push(`Height-to-width ratio ${(height / leastWidth).toFixed(2)} exceeds ${STATIC_PROCEDURE_LIMITS.slenderness}`);
+  }
+  if (naturalFrequency !== undefined && naturalFrequency < STATIC_PROCEDURE_LIMITS.frequency) {
+    warnings.push(`Natural frequency ${naturalFrequency.toFixed(2)} Hz is below ${STATIC_PROCEDURE_LIMITS.frequency} Hz`);
+  }
+  return warnings;
+}
+
+export function getDynamicProcedureWarnings(height: number, naturalFrequency: number): string[] {
+  const warnings: string[] = [];
+  if (height > DYNAMIC_PROCEDURE_LIMITS.height) {
+    warnings.push(`Height ${height.toFixed(1)} m exceeds ${DYNAMIC_PROCEDURE_LIMITS.height} m; wind tunnel testing is recommended`);
+  }
+  if (naturalFrequency < DYNAMIC_PROCEDURE_LIMITS.frequency) {
+    warnings.push(`Natural frequency ${naturalFrequency.toFixed(2)} Hz is below ${DYNAMIC_PROCEDURE_LIMITS.frequency} Hz; wind tunnel testing is recommended`);
+  }
+  return warnings;
+}
+
+// Mean wind speed from the reference velocity pressure, V = 39.2√q
+export function calculateReferenceWindSpeed(q: number): number {
+  return 39.2 * Math.sqrt(q);
+}
+
+// B = 4/3 ∫ [1/(1 + xH/457)]·[1/(1 + xw/122)]·[x/(1 + x²)^(4/3)] dx from 0 to 914/H, by Simpson's rule
+function calculateBackgroundFactor(height: number, width: number): number {
+  const upper = 914 / height;
+  const steps = 400;
+  const dx = upper / steps;
+  const integrand = (x: number) =>
+    (1 / (1 + (x * height) / 457)) * (1 / (1 + (x * width) / 122)) * (x / Math.pow(1 + x * x, 4 / 3));
+
+  let sum = integrand(0) + integrand(upper);
+  for (let i = 1; i < steps; i++) {
+    sum += (i % 2 === 0 ? 2 : 4) * integrand(i * dx);
+  }
+  return (4 / 3) * (sum * dx) / 3;
+}
+
+// Cg = 1 + gp·σ/μ with σ/μ = √(K/CeH · (B + s·F/β)). w is the width of the windward face.
+export function calculateDynamicGustFactor(
+  params: WindPressureParameters,
+  geometry: { height: number; width: number },
+  dynamic: DynamicParameters
+): DynamicGustFactor {
+  const { height, width } = geometry;
+  const { naturalFrequency: nD, dampingRatio: beta } = dynamic;
+  const K = TERRAIN_ROUGHNESS_FACTORS[params.terrain];
+  const CeH = calculateExposureFactor(height, params.terrain, 'dynamic');
+  const VH = calculateReferenceWindSpeed(params.q) * Math.sqrt(CeH);
+
+  const B = calculateBackgroundFactor(height, width);
+  const s = (Math.PI / 3) * (1 / (1 + (8 * nD * height) / (3 * VH))) * (1 / (1 + (10 * nD * width) / VH));
+  const x0 = (1220 * nD) / VH;
+  const F = Math.pow(x0, 2) / Math.pow(1 + x0 * x0, 4 / 3);
+
+  const sigmaOverMu = Math.sqrt((K / CeH) * (B + (s * F) / beta));
+  const nu = nD * Math.sqrt((s * F) / (s * F + beta * B));
+  const logTerm = Math.sqrt(2 * Math.log(nu * 3600));
+  const gp = logTerm + 0.577 / logTerm;
+  const Cg = 1 + gp * sigmaOverMu;
+
+  return {
+    Cg,
+    gp,
+    B,
+    s,
+    F,
+    nu,
+    VH,
+    CeH,
+    calculation: `VH = 39.2√q·√CeH = ${VH.toFixed(2)} m/s; B = ${B.toFixed(3)}; s = ${s.toFixed(4)}; x0 = 1220·nD/VH = ${x0.toFixed(2)}, F = ${F.toFixed(4)}; σ/μ = √(K/CeH·(B + sF/β)) = √(${K}/${CeH.toFixed(3)} × (${B.toFixed(3)} + ${s.toFixed(4)} × ${F.toFixed(4)}/${beta})) = ${sigmaOverMu.toFixed(3)}; ν = ${nu.toFixed(3)} Hz, gp = ${gp.toFixed(3)}; Cg = 1 + gp·σ/μ = ${Cg.toFixed(3)}`
+  };
+}
+
+// a = 4π²nD²·gp·√(K·s·F/(CeH·β))·Δ/Cg, with the top deflection Δ from the SLS windward and leeward
+// pressures acting on a linear mode shape of generalized mass ρ·w·D·H/3
+export function calculatePeakAcceleration(
+  params: WindPressureParameters,
+  geometry: { height: number; width: number; depth: number },
+  dynamic: DynamicParameters,
+  gust: DynamicGustFactor
+): PeakAcceleration {
+  const { height, width, depth } = geometry;
+  const { naturalFrequency: nD, dampingRatio: beta, buildingDensity } = dynamic;
+  const K = TERRAIN_ROUGHNESS_FACTORS[params.terrain];
+  const { Iw, q } = getPressureBasis(params, 'sls');
+  const leewardCe = calculateExposureFactor(height / 2, params.terrain, 'dynamic');
+
+  // Generalized wind force ∫ p(z)·w·(z/H) dz, windward Cp 0.8 and leeward Cp -0.5
+  const steps = 100;
+  const dz = height / steps;
+  let generalizedForce = 0;
+  for (let i = 0; i < steps; i++) {
+    const z = (i + 0.5) * dz;
+    const Ce = calculateExposureFactor(z, params.terrain, 'dynamic');
+    const pressure = Iw * q * params.Ct * gust.Cg * (0.8 * Ce + 0.5 * leewardCe); // kPa
+    generalizedForce += pressure * width * (z / height) * dz;
+  }
+
+  const generalizedMass = (buildingDensity * width * depth * height) / 3 / 1000; // tonnes
+  const generalizedStiffness = Math.pow(2 * Math.PI * nD, 2) * generalizedMass;  // kN/m
+  const deflection = generalizedForce / generalizedStiffness;
+  const acceleration = 4 * Math.pow(Math.PI * nD, 2) * gust.gp * Math.sqrt((K * gust.s * gust.F) / (gust.CeH * beta)) * (deflection / gust.Cg);
+
+  return {
+    deflection,
+    acceleration,
+    calculation: `m* = ρ·w·D·H/3 = ${generalizedMass.toFixed(0)} t; k* = (2π·nD)²·m* = ${generalizedStiffness.toFixed(0)} kN/m; Δ = ${generalizedForce.toFixed(0)} kN / k* = ${(deflection * 1000).toFixed(1)} mm; a = 4π²nD²·gp·√(KsF/(CeH·β))·Δ/Cg = ${acceleration.toFixed(4)} m/s² (${((acceleration / GRAVITY) * 1000).toFixed(1)} milli-g)`
+  };
+}
+
+export type AppurtenanceType = 'parapet' | 'attached-canopy' | 'freestanding-canopy' | 'rooftop-equipment' | 'rooftop-screen';
+
+export interface Appurtenance {
+  id: string;
+  name: string;
+  type: AppurtenanceType;
+  length: number;    // m, along the building face or the unit's windward face
+  height: number;    // m, parapet, unit or screen height; canopy projection
+  depth: number;     // m, plan depth of rooftop equipment
+  elevation: number; // m, base of the parapet, unit or screen, or canopy height above grade
+}
+
+// One face of an element loaded with the Figure 4.1.7.6 Cp·Cg of a cladding zone
+interface CladdingFace {
+  zone: CladdingZone;
+  sign: 'positive' | 'negative';
+}
+
+// Each case is either a net Cp·Cg built from the Figure 4.1.7.6 curves as front face less
+// back face (positive towards the building or downward), or a gust-included force
+// coefficient taken from ASCE 7-16 where the NBC gives none.
+export interface AppurtenanceCase {
+  label: string;
+  loading: 'lateral' | 'vertical';
+  reference: string;
+  front?: CladdingFace;
+  back?: CladdingFace;
+  Cp?: number;
+}
+
+// ASCE 7-16 coefficients act on a 3-second gust pressure. The 3-second gust is about 1.52
+// times the hourly mean speed at 10 m in open terrain, so the gust pressure is 1.52² ≈ 2.3
+// times the NBC hourly mean pressure, and that ratio stands in for Cg.
+export const ASCE_GUST_PRESSURE_RATIO = 2.3;
+
+// Parapets and attached canopies are built from the NBC figures; the NBC has no coefficients
+// for free-standing canopies or rooftop units, so those are ASCE 7-16 values and flagged nbc: false
+export const APPURTENANCE_COEFFICIENTS: Record<AppurtenanceType, { name: string; nbc: boolean; cases: AppurtenanceCase[] }> = {
+  parapet: {
+    name: 'Parapet',
+    nbc: true,
+    cases: [
+      {
+        label: 'windward parapet, outer face pressure with inner face suction',
+        loading: 'lateral',
+        reference: 'Fig. 4.1.7.6 wall zone e pressure less roof zone s suction (ASCE 7-16 30.8, Case A)',
+        front: { zone: 'e', sign: 'positive' },
+        back: { zone: 's', sign: 'negative' }
+      },
+      {
+        label: 'leeward parapet, outer face suction with inner face pressure',
+        loading: 'lateral',
+        reference: 'Fig. 4.1.7.6 wall zone e suction less wall zone e pressure (ASCE 7-16 30.8, Case B)',
+        front: { zone: 'e', sign: 'negative' },
+        back: { zone: 'e', sign: 'positive' }
+      }
+    ]
+  },
+  'attached-canopy': {
+    name: 'Attached Canopy',
+    nbc: true,
+    cases: [
+      {
+        label: 'net downward',
+        loading: 'vertical',
+        reference: 'Fig. 4.1.7.6 roof zone s pressure on the top surface',
+        front: { zone: 's', sign: 'positive' }
+      },
+      {
+        label: 'net uplift',
+        loading: 'vertical',
+        reference: 'Fig. 4.1.7.6 roof zone s suction on top with wall zone e pressure underneath, as a roof overhang (ASCE 7-16 30.9)',
+        front: { zone: 's', sign: 'negative' },
+        back: { zone: 'e', sign: 'positive' }
+      }
+    ]
+  },
+  'freestanding-canopy': {
+    name: 'Free-standing Canopy',
+    nbc: false,
+    cases: [
+      { label: 'net downward', loading: 'vertical', reference: 'ASCE 7-16 Fig. 27.3-4, monoslope θ = 0°, clear flow, G·CNW = 0.85 × 1.2', Cp: 1.02 },
+      { label: 'net uplift', loading: 'vertical', reference: 'ASCE 7-16 Fig. 27.3-4, monoslope θ = 0°, clear flow, G·CNW = 0.85 × -1.1', Cp: -0.94 }
+    ]
+  },
+  'rooftop-equipment': {
+    name: 'Rooftop Equipment',
+    nbc: false,
+    cases: [
+      { label: 'lateral force on projected area', loading: 'lateral', reference: 'ASCE 7-16 29.4.1, GCr = 1.9 on the vertical projected area', Cp: 1.9 },
+      { label: 'uplift on plan area', loading: 'vertical', reference: 'ASCE 7-16 29.4.1, GCr = 1.5 on the horizontal projected area', Cp: -1.5 }
+    ]
+  },
+  'rooftop-screen': {
+    name: 'Rooftop Screen',
+    nbc: false,
+    cases: [
+      { label: 'lateral force on solid screen', loading: 'lateral', reference: 'ASCE 7-16 29.4.1, GCr = 1.9 on the vertical projected area', Cp: 1.9 }
+    ]
+  }
+};
+
+// Net Cp·Cg of a case built from the cladding curves, read at the effective area of one span
+// of the element by a third of a span (ASCE 7 effective wind area), at least 1 m²
+export function getAppurtenanceCladdingCoefficient(
+  loadCase: AppurtenanceCase,
+  span: number,
+  roofCategory: CladdingRoofCategory
+): number {
+  const area = Math.max(CLADDING_AREA_RANGE.min, (span * span) / 3);
+  const faceValue = (face?: CladdingFace) => face ? getCladdingCoefficients(face.zone, area, roofCategory)[face.sign] : 0;
+  return faceValue(loadCase.front) - faceValue(loadCase.back);
+}
+
+// Lateral cases load the vertical face and overturn about the base at mid-height; vertical
+// cases load the plan area (canopy projection or unit footprint) and overturn about the
+// supported edge at half the plan depth. Ce is taken at the top of each element.
+export function buildAppurtenanceSurfaces(appurtenances: Appurtenance[], roofCategory: CladdingRoofCategory): WindSurface[] {
+  return appurtenances.flatMap(item => {
+    const { name, nbc, cases } = APPURTENANCE_COEFFICIENTS[item.type];
+    const isCanopy = item.type === 'attached-canopy' || item.type === 'freestanding-canopy';
+    const top = isCanopy ? item.elevation : item.elevation + item.height;
+
+    return cases.map((loadCase, index) => {
+      const lateral = loadCase.loading === 'lateral';
+      const planDepth = isCanopy ? item.height : item.depth;
+      const area = lateral ? item.length * item.height : item.length * planDepth;
+      const combined = loadCase.Cp === undefined;
+
+      return {
+        id: `${item.id}-${index}`,
+        surface: `${item.name} (${loadCase.label})`,
+        description: `${lateral
+          ? `${name}, ${item.length}m × ${item.height}m face, top at ${top.toFixed(1)}m`
+          : `${name}, ${item.length}m × ${planDepth}m plan, at ${top.toFixed(1)}m`}; ${loadCase.reference}`,
+        Cp: loadCase.Cp ?? getAppurtenanceCladdingCoefficient(loadCase, item.height, roofCategory),
+        Cg: combined ? 1.0 : ASCE_GUST_PRESSURE_RATIO,
+        area,
+        referenceHeight: top,
+        combined,
+        nonNbc: !nbc,
+        appurtenanceId: item.id,
+        leverArm: lateral ? item.height / 2 : planDepth / 2
+      };
+    });
+  });
+}
+
+// NBC 2020 4.1.7.13 tornado loads on high and post-disaster importance buildings in the
+// tornado-prone region. The climatic data carries no tornado flag, so the region is taken from
+// the NBC tornado-prone region map, approximated by latitude: southern Alberta east of the
+// foothills through Saskatchewan and Manitoba, southern Ontario and Quebec, and New Brunswick.
+// Limits are in degrees, longitude measured west.
+export const TORNADO_PRONE_REGION: Record<string, { maxLatitude: number; maxLongitude?: number }> = {
+  Alberta: { maxLatitude: 55, maxLongitude: 115 },
+  Saskatchewan: { maxLatitude: 55 },
+  Manitoba: { maxLatitude: 55 },
+  Ontario: { maxLatitude: 50 },
+  Quebec: { maxLatitude: 49 },
+  'New Brunswick': { maxLatitude: 48.5 }
+};
+
+export interface TornadoLocation {
+  province: string;
+  latitude?: number;  // °N
+  longitude?: number; // °W
+}
+
+// Design tornado per importance category from NBC 2020 Structural Commentaries, Commentary I
+// (tornado loads): EF1 for high and EF2 for post-disaster buildings. The 3-second gust speed is
+// the upper bound of the rating on Environment and Climate Change Canada's Canadian EF scale,
+// EF1 135–175 km/h and EF2 180–220 km/h.
+export const TORNADO_DESIGN_SPEEDS: Partial<Record<WindImportanceCategory, { rating: string; speedKmh: number; speed: number }>> = {
+  high: { rating: 'EF1', speedKmh: 175, speed: 175 / 3.6 },
+  'post-disaster': { rating: 'EF2', speedKmh: 220, speed: 220 / 3.6 }
+};
+
+export const AIR_DENSITY = 1.2929; // kg/m³
+
+export interface TornadoDesign {
+  rating: string;
+  speedKmh: number;
+  speed: number; // m/s
+  q: number;     // kPa
+}
+
+// null when the province reaches into the region but the location has no coordinates, so
+// the check has to be assumed to apply and confirmed by hand
+export function isTornadoProneLocation(location: TornadoLocation): boolean | null {
+  const region = TORNADO_PRONE_REGION[location.province];
+  if (!region) return false;
+  if (location.latitude === undefined || location.longitude === undefined) return null;
+  return location.latitude <= region.maxLatitude
+    && (region.maxLongitude === undefined || location.longitude <= region.maxLongitude);
+}
+
+export function getTornadoDesign(importance: WindImportanceCategory, inTornadoRegion: boolean): TornadoDesign | null {
+  const design = TORNADO_DESIGN_SPEEDS[importance];
+  if (!design || !inTornadoRegion) return null;
+  return { ...design, q: (0.5 * AIR_DENSITY * design.speed * design.speed) / 1000 };
+}
+
+// The tornado speed is already a gust, so Cg = 1.0, and the tornado profile is uniform near the
+// ground, so Ce = 1.0: p = qT·Cp, less internal pressure qT·Cpi for the opening category
+export function buildTornadoLoadResults(
+  surfaces: WindSurface[],
+  tornado: TornadoDesign,
+  category: InternalPressureCategory
+): WindLoadResult[] {
+  const { min: CpiMin, max: CpiMax } = INTERNAL_PRESSURE_COEFFICIENTS[category];
+
+  return surfaces.map(surface => {
+    const pressure = tornado.q * surface.Cp;
+    const netPositive = pressure - tornado.q * CpiMin;
+    const netNegative = pressure - tornado.q * CpiMax;
+
+    return {
+      id: `${surface.id}-tornado`,
+      surface: surface.surface,
+      designCase: 'uls',
+      pressure,
+      force: pressure * surface.area,
+      description: surface.description,
+      coefficient: surface.Cp,
+      area: surface.area,
+      Ce: 1.0,
+      Cg: 1.0,
+      calculation: `qT = ½ρV² = 0.5 × ${AIR_DENSITY} × ${tornado.speed.toFixed(1)}² = ${tornado.q.toFixed(3)} kPa; p = qT·Cp = ${tornado.q.toFixed(3)} × ${surface.Cp.toFixed(2)} = ${pressure.toFixed(3)} kPa; F = ${(pressure * surface.area).toFixed(1)} kN; net = p - qT·Cpi = ${netPositive.toFixed(3)} / ${netNegative.toFixed(3)} kPa`,
+      face: surface.face,
+      netPositive,
+      netNegative
+    };
+  });
+}
+
+export interface TornadoComparison {
+  id: string;
+  surface: string;
+  Cp: number;
+  wind: number;    // kPa, ULS wind pressure on the same surface and Cp
+  tornado: number; // kPa
+}
+
+// Wind and tornado pressures surface by surface on the same Cp, so the generic surface
+// coefficients used for the tornado are never weighed against low-rise Cp·Cg zones
+export function compareTornadoToWind(wind: WindLoadResult[], tornado: WindLoadResult[]): TornadoComparison[] {
+  return tornado.flatMap(result => {
+    const id = result.id.replace(/-tornado$/, '');
+    const match = wind.find(item => item.id === `${id}-uls`);
+    return match ? [{ id, surface: result.surface, Cp: result.coefficient, wind: match.pressure, tornado: result.pressure }] : [];
+  });
+}
+
+export type WindAxis = 'x' | 'y';
+
+// A floor level with the height of wall it collects wind from: half the storey below and half
+// the storey above, or half the top storey at the roof
+export interface FloorLevel {
+  level: string;
+  elevation: number;        // m above grade
+  tributaryBottom: number;  // m, bottom of the strip of wall the floor collects
+  tributaryTop: number;     // m
+  tributaryHeight: number;  // m
+}
+
+export interface StoreyWindForce {
+  level: string;
+  elevation: number;
+  Fx: number; // kN, wind along x on the face of width w
+  Fy: number; // kN, wind along y on the face of length L
+}
+
+export interface StoreyShear extends StoreyWindForce {
+  Vx: number; // kN, shear in the storey below the level
+  Vy: number; // kN
+}
+
+export interface StoreyLoadCaseForce extends StoreyWindForce {
+  Mt: number; // kN·m, torsion about the centre of the floor, acting either way
+}
+
+export interface MwfrsLoadCase {
+  id: string;
+  name: string;
+  description: string;
+  storeys: StoreyLoadCaseForce[];
+  totalFx: number;
+  totalFy: number;
+  totalMt: number;
+}
+
+// Floors above grade from the first suspended floor up to the roof. Elevations outside
+// the building height are dropped and the roof is always the top level.
+export function buildFloorLevelsFromElevations(elevations: number[], height: number): FloorLevel[] {
+  const floors = Array.from(new Set(elevations.filter(z => z > 0 && z < height)))
+    .sort((a, b) => a - b);
+  floors.push(height);
+
+  return floors.map((elevation, i) => {
+    const below = i === 0 ? 0 : floors[i - 1];
+    const above = i === floors.length - 1 ? elevation : floors[i + 1];
+    const tributaryBottom = (below + elevation) / 2;
+    const tributaryTop = (elevation + above) / 2;
+    return {
+      level: i === floors.length - 1 ? 'Roof' : `Level ${i + 2}`,
+      elevation,
+      tributaryBottom,
+      tributaryTop,
+      tributaryHeight: tributaryTop - tributaryBottom
+    };
+  });
+}
+
+// Floors at a uniform storey height from the first floor up to the roof
+export function buildFloorLevels(height: number, storeyHeight: number): FloorLevel[] {
+  const count = storeyHeight > 0 ? Math.max(1, Math.round(height / storeyHeight)) : 1;
+  const storey = height / count;
+  return buildFloorLevelsFromElevations(Array.from({ length: count - 1 }, (_, i) => (i + 1) * storey), height);
+}
+
+// Area-weighted Cp·Cg over the windward or leeward wall surfaces of one wind direction
+function getWallCoefficient(surfaces: WindSurface[], face: WindFace): { CpCg: number; referenceHeight: number } {
+  const walls = surfaces.filter(surface => surface.face === face);
+  const area = walls.reduce((sum, wall) => sum + wall.area, 0);
+  if (area <= 0) return { CpCg: 0, referenceHeight: 0 };
+  return {
+    CpCg: walls.reduce((sum, wall) => sum + wall.Cp * wall.Cg * wall.area, 0) / area,
+    referenceHeight: walls[0].referenceHeight
+  };
+}
+
+// Floor forces from the same wall surfaces as the reported pressures: surfaces.x for wind
+// along the length (loading the width face) and surfaces.y for wind across it. The windward
+// wall is integrated with Ce(z) over each floor's tributary strip, except for low-rise Cp·Cg
+// zones, which are calibrated to Ce at the roof height over the full wall; the leeward wall
+// takes Ce at its surface's reference height.
+export function calculateStoreyWindForces(
+  params: WindPressureParameters,
+  geometry: { length: number; width: number; height: number },
+  floors: FloorLevel[],
+  surfaces: { x: WindSurface[]; y: WindSurface[] },
+  designCase: WindDesignCase = 'uls'
+): StoreyWindForce[] {
+  const { length, width, height } = geometry;
+  const { Iw, q } = getPressureBasis(params, designCase);
+  const pressure = (Ce: number, CpCg: number) => Iw * q * Ce * params.Ct * CpCg;
+
+  const steps = 10;
+
+  const directions = (['x', 'y'] as const).map(direction => {
+    const windward = getWallCoefficient(surfaces[direction], 'windward');
+    const leeward = getWallCoefficient(surfaces[direction], 'leeward');
+    return {
+      windward,
+      profile: !surfaces[direction].some(surface => surface.face === 'windward' && surface.combined),
+      leeward: pressure(getSiteExposureFactor(leeward.referenceHeight, params, height).Ce, leeward.CpCg)
+    };
+  });
+
+  return floors.map(floor => {
+    const dz = floor.tributaryHeight / steps;
+    let windwardCe = 0;
+    for (let i = 0; i < steps; i++) {
+      windwardCe += getSiteExposureFactor(floor.tributaryBottom + (i + 0.5) * dz, params, height).Ce * dz;
+    }
+    const [netX, netY] = directions.map(({ windward, profile, leeward }) => {
+      if (floor.tributaryHeight <= 0) return -leeward;
+      const Ce = profile ? windwardCe / floor.tributaryHeight : getSiteExposureFactor(windward.referenceHeight, params, height).Ce;
+      return pressure(Ce, windward.CpCg) - leeward;
+    });
+    return {
+      level: floor.level,
+      elevation: floor.elevation,
+      Fx: netX * width * floor.tributaryHeight,
+      Fy: netY * length * floor.tributaryHeight
+    };
+  });
+}
+
+// Full and partial loading per NBC 4.1.7.3. Case A: full wind along each principal axis.
+// Case B: Case A with 25% of the load removed from any portion. Case C: 75% of Case A along
+// both axes at once. Case D: Case C with 50% of the load removed from any portion. The removed
+// portion is taken as half of the loaded face, the worst case for torsion: a fraction r of F
+// removed from half the face width b leaves (1 - r/2)F and a torque of r·F·b/8.
+export function buildMwfrsLoadCases(storeys: StoreyWindForce[], geometry: { length: number; width: number }): MwfrsLoadCase[] {
+  const { length, width } = geometry;  // x-direction wind acts on the width face
+
+  const build = (
+    id: string,
+    name: string,
+    description: string,
+    factorX: number,
+    factorY: number,
+    removed: number
+  ): MwfrsLoadCase => {
+    const forces = storeys.map(storey => {
+      const Fx = factorX * storey.Fx;
+      const Fy = factorY * storey.Fy;
+      return {
+        level: storey.level,
+        elevation: storey.elevation,
+        Fx: Fx * (1 - removed / 2),
+        Fy: Fy * (1 - removed / 2),
+        Mt: removed * (Fx * width + Fy * length) / 8
+      };
+    });
+    return {
+      id,
+      name,
+      description,
+      storeys: forces,
+      totalFx: forces.reduce((sum, storey) => sum + storey.Fx, 0),
+      totalFy: forces.reduce((sum, storey) => sum + storey.Fy, 0),
+      totalMt: forces.reduce((sum, storey) => sum + storey.Mt, 0)
+    };
+  };
+
+  return [
+    build('A-x', 'Case A, wind along x', 'Full wind load along x (NBC 4.1.7.3)', 1, 0, 0),
+    build('A-y', 'Case A, wind along y', 'Full wind load along y (NBC 4.1.7.3)', 0, 1, 0),
+    build('B-x', 'Case B, wind along x', 'Case A along x with 25% removed from half of the face (NBC 4.1.7.3)', 1, 0, 0.25),
+    build('B-y', 'Case B, wind along y', 'Case A along y with 25% removed from half of the face (NBC 4.1.7.3)', 0, 1, 0.25),
+    build('C', 'Case C, both axes', '75% of Case A along x and y simultaneously (NBC 4.1.7.3)', 0.75, 0.75, 0),
+    build('D', 'Case D, both axes with torsion', 'Case C with 50% removed from half of each face (NBC 4.1.7.3)', 0.75, 0.75, 0.5)
+  ];
+}
+
+// Storey shear is the sum of the floor forces at and above each level
+export function calculateStoreyShears(storeys: StoreyWindForce[]): StoreyShear[] {
+  let Vx = 0;
+  let Vy = 0;
+  return [...storeys]
+    .sort((a, b) => b.elevation - a.elevation)
+    .map(storey => {
+      Vx += storey.Fx;
+      Vy += storey.Fy;
+      return { ...storey, Vx, Vy };
+    })
+    .reverse();
+}
+
+// Overturning moment at the base from the floor forces, Σ F·z, for wind along each axis
+export function calculateBaseOverturning(storeys: StoreyWindForce[]): { Mx: number; My: number } {
+  return storeys.reduce(
+    (total, storey) => ({
+      Mx: total.Mx + storey.Fx * storey.elevation,
+      My: total.My + storey.Fy * storey.elevation
+    }),
+    { Mx: 0, My: 0 }
+  );
+}
+
+// NBC guideline for inter-storey drift under SLS wind, h/500
+export const WIND_DRIFT_LIMIT = 1 / 500;
+
+export interface StoreyDrift {
+  level: string;
+  elevation: number;
+  storeyHeight: number; // m
+  stiffness: number;    // kN/mm
+  driftX: number;       // mm
+  driftY: number;       // mm
+  ratio: number;        // governing drift / storey height
+  passes: boolean;
+}
+
+// Each storey drifts by the shear it carries over its stiffness, Δ = V/k. Shears must come
+// from SLS floor forces; stiffness is listed bottom-up to match the floors.
+export function calculateStoreyDrifts(shears: StoreyShear[], stiffness: number[]): StoreyDrift[] {
+  return shears.map((storey, i) => {
+    const storeyHeight = storey.elevation - (i === 0 ? 0 : shears[i - 1].elevation);
+    const k = stiffness[i] ?? 0;
+    const driftX = k > 0 ? storey.Vx / k : Infinity;
+    const driftY = k > 0 ? storey.Vy / k : Infinity;
+    const ratio = Math.max(driftX, driftY) / (storeyHeight * 1000);
+    return {
+      level: storey.level,
+      elevation: storey.elevation,
+      storeyHeight,
+      stiffness: k,
+      driftX,
+      driftY,
+      ratio,
+      passes: ratio <= WIND_DRIFT_LIMIT
+    };
+  });
+}